@@ -1,14 +1,51 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Status, type ClonedDesign, type Mockup, type ProductDetails } from './types';
-import { PRODUCTS, IconSparkles, IconUpload } from './constants';
-import * as geminiService from './services/geminiService';
-import { toBase64 } from './utils/fileUtils';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { Status, type BackgroundRemovalSettings, type BatchItem, type Mockup, type ProductColor, type BatchSnapshot, type MockupTemplate, type PipelineState, type PipelineStepId, type ProductCatalog, type ProductDetails, type Project, type ProviderId, type StudioMode, type PrintPlacement, type UpscaleSettings, type UsagePrices, type RequestSchedulerSettings, type ErrorSource, type StudioNotification, type InputSettings, type NormalizedImage, type ImageSource, type KeyVaultSnapshot, type ProxyHealth } from './types';
+import { DETECTED_COLOR, IconSparkles, IconUpload } from './constants';
+import * as designService from './services/designService';
+import { PROVIDER_OPTIONS, createProvider, isProviderId, testApiKey } from './services/providers';
+import { BACKGROUND_REMOVAL_MODES, parseBackgroundRemovalSettings } from './services/providers/backgroundRemoval';
+import { fetchProxyHealth } from './services/providers/proxyProvider';
+import { approveReview, createPipelineState, replacePrintFileImage, resetStep, retryMockup, retryPrintFile, runPipeline, selectCloneCandidate, type PipelineCallbacks, type PipelineContext } from './services/pipeline';
+import { createBatchQueue, buildBatchReport, type BatchJob } from './services/batchQueue';
+import { createProjectName, getProject, saveProject } from './services/projectStore';
+import { buildListingPackage, toFileSlug } from './services/listingPackage';
+import { loadCatalog, resolvePrintProfileIds, saveCatalog, toPrintProfileMap, toProductMap } from './services/catalogStore';
+import { listTemplates, toTemplateMap } from './services/templateStore';
+import { UPSCALE_ALGORITHMS, loadUpscaleSettings, saveUpscaleSettings } from './services/upscaler';
+import { loadPrintPlacement, measureDesign, savePrintPlacement } from './services/placement';
+import { loadUsagePrices, reportUsage, saveUsagePrices } from './services/usageLedger';
+import { loadSchedulerSettings, parseSchedulerSettings, requestScheduler, saveSchedulerSettings } from './services/requestScheduler';
+import { createNotification } from './services/errors';
+import { getFormatName, loadInputSettings, normalizeImageFile, parseInputSettings, saveInputSettings } from './services/imageInput';
+import { fetchImageFile, isImageFile } from './services/imageImport';
+import { createKeyVault, toCredentials } from './services/keyVault';
+import { downloadBlob, downloadUrl } from './utils/fileUtils';
+import { formatFileSize } from './utils/imageFormat';
+import { toCsv } from './utils/csv';
 import Button from './components/Button';
-import ErrorNotification from './components/ErrorNotification';
+import NotificationCenter from './components/NotificationCenter';
 import ProductDetailsDisplay from './components/ProductDetailsDisplay';
 import MockupCard from './components/MockupCard';
 import InstructionsModal from './components/InstructionsModal';
 import PromptGuide from './components/PromptGuide';
+import PipelineProgress from './components/PipelineProgress';
+import PromptReviewPanel from './components/PromptReviewPanel';
+import CandidatePicker from './components/CandidatePicker';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import ProjectLibrary from './components/ProjectLibrary';
+import CatalogManager from './components/CatalogManager';
+import MarketplaceExportModal from './components/MarketplaceExportModal';
+import PrintFileCard from './components/PrintFileCard';
+import VectorizePanel from './components/VectorizePanel';
+import PlacementPanel from './components/PlacementPanel';
+import ColorSelector from './components/ColorSelector';
+import UsageDashboard from './components/UsageDashboard';
+import ImageDropZone from './components/ImageDropZone';
+import ImageImportBar from './components/ImageImportBar';
+import SourceTray from './components/SourceTray';
+import KeyVaultPanel from './components/KeyVaultPanel';
+
+const MAX_CLONE_CANDIDATES = 4;
 
 const ProductSelectorCard = ({ id, name, isSelected, onSelect }: { id: string, name: string, isSelected: boolean, onSelect: (id: string) => void }) => (
     <div
@@ -20,207 +57,620 @@ const ProductSelectorCard = ({ id, name, isSelected, onSelect }: { id: string, n
 );
 
 const App: React.FC = () => {
+    const [catalog, setCatalog] = useState<ProductCatalog>(loadCatalog);
+    const products = useMemo(() => toProductMap(catalog), [catalog]);
+    const printProfiles = useMemo(() => toPrintProfileMap(catalog), [catalog]);
+    const [templateList, setTemplateList] = useState<MockupTemplate[]>([]);
+    const templates = useMemo(() => toTemplateMap(templateList), [templateList]);
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
-    const [clonedDesign, setClonedDesign] = useState<ClonedDesign>({ status: Status.IDLE, imageUrl: null });
-    const [removedBgDesign, setRemovedBgDesign] = useState<ClonedDesign>({ status: Status.IDLE, imageUrl: null });
-    const [resizedDesign, setResizedDesign] = useState<ClonedDesign>({ status: Status.IDLE, imageUrl: null });
-    const [mockups, setMockups] = useState<Mockup[]>([]);
+    /** How the current upload was prepared; null for designs reopened from the library. */
+    const [uploadedInput, setUploadedInput] = useState<NormalizedImage | null>(null);
+    const [sources, setSources] = useState<ImageSource[]>([]);
+    const [selectedSourceId, setSelectedSourceId] = useState<string | null>(null);
+    const [pipeline, setPipeline] = useState<PipelineState>(() => createPipelineState([], {}));
+    const [pipelineContext, setPipelineContext] = useState<PipelineContext | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
-    const [error, setError] = useState<string | null>(null);
-    const [selectedProducts, setSelectedProducts] = useState<string[]>(Object.keys(PRODUCTS).slice(0, 4));
+    const [notifications, setNotifications] = useState<StudioNotification[]>([]);
+    const [selectedProducts, setSelectedProducts] = useState<string[]>(() => catalog.products.slice(0, 4).map(product => product.id));
+    const [explicitPrintProfileIds, setExplicitPrintProfileIds] = useState<string[]>([]);
+    const [productColors, setProductColors] = useState<ProductColor[]>([DETECTED_COLOR]);
     const [productDetails, setProductDetails] = useState<ProductDetails | null>(null);
     const [isGeneratingDetails, setIsGeneratingDetails] = useState(false);
     const [additionalInstructions, setAdditionalInstructions] = useState<string>('');
     const [isInstructionsModalOpen, setIsInstructionsModalOpen] = useState(false);
-    const [page, setPage] = useState<'studio' | 'guide'>('studio');
-    const [mode, setMode] = useState<'cloner' | 'redesign'>('cloner');
+    const [page, setPage] = useState<'studio' | 'guide' | 'library' | 'catalog' | 'usage'>('studio');
+    const [mode, setMode] = useState<StudioMode>('cloner');
+    const [activeProject, setActiveProject] = useState<Project | null>(null);
+    const [isMarketplaceExportOpen, setIsMarketplaceExportOpen] = useState(false);
+    const [workspace, setWorkspace] = useState<'single' | 'batch'>('single');
+    const [batch, setBatch] = useState<BatchSnapshot>({ items: [], isPaused: true, activeCount: 0, concurrency: 2 });
     
     // API Key State
-    const [geminiApiKey, setGeminiApiKey] = useState<string>(() => localStorage.getItem('geminiApiKey') || '');
-    const [photoroomApiKey, setPhotoroomApiKey] = useState<string>(() => localStorage.getItem('photoroomApiKey') || 'sk_pr_default_a0f75c1bea6776987fcd3790bd047935b9eb5ece');
+    const [keyVault] = useState(() => createKeyVault(snapshot => setVaultSnapshot(snapshot)));
+    const [vaultSnapshot, setVaultSnapshot] = useState<KeyVaultSnapshot>(() => keyVault.getSnapshot());
+    const { geminiApiKey, photoroomApiKey } = toCredentials(vaultSnapshot.store);
     const [showApiKeys, setShowApiKeys] = useState<boolean>(false);
+    const [providerId, setProviderId] = useState<ProviderId>(() => {
+        const stored = localStorage.getItem('providerId');
+        return isProviderId(stored) ? stored : 'gemini';
+    });
+
+    const [reviewPrompt, setReviewPrompt] = useState<boolean>(() => localStorage.getItem('reviewPrompt') === 'true');
+    const [cloneCandidates, setCloneCandidates] = useState<number>(() => {
+        const stored = Number(localStorage.getItem('cloneCandidates'));
+        return Number.isInteger(stored) && stored >= 1 && stored <= MAX_CLONE_CANDIDATES ? stored : 1;
+    });
+    const [backgroundRemoval, setBackgroundRemoval] = useState<BackgroundRemovalSettings>(() => {
+        try {
+            return parseBackgroundRemovalSettings(JSON.parse(localStorage.getItem('backgroundRemoval') || 'null'));
+        } catch {
+            return parseBackgroundRemovalSettings(null);
+        }
+    });
+
+    const [upscale, setUpscale] = useState<UpscaleSettings>(loadUpscaleSettings);
+    const [placement, setPlacement] = useState<PrintPlacement>(loadPrintPlacement);
+    const [designSize, setDesignSize] = useState<{ width: number, height: number } | null>(null);
+    const [usagePrices, setUsagePrices] = useState<UsagePrices>(loadUsagePrices);
+    const [schedulerSettings, setSchedulerSettings] = useState<RequestSchedulerSettings>(loadSchedulerSettings);
+    const [inputSettings, setInputSettings] = useState<InputSettings>(loadInputSettings);
+
+    const provider = useMemo(
+        () => createProvider(providerId, { geminiApiKey, photoroomApiKey }, backgroundRemoval, reportUsage),
+        [providerId, geminiApiKey, photoroomApiKey, backgroundRemoval]
+    );
+    const providerOption = PROVIDER_OPTIONS.find(option => option.id === providerId)!;
+    const isMissingRequiredKey = providerOption.requiresGeminiKey && !geminiApiKey;
+    const [proxyHealth, setProxyHealth] = useState<ProxyHealth | 'unreachable' | null>(null);
+
+    const { clone: clonedDesign, removeBackground: removedBgDesign } = pipeline.steps;
+    const { printFiles, mockups } = pipeline;
+    const runPrintProfileIds = resolvePrintProfileIds(catalog, selectedProducts, explicitPrintProfileIds);
+    const mockupGroups = mockups.reduce<{ productId: string, name: string, mockups: Mockup[] }[]>((groups, mockup) => {
+        const group = groups.find(item => item.productId === mockup.productId);
+        if (group) {
+            group.mockups.push(mockup);
+        } else {
+            groups.push({ productId: mockup.productId, name: mockup.name, mockups: [mockup] });
+        }
+        return groups;
+    }, []);
 
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const batchInputRef = useRef<HTMLInputElement>(null);
     const resultsRef = useRef<HTMLDivElement>(null);
+    const runAbortRef = useRef<AbortController | null>(null);
+    /** What the active project's store copy holds, so opening a project does not save it again and bump its date. */
+    const savedProjectRef = useRef<{ pipeline: PipelineState, productDetails: ProductDetails | null } | null>(null);
+
+    // The queue outlives renders, so it reads the latest studio settings through this ref when an item starts.
+    const createBatchJobRef = useRef<(item: BatchItem) => BatchJob>(null!);
+    createBatchJobRef.current = (item) => ({
+        context: {
+            provider,
+            products,
+            printProfiles,
+            templates,
+            upscale,
+            placement,
+            sourceImage: item.sourceImage,
+            project: { id: item.id, name: item.fileName },
+            additionalInstructions: mode === 'redesign' ? additionalInstructions : undefined,
+        },
+        productIds: selectedProducts,
+        printProfileIds: runPrintProfileIds,
+        colors: productColors,
+    });
+    const [batchQueue] = useState(() => createBatchQueue({
+        concurrency: 2,
+        createJob: (item) => createBatchJobRef.current(item),
+        onChange: setBatch,
+    }));
+
+    // Any input counts as activity and postpones the vault's auto-lock.
+    useEffect(() => {
+        const handleActivity = () => keyVault.touch();
+        window.addEventListener('pointerdown', handleActivity);
+        window.addEventListener('keydown', handleActivity);
+        return () => {
+            window.removeEventListener('pointerdown', handleActivity);
+            window.removeEventListener('keydown', handleActivity);
+        };
+    }, [keyVault]);
+
+    useEffect(() => {
+        localStorage.setItem('providerId', providerId);
+    }, [providerId]);
+
+    useEffect(() => {
+        if (providerId !== 'proxy' || !showApiKeys) return;
+        const controller = new AbortController();
+        setProxyHealth(null);
+        fetchProxyHealth(controller.signal)
+            .then(setProxyHealth)
+            .catch(() => !controller.signal.aborted && setProxyHealth('unreachable'));
+        return () => controller.abort();
+    }, [providerId, showApiKeys]);
+
+    useEffect(() => {
+        localStorage.setItem('backgroundRemoval', JSON.stringify(backgroundRemoval));
+    }, [backgroundRemoval]);
+
+    useEffect(() => {
+        saveUpscaleSettings(upscale);
+    }, [upscale]);
+
+    useEffect(() => {
+        savePrintPlacement(placement);
+    }, [placement]);
+
+    useEffect(() => {
+        saveUsagePrices(usagePrices);
+    }, [usagePrices]);
+
+    useEffect(() => {
+        saveSchedulerSettings(schedulerSettings);
+        requestScheduler.configure(schedulerSettings);
+    }, [schedulerSettings]);
+
+    useEffect(() => {
+        saveInputSettings(inputSettings);
+    }, [inputSettings]);
+
+    // Print files report their effective DPI against the part of the transparent design that is actually printed.
+    useEffect(() => {
+        setDesignSize(null);
+        if (!removedBgDesign.output) return;
+        let isCurrent = true;
+        measureDesign(removedBgDesign.output, placement.trim)
+            .then(({ bounds }) => isCurrent && setDesignSize({ width: bounds.width, height: bounds.height }))
+            .catch(() => undefined);
+        return () => { isCurrent = false; };
+    }, [removedBgDesign.output, placement.trim]);
 
     useEffect(() => {
-        localStorage.setItem('geminiApiKey', geminiApiKey);
-    }, [geminiApiKey]);
+        localStorage.setItem('reviewPrompt', String(reviewPrompt));
+    }, [reviewPrompt]);
 
     useEffect(() => {
-        localStorage.setItem('photoroomApiKey', photoroomApiKey);
-    }, [photoroomApiKey]);
+        localStorage.setItem('cloneCandidates', String(cloneCandidates));
+    }, [cloneCandidates]);
+
+    const updateBackgroundRemoval = (patch: Partial<BackgroundRemovalSettings>) =>
+        setBackgroundRemoval(prev => ({ ...prev, ...patch }));
+
+    useEffect(() => {
+        listTemplates().then(setTemplateList).catch(err => console.error('Failed to load mockup templates:', err));
+    }, []);
+
+    const handleSaveCatalog = (next: ProductCatalog) => {
+        saveCatalog(next);
+        setCatalog(next);
+        // Drop selections for products that were removed and respect a lowered limit.
+        setSelectedProducts(prev => prev
+            .filter(id => next.products.some(product => product.id === id))
+            .slice(0, next.maxSelectedProducts));
+        setExplicitPrintProfileIds(prev => prev.filter(id => next.printProfiles.some(profile => profile.id === id)));
+    };
 
     useEffect(() => {
         // Open the API key section by default if the required key is missing
-        if (!geminiApiKey) {
+        if (isMissingRequiredKey) {
             setShowApiKeys(true);
         }
     }, []); // Run only once on mount
 
+    /** Adds an error or a plain message to the notification center and returns its id. */
+    const notify = useCallback((problem: unknown, source?: ErrorSource) => {
+        const notification = createNotification(problem, source);
+        setNotifications(prev => [notification, ...prev]);
+        return notification.id;
+    }, []);
+
+    const dismissNotification = useCallback((id: string) => {
+        setNotifications(prev => prev.filter(notification => notification.id !== id));
+    }, []);
+
     const processImageFile = useCallback(async (file: File) => {
-        if (file && file.type.startsWith('image/')) {
-            try {
-                const base64Image = await toBase64(file);
-                setUploadedImage(base64Image);
-                setClonedDesign({ status: Status.IDLE, imageUrl: null });
-                setRemovedBgDesign({ status: Status.IDLE, imageUrl: null });
-                setResizedDesign({ status: Status.IDLE, imageUrl: null });
-                setMockups([]);
-                setError(null);
-                setProductDetails(null);
-            } catch (err) {
-                setError("Couldn't process this image. Please try another file.");
-            }
-        } else {
-            setError("Please paste or upload a valid image file.");
+        try {
+            const normalized = await normalizeImageFile(file, inputSettings);
+            setUploadedImage(normalized.dataUrl);
+            setUploadedInput(normalized);
+            setPipeline(createPipelineState([], products));
+            setPipelineContext(null);
+            setActiveProject(null);
+            setNotifications([]);
+            setProductDetails(null);
+        } catch (err) {
+            notify(err);
         }
-    }, []);
+    }, [inputSettings, notify]);
+
+    const selectSource = useCallback((source: ImageSource) => {
+        setSelectedSourceId(source.id);
+        processImageFile(source.file);
+    }, [processImageFile]);
+
+    /** Every import lands in the source tray. A single new file is also opened right away; with several the user picks. */
+    const addSources = useCallback((files: File[]) => {
+        const added = files.map(file => ({ id: crypto.randomUUID(), file, previewUrl: URL.createObjectURL(file) }));
+        setSources(prev => [...prev, ...added]);
+        if (added.length === 1) {
+            selectSource(added[0]);
+        }
+    }, [selectSource]);
+
+    const importImageFiles = useCallback((files: File[]) => {
+        const images = files.filter(isImageFile);
+        if (images.length === 0) {
+            notify("Please paste, drop or upload a valid image file.");
+            return;
+        }
+        addSources(images);
+    }, [addSources, notify]);
+
+    const handleRemoveSource = (id: string) => {
+        setSources(prev => {
+            prev.filter(source => source.id === id).forEach(source => URL.revokeObjectURL(source.previewUrl));
+            return prev.filter(source => source.id !== id);
+        });
+        setSelectedSourceId(prev => (prev === id ? null : prev));
+    };
+
+    const handleClearSources = () => {
+        sources.forEach(source => URL.revokeObjectURL(source.previewUrl));
+        setSources([]);
+        setSelectedSourceId(null);
+    };
+
+    const queueBatchFiles = useCallback(async (files: File[]) => {
+        const images = files.filter(isImageFile);
+        if (images.length === 0) {
+            notify("Please paste or upload valid image files.");
+            return;
+        }
+        try {
+            const sources = await Promise.all(images.map(async file => ({ fileName: file.name, sourceImage: (await normalizeImageFile(file, inputSettings)).dataUrl })));
+            batchQueue.add(sources);
+        } catch (err) {
+            notify(err);
+        }
+    }, [batchQueue, inputSettings, notify]);
 
     const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
+        event.target.value = '';
         if (file) {
-            processImageFile(file);
+            importImageFiles([file]);
+        }
+    };
+
+    // URL imports skip the file filter: servers often send images without a useful type, and the input stage checks the bytes anyway.
+    const handleImportUrl = async (url: string) => {
+        try {
+            const file = await fetchImageFile(url);
+            if (workspace === 'batch') {
+                await queueBatchFiles([file]);
+            } else {
+                addSources([file]);
+            }
+        } catch (err) {
+            notify(err);
+        }
+    };
+
+    const handleBatchUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length > 0) {
+            queueBatchFiles(files);
         }
     };
     
     useEffect(() => {
         const handlePaste = (event: ClipboardEvent) => {
-            const file = event.clipboardData?.files[0];
-            if (file) {
-                processImageFile(file);
+            const files = Array.from(event.clipboardData?.files ?? []);
+            if (files.length === 0) return;
+            if (workspace === 'batch') {
+                queueBatchFiles(files);
+            } else {
+                importImageFiles(files);
             }
         };
 
         window.addEventListener('paste', handlePaste);
         return () => window.removeEventListener('paste', handlePaste);
-    }, [processImageFile]);
+    }, [importImageFiles, queueBatchFiles, workspace]);
 
 
     const handleProductSelect = (productId: string) => {
-        setSelectedProducts(prev => {
-            const isSelected = prev.includes(productId);
-            if (isSelected) {
-                return prev.filter(id => id !== productId);
-            } else {
-                 if (prev.length >= 6) {
-                    setError("You can select a maximum of 6 mockups.");
-                    setTimeout(() => setError(null), 3000);
-                    return prev;
-                }
-                return [...prev, productId];
-            }
-        });
+        if (selectedProducts.includes(productId)) {
+            setSelectedProducts(prev => prev.filter(id => id !== productId));
+            return;
+        }
+        if (selectedProducts.length >= catalog.maxSelectedProducts) {
+            const id = notify(`You can select a maximum of ${catalog.maxSelectedProducts} mockups.`);
+            setTimeout(() => dismissNotification(id), 3000);
+            return;
+        }
+        setSelectedProducts(prev => (prev.includes(productId) ? prev : [...prev, productId]));
     };
     
+    const pipelineCallbacks: PipelineCallbacks = {
+        onUpdate: (update) => setPipeline(update),
+        onStepStart: setLoadingMessage,
+        onError: (error, source) => notify(error, source),
+    };
+
+    const executePipeline = async (initial: PipelineState, context: PipelineContext) => {
+        setIsLoading(true);
+        setNotifications([]);
+        setPipeline(initial);
+        // The signal belongs to this run only; the stored context is reused for later retries.
+        setPipelineContext(context);
+        const controller = new AbortController();
+        runAbortRef.current = controller;
+
+        try {
+            await runPipeline(initial, { ...context, signal: controller.signal }, pipelineCallbacks);
+        } finally {
+            runAbortRef.current = null;
+            setIsLoading(false);
+            setLoadingMessage('');
+        }
+    };
+
+    const handleCancelRun = () => {
+        if (!runAbortRef.current || runAbortRef.current.signal.aborted) return;
+        setLoadingMessage('Cancelling...');
+        runAbortRef.current.abort();
+    };
+
     const handleGenerateClick = async () => {
-        if (!geminiApiKey) {
-            setError("Please enter your Gemini API key to start.");
+        if (isMissingRequiredKey) {
+            notify(vaultSnapshot.status === 'locked' ? "Unlock the key vault to start." : "Please enter your Gemini API key to start.");
             setShowApiKeys(true);
             return;
         }
         if (!uploadedImage) {
-            setError("Please upload a design image to start!");
+            notify("Please upload a design image to start!");
             return;
         }
 
-        setIsLoading(true);
-        setError(null);
+        const initial = createPipelineState(selectedProducts, products, runPrintProfileIds, printProfiles, productColors);
+        const now = Date.now();
+        const project: Project = {
+            id: crypto.randomUUID(),
+            name: createProjectName(),
+            createdAt: now,
+            updatedAt: now,
+            sourceImage: uploadedImage,
+            mode,
+            additionalInstructions: mode === 'redesign' ? additionalInstructions : '',
+            pipeline: initial,
+            productDetails: null,
+        };
+        setActiveProject(project);
+        savedProjectRef.current = null;
         setProductDetails(null);
-        setClonedDesign({ status: Status.PENDING, imageUrl: null });
-        setRemovedBgDesign({ status: Status.IDLE, imageUrl: null });
-        setResizedDesign({ status: Status.IDLE, imageUrl: null });
-        if (selectedProducts.length > 0) {
-            setMockups(selectedProducts.map(id => ({ id, name: PRODUCTS[id].name, status: Status.PENDING, imageUrl: null })));
-        } else {
-            setMockups([]);
-        }
-        
         setTimeout(() => resultsRef.current?.scrollIntoView({ behavior: 'smooth' }), 100);
 
+        await executePipeline(initial, {
+            provider,
+            products,
+            printProfiles,
+            templates,
+            upscale,
+            placement,
+            sourceImage: uploadedImage,
+            project: { id: project.id, name: project.name },
+            additionalInstructions: mode === 'redesign' ? additionalInstructions : undefined,
+            reviewPrompt,
+            cloneCandidates,
+        });
+    };
+
+    // Save the active project whenever a run settles with changes, so nothing is lost on refresh.
+    useEffect(() => {
+        if (!activeProject || isLoading) return;
+        const isSettled = Object.values(pipeline.steps).every(step => step.status !== Status.PENDING)
+            && pipeline.printFiles.every(printFile => printFile.status !== Status.PENDING)
+            && pipeline.mockups.every(mockup => mockup.status !== Status.PENDING);
+        if (!isSettled) return;
+        const saved = savedProjectRef.current;
+        if (saved?.pipeline === pipeline && saved.productDetails === productDetails) return;
+
+        savedProjectRef.current = { pipeline, productDetails };
+        saveProject({ ...activeProject, pipeline, productDetails }).catch(err => {
+            console.error('Failed to save project:', err);
+            notify("Couldn't save this project to the library.");
+        });
+    }, [activeProject, pipeline, productDetails, isLoading, notify]);
+
+    const handleOpenProject = (project: Project) => {
+        setUploadedImage(project.sourceImage);
+        setUploadedInput(null);
+        setSelectedSourceId(null);
+        setMode(project.mode);
+        setAdditionalInstructions(project.additionalInstructions);
+        setPipeline(project.pipeline);
+        setPipelineContext({
+            provider,
+            products,
+            printProfiles,
+            templates,
+            upscale,
+            placement,
+            sourceImage: project.sourceImage,
+            project: { id: project.id, name: project.name },
+            additionalInstructions: project.mode === 'redesign' ? project.additionalInstructions : undefined,
+            reviewPrompt,
+            cloneCandidates,
+        });
+        setProductDetails(project.productDetails);
+        setActiveProject(project);
+        savedProjectRef.current = { pipeline: project.pipeline, productDetails: project.productDetails };
+        setWorkspace('single');
+        setNotifications([]);
+        setPage('studio');
+    };
+
+    const handleCloseLibrary = async () => {
+        setPage('studio');
+        if (!activeProject) return;
+        // The open project may have been renamed or deleted from the library.
+        const stored = await getProject(activeProject.id).catch(() => null);
+        setActiveProject(stored ? { ...activeProject, name: stored.name } : null);
+    };
+
+    // Keys and review settings may have changed since the run started, so reruns always use the current ones.
+    const withCurrentSettings = (context: PipelineContext): PipelineContext => ({ ...context, provider, templates, upscale, placement, reviewPrompt, cloneCandidates });
+
+    const handleResume = () => {
+        if (!pipelineContext) return;
+        executePipeline(pipeline, withCurrentSettings(pipelineContext));
+    };
+
+    const handleApprovePrompt = (prompt: string) => {
+        if (!pipelineContext) return;
+        executePipeline(approveReview(pipeline, prompt), withCurrentSettings(pipelineContext));
+    };
+
+    const handlePickCandidate = (imageUrl: string) => {
+        if (!pipelineContext) return;
         try {
-            setLoadingMessage('Analyzing color...');
-            const dominantColor = await geminiService.analyzeImageColor(geminiApiKey, uploadedImage);
-
-            setLoadingMessage(mode === 'cloner' ? 'Cloning design...' : 'Redesigning...');
-            const instructionsToPass = mode === 'redesign' ? additionalInstructions : undefined;
-            const clonedImageUrl = await geminiService.cloneDesign(geminiApiKey, uploadedImage, instructionsToPass);
-            setClonedDesign({ status: Status.SUCCESS, imageUrl: clonedImageUrl });
-
-            setLoadingMessage('Removing background...');
-            setRemovedBgDesign({ status: Status.PENDING, imageUrl: null });
-            const transparentImageUrl = await geminiService.removeBackground(photoroomApiKey, clonedImageUrl);
-            setRemovedBgDesign({ status: Status.SUCCESS, imageUrl: transparentImageUrl });
-
-            setLoadingMessage('Resizing for print...');
-            setResizedDesign({ status: Status.PENDING, imageUrl: null });
-            const resizedImageUrl = await geminiService.resizeDesign(transparentImageUrl);
-            setResizedDesign({ status: Status.SUCCESS, imageUrl: resizedImageUrl });
-
-            if (selectedProducts.length > 0) {
-                setLoadingMessage(`Creating mockups...`);
-                await Promise.all(selectedProducts.map(async (productId) => {
-                    try {
-                        const mockupImageUrl = await geminiService.createMockup(geminiApiKey, resizedImageUrl, PRODUCTS[productId].prompt, dominantColor, instructionsToPass);
-                        setMockups(prev => prev.map(m => m.id === productId ? { ...m, status: Status.SUCCESS, imageUrl: mockupImageUrl } : m));
-                    } catch (err) {
-                        console.error(`Failed mockup for ${productId}:`, err);
-                        setMockups(prev => prev.map(m => m.id === productId ? { ...m, status: Status.FAILED } : m));
-                    }
-                }));
+            if (pipeline.awaitingReview === 'clone') {
+                executePipeline(approveReview(pipeline, imageUrl), withCurrentSettings(pipelineContext));
+            } else {
+                setProductDetails(null);
+                executePipeline(selectCloneCandidate(pipeline, imageUrl), withCurrentSettings(pipelineContext));
             }
+        } catch (err) {
+            notify(err);
+        }
+    };
 
-        } catch (err: any) {
-            console.error("A critical step failed:", err);
-            setError(err.message || "Could not process the design. Please try another image.");
-            if (clonedDesign.status === Status.PENDING) setClonedDesign({ status: Status.FAILED, imageUrl: null });
-            if (removedBgDesign.status !== Status.SUCCESS) setRemovedBgDesign({ status: Status.FAILED, imageUrl: null });
-            if (resizedDesign.status !== Status.SUCCESS) setResizedDesign({ status: Status.FAILED, imageUrl: null });
-            if (selectedProducts.length > 0) {
-                setMockups(prev => prev.map(m => (m.status === Status.PENDING ? { ...m, status: Status.FAILED } : m)));
-            }
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+    const handleRetryStep = (stepId: PipelineStepId) => {
+        if (!pipelineContext) return;
+        if (stepId === 'extractPrompt' || stepId === 'clone' || stepId === 'removeBackground') {
+            setProductDetails(null);
+        }
+        executePipeline(resetStep(pipeline, stepId), withCurrentSettings(pipelineContext));
+    };
+
+    const handleRetryPrintFile = async (profileId: string) => {
+        if (!pipelineContext) return;
+        try {
+            await retryPrintFile(pipeline, { ...pipelineContext, provider, printProfiles, upscale, placement }, profileId, pipelineCallbacks);
+        } catch (err) {
+            notify(err);
+        }
+    };
+
+    // Placement and upscaling apply to new runs automatically; finished print files are only redrawn on request.
+    const handleRerenderPrintFiles = async () => {
+        if (!pipelineContext) return;
+        const context = { ...pipelineContext, provider, printProfiles, upscale, placement };
+        try {
+            await Promise.all(printFiles.map(printFile => retryPrintFile(pipeline, context, printFile.id, pipelineCallbacks)));
+        } catch (err) {
+            notify(err);
+        }
+    };
+
+    const handleReplacePrintFile = (profileId: string, imageUrl: string) => {
+        try {
+            setPipeline(replacePrintFileImage(pipeline, profileId, imageUrl));
+        } catch (err) {
+            notify(err);
+        }
+    };
+
+    const handleTogglePrintProfile = (profileId: string) => {
+        setExplicitPrintProfileIds(prev => prev.includes(profileId) ? prev.filter(id => id !== profileId) : [...prev, profileId]);
+    };
+
+    const handleRetryMockup = async (mockupId: string) => {
+        if (!pipelineContext) return;
+        try {
+            await retryMockup(pipeline, { ...pipelineContext, provider, products, templates }, mockupId, pipelineCallbacks);
+        } catch (err) {
+            notify(err);
         }
     };
 
     const handleGenerateDetails = async () => {
-        if (!removedBgDesign.imageUrl) return;
+        if (!removedBgDesign.output) return;
 
         setIsGeneratingDetails(true);
         setProductDetails(null);
-        setError(null);
 
         try {
-            const details = await geminiService.generateProductDetails(geminiApiKey, removedBgDesign.imageUrl);
+            const details = await provider.generateProductDetails(removedBgDesign.output, {
+                usage: { step: 'productDetails', projectId: activeProject?.id ?? null, projectName: activeProject?.name ?? null },
+            });
             setProductDetails(details);
         } catch (err: any) {
-            setError(err.message || "Could not generate product details. Please try again.");
+            notify(err);
         } finally {
             setIsGeneratingDetails(false);
         }
     };
 
     const handleDownload = (imageUrl: string, name: string) => {
-        const fileName = `${name.toLowerCase().replace(/\s+/g, '-')}.png`;
-        const link = document.createElement('a');
-        link.href = imageUrl;
-        link.download = fileName;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        downloadUrl(imageUrl, `${name.toLowerCase().replace(/\s+/g, '-')}.png`);
     };
 
-    const handleDownloadAll = () => {
-        mockups.filter(m => m.status === Status.SUCCESS).forEach((mockup, index) => {
-            setTimeout(() => handleDownload(mockup.imageUrl!, `mockup-${mockup.name}`), index * 300);
-        });
+    const handleExportBatch = () => {
+        const csv = toCsv(buildBatchReport(batch.items));
+        downloadBlob(new Blob([csv], { type: 'text/csv' }), 'batch-results.csv');
+    };
+
+    const handleDownloadPackage = () => {
+        if (!uploadedImage) return;
+        const name = activeProject?.name ?? createProjectName();
+        try {
+            const zip = buildListingPackage({
+                name,
+                sourceImage: uploadedImage,
+                mode: activeProject?.mode ?? mode,
+                additionalInstructions: pipelineContext?.additionalInstructions,
+                pipeline,
+                productDetails,
+            });
+            downloadBlob(zip, `${toFileSlug(name)}.zip`);
+        } catch (err: any) {
+            notify(err);
+        }
     };
 
     const generateButtonText = selectedProducts.length > 0 ? 'Generate Mockups' : 'Process Design';
 
+    if (page === 'catalog') {
+        return (
+            <div className="bg-black text-gray-200 min-h-screen flex flex-col items-center p-4 pb-20">
+                <CatalogManager catalog={catalog} templates={templateList} onTemplatesChange={setTemplateList} onSave={handleSaveCatalog} onBack={() => setPage('studio')} />
+            </div>
+        );
+    }
+
+    if (page === 'library') {
+        return (
+            <div className="bg-black text-gray-200 min-h-screen flex flex-col items-center p-4 pb-20">
+                <ProjectLibrary onOpen={handleOpenProject} onBack={handleCloseLibrary} />
+            </div>
+        );
+    }
+
+    if (page === 'usage') {
+        return (
+            <div className="bg-black text-gray-200 min-h-screen flex flex-col items-center p-4 pb-20">
+                <UsageDashboard prices={usagePrices} onPricesChange={setUsagePrices} onBack={() => setPage('studio')} />
+            </div>
+        );
+    }
+
     if (page === 'guide') {
         return (
             <div className="bg-black text-gray-200 min-h-screen flex flex-col items-center p-4 pb-20">
@@ -232,7 +682,7 @@ const App: React.FC = () => {
     return (
         <>
             <div className="bg-black text-gray-200 min-h-screen flex flex-col items-center p-4 pb-20">
-                <ErrorNotification message={error} onDismiss={() => setError(null)} />
+                <NotificationCenter notifications={notifications} pipeline={pipeline} onDismiss={dismissNotification} onDismissAll={() => setNotifications([])} />
                 
                 <div className="w-full max-w-6xl mx-auto">
                     <header className="text-center my-12">
@@ -240,6 +690,23 @@ const App: React.FC = () => {
                             AI Mockup <span className="text-yellow-400">Studio</span>
                         </h1>
                         <p className="mt-4 text-lg text-gray-500">Clone designs and generate product mockups instantly.</p>
+                        <div className="mt-4 flex justify-center items-center gap-3 text-sm">
+                            <button
+                                onClick={() => setPage('library')}
+                                disabled={isLoading}
+                                className="text-yellow-400 hover:text-yellow-300 underline transition-colors disabled:text-gray-500 disabled:no-underline"
+                            >
+                                Project Library
+                            </button>
+                            <button
+                                onClick={() => setPage('usage')}
+                                disabled={isLoading}
+                                className="text-yellow-400 hover:text-yellow-300 underline transition-colors disabled:text-gray-500 disabled:no-underline"
+                            >
+                                API Usage
+                            </button>
+                            {activeProject && <span className="text-gray-500">· Saving as "{activeProject.name}"</span>}
+                        </div>
                     </header>
 
                     <main>
@@ -253,31 +720,144 @@ const App: React.FC = () => {
                             {showApiKeys && (
                                 <div className="mt-6 space-y-4 animate-fade-in-down">
                                     <div>
-                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Gemini API Key (Required)</label>
-                                        <input 
-                                            type="password"
-                                            value={geminiApiKey}
-                                            onChange={(e) => setGeminiApiKey(e.target.value)}
-                                            placeholder="Enter your Gemini API key"
-                                            className="w-full bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
-                                        />
+                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Provider</label>
+                                        <div className="flex space-x-2 rounded-lg bg-gray-800 p-1">
+                                            {PROVIDER_OPTIONS.map(option => (
+                                                <button
+                                                    key={option.id}
+                                                    onClick={() => setProviderId(option.id)}
+                                                    className={`w-full py-2 px-4 rounded-md font-medium transition-colors duration-300 ${providerId === option.id ? 'bg-yellow-400 text-black shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+                                                >
+                                                    {option.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-2">{providerOption.description}</p>
+                                        {providerId === 'proxy' && proxyHealth && (
+                                            <p className={`text-xs mt-1 ${proxyHealth === 'unreachable' ? 'text-red-400' : 'text-gray-400'}`}>
+                                                {proxyHealth === 'unreachable'
+                                                    ? 'The proxy server is not answering. Start the app with npm run dev or npm run preview.'
+                                                    : proxyHealth.upstream === 'stub'
+                                                        ? 'Proxy is running with the offline stub upstream.'
+                                                        : `Proxy keys: Gemini ${proxyHealth.keys.gemini ? 'set' : 'missing'}, Photoroom ${proxyHealth.keys.photoroom ? 'set' : 'missing'}.`}
+                                            </p>
+                                        )}
                                     </div>
+                                    <KeyVaultPanel
+                                        vault={vaultSnapshot}
+                                        requirements={{ gemini: providerOption.requiresGeminiKey ? '(Required)' : '(Not used)', photoroom: providerId === 'proxy' ? '(Not used)' : '(Optional)' }}
+                                        onUpdate={keyVault.update}
+                                        onUnlock={keyVault.unlock}
+                                        onLock={keyVault.lock}
+                                        onEnable={keyVault.enable}
+                                        onDisable={keyVault.disable}
+                                        onAutoLockChange={keyVault.setAutoLock}
+                                        onTest={testApiKey}
+                                    />
                                     <div>
-                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Photoroom API Key (Optional)</label>
-                                        <input 
-                                            type="password"
-                                            value={photoroomApiKey}
-                                            onChange={(e) => setPhotoroomApiKey(e.target.value)}
-                                            placeholder="Defaults to a trial key"
-                                            className="w-full bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none"
-                                        />
+                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Background Removal</label>
+                                        <div className="flex space-x-2 rounded-lg bg-gray-800 p-1">
+                                            {BACKGROUND_REMOVAL_MODES.map(option => (
+                                                <button
+                                                    key={option.id}
+                                                    onClick={() => updateBackgroundRemoval({ mode: option.id })}
+                                                    className={`w-full py-2 px-4 rounded-md font-medium transition-colors duration-300 ${backgroundRemoval.mode === option.id ? 'bg-yellow-400 text-black shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+                                                >
+                                                    {option.name}
+                                                </button>
+                                            ))}
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-2">
+                                            {BACKGROUND_REMOVAL_MODES.find(option => option.id === backgroundRemoval.mode)!.description}
+                                            {providerId === 'mock' && ' The offline provider always removes backgrounds locally.'}
+                                        </p>
+                                        {(backgroundRemoval.mode !== 'photoroom' || providerId === 'mock') && (
+                                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-4 items-center">
+                                                <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                                    Tolerance ({backgroundRemoval.tolerance}%)
+                                                    <input type="range" min={0} max={50} value={backgroundRemoval.tolerance} onChange={(e) => updateBackgroundRemoval({ tolerance: Number(e.target.value) })} className="accent-yellow-400" />
+                                                </label>
+                                                <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                                    Edge softness ({backgroundRemoval.edgeSoftness}%)
+                                                    <input type="range" min={0} max={50} value={backgroundRemoval.edgeSoftness} onChange={(e) => updateBackgroundRemoval({ edgeSoftness: Number(e.target.value) })} className="accent-yellow-400" />
+                                                </label>
+                                                <label className="text-xs text-gray-400 flex items-center gap-2">
+                                                    <input type="checkbox" checked={backgroundRemoval.defringe} onChange={(e) => updateBackgroundRemoval({ defringe: e.target.checked })} className="accent-yellow-400" />
+                                                    Defringe edges
+                                                </label>
+                                            </div>
+                                        )}
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Request Limits</label>
+                                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                            {([['gemini', 'Parallel Gemini calls'], ['photoroom', 'Parallel Photoroom calls']] as const).map(([service, label]) => (
+                                                <label key={service} className="text-xs text-gray-400 flex flex-col gap-1">
+                                                    {label}
+                                                    <input
+                                                        type="number"
+                                                        min={1}
+                                                        max={8}
+                                                        value={schedulerSettings.concurrency[service]}
+                                                        onChange={(e) => setSchedulerSettings(prev => parseSchedulerSettings({ ...prev, concurrency: { ...prev.concurrency, [service]: Number(e.target.value) } }))}
+                                                        className="w-24 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                                    />
+                                                </label>
+                                            ))}
+                                            <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                                Retries on rate limits and server errors
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={5}
+                                                    value={schedulerSettings.maxRetries}
+                                                    onChange={(e) => setSchedulerSettings(prev => parseSchedulerSettings({ ...prev, maxRetries: Number(e.target.value) }))}
+                                                    className="w-24 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                                />
+                                            </label>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-2">Shared by every run and batch item. Retries wait longer each time, or as long as the service asks.</p>
+                                    </div>
+                                    <div>
+                                        <label className="text-sm font-semibold text-gray-400 block mb-2">Uploads</label>
+                                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                            Longest edge sent to the AI (px)
+                                            <input
+                                                type="number"
+                                                min={512}
+                                                max={8192}
+                                                step={256}
+                                                value={inputSettings.maxEdge}
+                                                onChange={(e) => setInputSettings(parseInputSettings({ maxEdge: Number(e.target.value) }))}
+                                                className="w-28 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                            />
+                                        </label>
+                                        <p className="text-xs text-gray-500 mt-2">Larger images are scaled down, rotated upright and converted to PNG or JPEG when added. Applies to the next upload.</p>
                                     </div>
-                                    <p className="text-xs text-gray-500 pt-2">Your keys are stored in your browser's local storage and are never sent to our servers.</p>
+                                    <p className="text-xs text-gray-500 pt-2">Your keys stay in this browser and are only sent to the service they belong to. Turn on the key vault to encrypt them.</p>
                                 </div>
                             )}
                         </div>
 
                         <div className="bg-gray-900/50 backdrop-blur-sm p-8 rounded-2xl shadow-2xl border border-gray-800 mb-16">
+                            <div className="mb-8">
+                                <h2 className="text-2xl font-semibold text-white mb-4">Workspace</h2>
+                                <div className="flex space-x-2 rounded-lg bg-gray-800 p-1">
+                                    <button
+                                        onClick={() => setWorkspace('single')}
+                                        className={`w-full py-2 px-4 rounded-md font-medium transition-colors duration-300 ${workspace === 'single' ? 'bg-yellow-400 text-black shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+                                    >
+                                        Single Design
+                                    </button>
+                                    <button
+                                        onClick={() => setWorkspace('batch')}
+                                        className={`w-full py-2 px-4 rounded-md font-medium transition-colors duration-300 ${workspace === 'batch' ? 'bg-yellow-400 text-black shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+                                    >
+                                        Batch Queue {batch.items.length > 0 && `(${batch.items.length})`}
+                                    </button>
+                                </div>
+                            </div>
+
                             <div className="mb-8">
                                 <h2 className="text-2xl font-semibold text-white mb-4">Mode</h2>
                                 <div className="flex space-x-2 rounded-lg bg-gray-800 p-1">
@@ -302,37 +882,128 @@ const App: React.FC = () => {
                             </div>
 
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
-                                <div>
-                                    <h2 className="text-2xl font-semibold mb-6 text-white">1. Upload Design</h2>
-                                    <div 
-                                        className="w-full aspect-square border-4 border-dashed border-gray-700 rounded-xl flex items-center justify-center cursor-pointer hover:border-yellow-400 transition-colors bg-gray-800 overflow-hidden shadow-inner"
-                                        onClick={() => fileInputRef.current?.click()}
-                                    >
-                                        {uploadedImage ? (
-                                            <img src={uploadedImage} alt="Uploaded design" className="w-full h-full object-contain p-4" />
-                                        ) : (
+                                {workspace === 'batch' ? (
+                                    <div>
+                                        <h2 className="text-2xl font-semibold mb-6 text-white">1. Queue Designs</h2>
+                                        <ImageDropZone onFiles={queueBatchFiles} onUrl={handleImportUrl} onClick={() => batchInputRef.current?.click()}>
                                             <div className="flex flex-col items-center justify-center p-6 text-center text-gray-500">
                                                 <IconUpload />
-                                                <p className="mt-4 text-lg text-gray-300">Click to upload or paste image</p>
-                                                <p className="text-sm mt-1">(Ctrl+V)</p>
+                                                <p className="mt-4 text-lg text-gray-300">Click, drop or paste to add images</p>
+                                                <p className="text-sm mt-1">{batch.items.length} in queue · every image uses the settings on this page</p>
+                                            </div>
+                                        </ImageDropZone>
+                                        <input type="file" ref={batchInputRef} onChange={handleBatchUpload} accept="image/*" multiple className="hidden" />
+                                        <ImageImportBar onFiles={queueBatchFiles} onUrl={handleImportUrl} />
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <h2 className="text-2xl font-semibold mb-6 text-white">1. Upload Design</h2>
+                                        <ImageDropZone onFiles={importImageFiles} onUrl={handleImportUrl} onClick={() => fileInputRef.current?.click()}>
+                                            {uploadedImage ? (
+                                                <img src={uploadedImage} alt="Uploaded design" className="w-full h-full object-contain p-4" />
+                                        ) : (
+                                                <div className="flex flex-col items-center justify-center p-6 text-center text-gray-500">
+                                                    <IconUpload />
+                                                    <p className="mt-4 text-lg text-gray-300">Click, drop or paste an image</p>
+                                                    <p className="text-sm mt-1">(Ctrl+V, or drag one from another tab)</p>
+                                                </div>
+                                            )}
+                                        </ImageDropZone>
+                                        <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/*" className="hidden" />
+                                        {uploadedInput && (
+                                            <div className="mt-3 text-sm text-gray-400 text-center">
+                                                <p>
+                                                    {uploadedInput.source.fileName}: {getFormatName(uploadedInput.source.mimeType)} · {uploadedInput.source.width}×{uploadedInput.source.height} · {formatFileSize(uploadedInput.source.bytes)}
+                                                </p>
+                                                {uploadedInput.changes.length > 0 && (
+                                                    <p className="text-xs text-gray-500 mt-1">
+                                                        Sent as {getFormatName(uploadedInput.output.mimeType)} · {uploadedInput.output.width}×{uploadedInput.output.height} · {formatFileSize(uploadedInput.output.bytes)} ({uploadedInput.changes.join(', ')})
+                                                    </p>
+                                                )}
                                             </div>
                                         )}
+                                        <SourceTray
+                                            sources={sources}
+                                            selectedId={selectedSourceId}
+                                            disabled={isLoading}
+                                            onSelect={(id) => selectSource(sources.find(source => source.id === id)!)}
+                                            onRemove={handleRemoveSource}
+                                            onClear={handleClearSources}
+                                        />
+                                        <ImageImportBar onFiles={importImageFiles} onUrl={handleImportUrl} disabled={isLoading} />
                                     </div>
-                                    <input type="file" ref={fileInputRef} onChange={handleImageUpload} accept="image/png, image/jpeg" className="hidden" />
-                                </div>
+                                )}
                                 <div>
-                                    <h2 className="text-2xl font-semibold mb-6 text-white">2. Select Products (Optional)</h2>
+                                    <div className="flex justify-between items-baseline mb-6 gap-4">
+                                        <h2 className="text-2xl font-semibold text-white">2. Select Products (Optional)</h2>
+                                        <button
+                                            onClick={() => setPage('catalog')}
+                                            disabled={isLoading}
+                                            className="text-sm text-yellow-400 hover:text-yellow-300 underline transition-colors disabled:text-gray-500 disabled:no-underline whitespace-nowrap"
+                                        >
+                                            Edit Catalog
+                                        </button>
+                                    </div>
                                     <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
-                                        {Object.entries(PRODUCTS).map(([key, data]) => (
+                                        {catalog.products.map(({ id: key, name }) => (
                                             <ProductSelectorCard
                                                 key={key}
                                                 id={key}
-                                                name={data.name}
+                                                name={name}
                                                 isSelected={selectedProducts.includes(key)}
                                                 onSelect={handleProductSelect}
                                             />
                                         ))}
                                     </div>
+                                    <h3 className="text-lg font-semibold text-white mt-8 mb-3">Product Colors</h3>
+                                    <ColorSelector selected={productColors} onChange={setProductColors} />
+                                    <h3 className="text-lg font-semibold text-white mt-8 mb-3">Print Files</h3>
+                                    <div className="flex flex-wrap gap-2">
+                                        {catalog.printProfiles.map(profile => {
+                                            const isIncluded = runPrintProfileIds.includes(profile.id);
+                                            const isExplicit = explicitPrintProfileIds.includes(profile.id);
+                                            return (
+                                                <button
+                                                    key={profile.id}
+                                                    onClick={() => handleTogglePrintProfile(profile.id)}
+                                                    title={`${profile.width}x${profile.height} px at ${profile.dpi} DPI`}
+                                                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${isIncluded ? 'border-yellow-400 text-yellow-300 bg-yellow-900/20' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                                                >
+                                                    {profile.name}{isIncluded && !isExplicit ? ' (auto)' : ''}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-2">Selected products add their print profile automatically. Click a profile to always include it.</p>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4 items-start">
+                                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                            Upscaling
+                                            <select
+                                                value={upscale.algorithm}
+                                                onChange={(e) => setUpscale(prev => ({ ...prev, algorithm: e.target.value as UpscaleSettings['algorithm'] }))}
+                                                className="bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                            >
+                                                {UPSCALE_ALGORITHMS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+                                            </select>
+                                            <span className="text-gray-500">{UPSCALE_ALGORITHMS.find(option => option.id === upscale.algorithm)!.description}</span>
+                                        </label>
+                                        <label className="text-xs text-gray-400 flex flex-col gap-1">
+                                            Sharpening ({upscale.sharpen}%)
+                                            <input type="range" min={0} max={100} value={upscale.sharpen} onChange={(e) => setUpscale(prev => ({ ...prev, sharpen: Number(e.target.value) }))} className="accent-yellow-400" />
+                                        </label>
+                                    </div>
+                                    <h3 className="text-lg font-semibold text-white mt-8 mb-1">Placement</h3>
+                                    <PlacementPanel
+                                        placement={placement}
+                                        onChange={setPlacement}
+                                        profiles={runPrintProfileIds.map(id => printProfiles[id]).filter(Boolean)}
+                                        design={removedBgDesign.output ?? uploadedImage}
+                                    />
+                                    {printFiles.some(printFile => printFile.status === Status.SUCCESS) && (
+                                        <div className="flex justify-center mt-4">
+                                            <Button onClick={handleRerenderPrintFiles} disabled={isLoading || removedBgDesign.status !== Status.SUCCESS}>Apply to Current Print Files</Button>
+                                        </div>
+                                    )}
                                 </div>
                             </div>
 
@@ -367,84 +1038,169 @@ const App: React.FC = () => {
                             </div>
 
 
-                            <div className="mt-12 text-center">
-                                <Button onClick={handleGenerateClick} disabled={!uploadedImage || isLoading || !geminiApiKey} primary className="text-lg px-12 py-4">
-                                    {isLoading ? (
-                                        <>
-                                            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-black"></div>
-                                            <span>{loadingMessage}</span>
-                                        </>
-                                    ) : (
-                                        <> <IconSparkles /> {generateButtonText} </>
+                            {workspace === 'single' && (
+                                <div className="mt-12 text-center">
+                                    <Button onClick={handleGenerateClick} disabled={!uploadedImage || isLoading || isMissingRequiredKey} primary className="text-lg px-12 py-4">
+                                        {isLoading ? (
+                                            <>
+                                                <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-black"></div>
+                                                <span>{loadingMessage}</span>
+                                            </>
+                                        ) : (
+                                            <> <IconSparkles /> {generateButtonText} </>
+                                        )}
+                                    </Button>
+                                    {isLoading && (
+                                        <div className="mt-4">
+                                            <Button onClick={handleCancelRun}>Cancel Run</Button>
+                                        </div>
                                     )}
-                                </Button>
-                            </div>
+                                    <div className="mt-4 text-sm text-gray-400 flex flex-wrap items-center justify-center gap-6">
+                                        <label className="flex items-center gap-2">
+                                            <input type="checkbox" checked={reviewPrompt} onChange={(e) => setReviewPrompt(e.target.checked)} className="accent-yellow-400" />
+                                            Review the extracted prompt before generating
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            Design candidates
+                                            <select
+                                                value={cloneCandidates}
+                                                onChange={(e) => setCloneCandidates(Number(e.target.value))}
+                                                className="bg-gray-800 p-1 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                            >
+                                                {Array.from({ length: MAX_CLONE_CANDIDATES }, (_, i) => i + 1).map(count => <option key={count} value={count}>{count}</option>)}
+                                            </select>
+                                        </label>
+                                    </div>
+                                </div>
+                            )}
                         </div>
 
-                        <div ref={resultsRef}>
+                        {workspace === 'batch' && (
+                            <BatchQueuePanel
+                                snapshot={batch}
+                                canStart={!isMissingRequiredKey}
+                                onStart={batchQueue.start}
+                                onPause={batchQueue.pause}
+                                onCancel={batchQueue.cancel}
+                                onCancelAll={batchQueue.cancelAll}
+                                onRetryFailed={batchQueue.retryFailed}
+                                onClearFinished={batchQueue.clearFinished}
+                                onRemove={batchQueue.remove}
+                                onConcurrencyChange={batchQueue.setConcurrency}
+                                onExport={handleExportBatch}
+                                onDownload={handleDownload}
+                            />
+                        )}
+
+                        <div ref={resultsRef} className={workspace === 'single' ? '' : 'hidden'}>
+                            {pipelineContext && (
+                                <PipelineProgress pipeline={pipeline} isRunning={isLoading} onRetryStep={handleRetryStep} onResume={handleResume} />
+                            )}
+                            {pipelineContext && pipeline.awaitingReview === 'extractPrompt' && !isLoading && (
+                                <PromptReviewPanel
+                                    step={pipeline.steps.extractPrompt}
+                                    additionalInstructions={pipelineContext.additionalInstructions}
+                                    onApprove={handleApprovePrompt}
+                                    onReExtract={() => handleRetryStep('extractPrompt')}
+                                />
+                            )}
                             {clonedDesign.status !== Status.IDLE && (
                                 <div className="mb-16">
                                     <h2 className="text-3xl font-bold text-white mb-8 text-center">1. Generated Design</h2>
-                                    <div className="max-w-md mx-auto bg-gray-900 rounded-xl p-4">
-                                        {clonedDesign.status === Status.PENDING && <div className="animate-pulse bg-gray-800 aspect-square rounded-lg" />}
-                                        {clonedDesign.status === Status.SUCCESS && 
-                                            <img src={clonedDesign.imageUrl!} alt="Cloned design" className="w-full h-full object-contain rounded-lg" />
-                                        }
-                                        {clonedDesign.status === Status.FAILED && <div className="aspect-square rounded-lg bg-gray-800 flex items-center justify-center text-red-400">Design generation failed</div>}
-                                    </div>
-                                    {clonedDesign.status === Status.SUCCESS && (
+                                    {clonedDesign.status === Status.SUCCESS && (clonedDesign.candidates?.length ?? 0) > 1 ? (
+                                        <CandidatePicker
+                                            candidates={clonedDesign.candidates!}
+                                            selected={clonedDesign.output}
+                                            isAwaitingPick={pipeline.awaitingReview === 'clone'}
+                                            disabled={isLoading}
+                                            onPick={handlePickCandidate}
+                                            onDownload={handleDownload}
+                                        />
+                                    ) : (
+                                        <div className="max-w-md mx-auto bg-gray-900 rounded-xl p-4">
+                                            {clonedDesign.status === Status.PENDING && <div className="animate-pulse bg-gray-800 aspect-square rounded-lg" />}
+                                            {clonedDesign.status === Status.SUCCESS && 
+                                                <img src={clonedDesign.output!} alt="Cloned design" className="w-full h-full object-contain rounded-lg" />
+                                            }
+                                            {clonedDesign.status === Status.FAILED && <div className="aspect-square rounded-lg bg-gray-800 flex items-center justify-center text-red-400">Design generation failed</div>}
+                                            {clonedDesign.status === Status.CANCELLED && <div className="aspect-square rounded-lg bg-gray-800 flex items-center justify-center text-gray-400">Design generation cancelled</div>}
+                                        </div>
+                                    )}
+                                    {clonedDesign.status === Status.SUCCESS && pipeline.awaitingReview !== 'clone' && (
                                         <div className="text-center mt-6 flex justify-center flex-wrap gap-4">
-                                            <Button onClick={() => handleDownload(clonedDesign.imageUrl!, 'cloned-design')}>Download Design</Button>
+                                            <Button onClick={() => handleDownload(clonedDesign.output!, 'cloned-design')}>Download Design</Button>
+                                            {removedBgDesign.status === Status.SUCCESS && (
+                                                <>
+                                                    <Button onClick={() => handleDownload(removedBgDesign.output!, 'transparent-design')}>Download Transparent</Button>
+                                                    <Button onClick={handleGenerateDetails} disabled={isGeneratingDetails} primary>
+                                                        {isGeneratingDetails ? (
+                                                            <>
+                                                              <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-black"></div>
+                                                              <span>Generating...</span>
+                                                            </>
+                                                        ) : "✨ Generate Details"}
+                                                    </Button>
+                                                    <Button onClick={handleDownloadPackage} disabled={isLoading}>Download ZIP</Button>
+                                                    {activeProject && <Button onClick={() => setIsMarketplaceExportOpen(true)} disabled={isLoading}>Listing CSV</Button>}
+                                                </>
+                                            )}
                                         </div>
                                     )}
                                 </div>
                             )}
                             
-                            {resizedDesign.status !== Status.IDLE && (
+                            {removedBgDesign.status === Status.SUCCESS && (
                                 <div className="mb-16">
-                                    <h2 className="text-3xl font-bold text-white mb-8 text-center">2. Resized for Print (4500x5400)</h2>
-                                    <div className="max-w-md mx-auto bg-gray-900 rounded-xl p-4">
-                                        {resizedDesign.status === Status.PENDING && <div className="animate-pulse bg-gray-800 aspect-square rounded-lg" />}
-                                        {resizedDesign.status === Status.SUCCESS && 
-                                            <div className="aspect-square rounded-lg bg-grid-pattern">
-                                                <img src={resizedDesign.imageUrl!} alt="Resized design" className="w-full h-full object-contain" />
-                                            </div>
-                                        }
-                                        {resizedDesign.status === Status.FAILED && <div className="aspect-square rounded-lg bg-gray-800 flex items-center justify-center text-red-400">Resizing failed</div>}
+                                    <h2 className="text-3xl font-bold text-white mb-8 text-center">2. Print Files</h2>
+                                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-10">
+                                        {printFiles.map(printFile => (
+                                            <PrintFileCard
+                                                key={printFile.id}
+                                                printFile={printFile}
+                                                profile={printProfiles[printFile.id]}
+                                                placement={placement}
+                                                design={removedBgDesign.output!}
+                                                upscale={upscale}
+                                                sourceSize={designSize}
+                                                onDownload={handleDownload}
+                                                onRetry={isLoading ? undefined : () => handleRetryPrintFile(printFile.id)}
+                                                onImageChange={isLoading ? undefined : (imageUrl) => handleReplacePrintFile(printFile.id, imageUrl)}
+                                            />
+                                        ))}
+                                        <VectorizePanel design={removedBgDesign.output!} fileName="vector-design" />
                                     </div>
-                                    {resizedDesign.status === Status.SUCCESS && (
-                                        <div className="text-center mt-6 flex justify-center flex-wrap gap-4">
-                                            <Button onClick={() => handleDownload(resizedDesign.imageUrl!, 'design-4500x5400')}>Download Resized Design</Button>
-                                            <Button onClick={handleGenerateDetails} disabled={isGeneratingDetails} primary>
-                                                {isGeneratingDetails ? (
-                                                    <>
-                                                      <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-black"></div>
-                                                      <span>Generating...</span>
-                                                    </>
-                                                ) : "✨ Generate Details"}
-                                            </Button>
-                                        </div>
-                                    )}
                                 </div>
                             )}
 
                             {productDetails && <ProductDetailsDisplay details={productDetails} />}
 
                             {mockups.length > 0 && (
-                                <div className={productDetails || resizedDesign.status !== Status.IDLE ? 'mt-16' : ''}>
+                                <div className={productDetails || removedBgDesign.status === Status.SUCCESS ? 'mt-16' : ''}>
                                     <div className="flex flex-col sm:flex-row justify-center items-center mb-8 gap-4 sm:gap-6">
                                         <h2 className="text-3xl font-bold text-white text-center">3. Your Product Mockups</h2>
-                                        <Button onClick={handleDownloadAll} disabled={isLoading || mockups.every(m => m.status !== Status.SUCCESS)}>Download All</Button>
-                                    </div>
-                                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-10">
-                                        {mockups.map((mockup) => <MockupCard key={mockup.id} mockup={mockup} onDownload={handleDownload} />)}
+                                        <Button onClick={handleDownloadPackage} disabled={isLoading || mockups.every(m => m.status !== Status.SUCCESS)}>Download ZIP</Button>
                                     </div>
+                                    {mockupGroups.map(group => (
+                                        <div key={group.productId} className="mb-12">
+                                            {mockupGroups.some(item => item.mockups.length > 1) && (
+                                                <h3 className="text-2xl font-semibold text-white mb-6">{group.name}</h3>
+                                            )}
+                                            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-10">
+                                                {group.mockups.map((mockup) => <MockupCard key={mockup.id} mockup={mockup} onDownload={handleDownload} onRegenerate={isLoading ? undefined : () => handleRetryMockup(mockup.id)} />)}
+                                            </div>
+                                        </div>
+                                    ))}
                                 </div>
                             )}
                         </div>
                     </main>
                 </div>
             </div>
+            <MarketplaceExportModal
+                isOpen={isMarketplaceExportOpen}
+                projects={activeProject ? [{ ...activeProject, pipeline, productDetails }] : []}
+                onClose={() => setIsMarketplaceExportOpen(false)}
+            />
             <InstructionsModal
                 isOpen={isInstructionsModalOpen}
                 onClose={() => setIsInstructionsModalOpen(false)}
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Status, type BatchItem, type BatchSnapshot } from '../types';
+import { MAX_BATCH_CONCURRENCY } from '../services/batchQueue';
+import Button from './Button';
+
+interface BatchQueuePanelProps {
+    snapshot: BatchSnapshot;
+    canStart: boolean;
+    onStart: () => void;
+    onPause: () => void;
+    onCancel: (id: string) => void;
+    onCancelAll: () => void;
+    onRetryFailed: () => void;
+    onClearFinished: () => void;
+    onRemove: (id: string) => void;
+    onConcurrencyChange: (value: number) => void;
+    onExport: () => void;
+    onDownload: (imageUrl: string, name: string) => void;
+}
+
+const STATUS_BADGES: Record<Status, { label: string, className: string }> = {
+    [Status.IDLE]: { label: 'Queued', className: 'bg-gray-700 text-gray-300' },
+    [Status.PENDING]: { label: 'Running', className: 'bg-yellow-900/60 text-yellow-300 animate-pulse' },
+    [Status.SUCCESS]: { label: 'Done', className: 'bg-green-900/60 text-green-300' },
+    [Status.FAILED]: { label: 'Failed', className: 'bg-red-900/60 text-red-300' },
+    [Status.CANCELLED]: { label: 'Cancelled', className: 'bg-gray-700 text-gray-400' },
+};
+
+const describeProgress = (item: BatchItem): string => {
+    if (!item.pipeline) return '—';
+    const { steps, mockups } = item.pipeline;
+    const done = Object.values(steps).filter(step => step.status === Status.SUCCESS).length;
+    const mockupsDone = mockups.filter(mockup => mockup.status === Status.SUCCESS).length;
+    return `${done}/${Object.keys(steps).length} steps · ${mockupsDone}/${mockups.length} mockups`;
+};
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+    snapshot, canStart, onStart, onPause, onCancel, onCancelAll, onRetryFailed, onClearFinished, onRemove, onConcurrencyChange, onExport, onDownload,
+}) => {
+    const { items, isPaused, activeCount, concurrency } = snapshot;
+    const queuedCount = items.filter(item => item.status === Status.IDLE).length;
+    const failedCount = items.filter(item => item.status === Status.FAILED).length;
+    const cancelledCount = items.filter(item => item.status === Status.CANCELLED).length;
+    const isFinished = items.length > 0 && queuedCount === 0 && activeCount === 0;
+
+    return (
+        <div className="bg-gray-900/50 backdrop-blur-sm p-6 rounded-2xl shadow-xl border border-gray-800">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h2 className="text-3xl font-bold text-white">Batch Queue</h2>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="text-sm text-gray-400 flex items-center gap-2">
+                        Concurrency
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_BATCH_CONCURRENCY}
+                            value={concurrency}
+                            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+                            className="w-16 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                        />
+                    </label>
+                    {isPaused ? (
+                        <Button onClick={onStart} disabled={!canStart || queuedCount === 0} primary>
+                            {activeCount > 0 || isFinished ? 'Resume' : 'Start'}
+                        </Button>
+                    ) : (
+                        <Button onClick={onPause}>Pause</Button>
+                    )}
+                    <Button onClick={onCancelAll} disabled={activeCount === 0}>Cancel Running</Button>
+                    <Button onClick={onRetryFailed} disabled={failedCount + cancelledCount === 0}>Retry Failed</Button>
+                    <Button onClick={onClearFinished} disabled={items.every(item => item.status === Status.IDLE || item.status === Status.PENDING)}>Clear Finished</Button>
+                    <Button onClick={onExport} disabled={!isFinished}>Export Results</Button>
+                </div>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+                {items.length} items · {activeCount} running · {queuedCount} queued · {failedCount} failed{cancelledCount > 0 ? ` · ${cancelledCount} cancelled` : ''}{isPaused && items.length > 0 ? ' · paused' : ''}
+            </p>
+            {items.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">Add images to the queue to get started.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead className="text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th className="py-2 pr-4">Source</th>
+                                <th className="py-2 pr-4">File</th>
+                                <th className="py-2 pr-4">Status</th>
+                                <th className="py-2 pr-4">Progress</th>
+                                <th className="py-2 pr-4">Print Files</th>
+                                <th className="py-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {items.map(item => {
+                                const badge = STATUS_BADGES[item.status];
+                                const printFiles = item.pipeline?.printFiles.filter(printFile => printFile.status === Status.SUCCESS) ?? [];
+                                return (
+                                    <tr key={item.id} className="border-b border-gray-800 align-middle">
+                                        <td className="py-2 pr-4">
+                                            <img src={item.sourceImage} alt={item.fileName} className="w-12 h-12 object-contain bg-gray-800 rounded" />
+                                        </td>
+                                        <td className="py-2 pr-4 text-gray-200 break-all">
+                                            {item.fileName}
+                                            {item.error && <p className="text-xs text-red-400 mt-1">{item.error}</p>}
+                                        </td>
+                                        <td className="py-2 pr-4">
+                                            <span className={`inline-block rounded-full px-3 py-1 text-xs font-semibold ${badge.className}`}>{badge.label}</span>
+                                        </td>
+                                        <td className="py-2 pr-4 text-gray-400">{describeProgress(item)}</td>
+                                        <td className="py-2 pr-4">
+                                            {printFiles.length > 0 ? printFiles.map(printFile => (
+                                                <button
+                                                    key={printFile.id}
+                                                    onClick={() => onDownload(printFile.imageUrl!, `${item.fileName.replace(/\.[^.]+$/, '')}-${printFile.id}`)}
+                                                    className="block text-yellow-400 hover:text-yellow-300 underline"
+                                                >
+                                                    {printFile.name}
+                                                </button>
+                                            )) : <span className="text-gray-600">—</span>}
+                                        </td>
+                                        <td className="py-2 text-right">
+                                            {item.status === Status.PENDING ? (
+                                                <button onClick={() => onCancel(item.id)} className="text-sm text-gray-400 hover:text-white underline">Cancel</button>
+                                            ) : (
+                                                <button onClick={() => onRemove(item.id)} className="text-gray-500 hover:text-white text-lg leading-none" aria-label={`Remove ${item.fileName}`}>&times;</button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchQueuePanel;
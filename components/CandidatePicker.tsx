@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import Button from './Button';
+
+interface CandidatePickerProps {
+    candidates: string[];
+    selected: string | null;
+    /** True while the run is paused waiting for a pick; otherwise picking re-runs the later steps. */
+    isAwaitingPick: boolean;
+    disabled?: boolean;
+    onPick: (imageUrl: string) => void;
+    onDownload: (imageUrl: string, name: string) => void;
+}
+
+const CandidatePicker: React.FC<CandidatePickerProps> = ({ candidates, selected, isAwaitingPick, disabled = false, onPick, onDownload }) => {
+    const [highlighted, setHighlighted] = useState(selected ?? candidates[0]);
+
+    useEffect(() => setHighlighted(selected ?? candidates[0]), [selected, candidates]);
+
+    const isCurrent = highlighted === selected && !isAwaitingPick;
+
+    return (
+        <div>
+            <p className="text-center text-gray-400 mb-6">
+                {isAwaitingPick
+                    ? `${candidates.length} candidates generated. Pick the best one to continue.`
+                    : 'Switching to another candidate redoes the background removal, print files and mockups.'}
+            </p>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                {candidates.map((candidate, index) => (
+                    <button
+                        key={index}
+                        onClick={() => setHighlighted(candidate)}
+                        className={`relative bg-gray-900 rounded-xl p-2 border-2 transition-colors ${highlighted === candidate ? 'border-yellow-400' : 'border-gray-800 hover:border-gray-600'}`}
+                        aria-pressed={highlighted === candidate}
+                    >
+                        <img src={candidate} alt={`Candidate ${index + 1}`} className="w-full aspect-square object-contain rounded-lg" />
+                        <span className="absolute top-3 left-3 bg-black/70 text-xs font-semibold text-white rounded-full px-2 py-1">
+                            {index + 1}{candidate === selected && !isAwaitingPick ? ' · in use' : ''}
+                        </span>
+                    </button>
+                ))}
+            </div>
+            <div className="flex justify-center flex-wrap gap-4 mt-6">
+                <Button onClick={() => onDownload(highlighted, `candidate-${candidates.indexOf(highlighted) + 1}`)}>Download Candidate</Button>
+                <Button onClick={() => onPick(highlighted)} disabled={disabled || isCurrent} primary>
+                    {isAwaitingPick ? 'Use This Design' : 'Switch to This Design'}
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default CandidatePicker;
@@ -0,0 +1,257 @@
+import React, { useState, useRef } from 'react';
+import type { CatalogProduct, MockupTemplate, PrintProfile, ProductCatalog } from '../types';
+import { createDefaultCatalog, createProductId, importCatalog, parseCatalog, serializeCatalog } from '../services/catalogStore';
+import { downloadBlob } from '../utils/fileUtils';
+import Button from './Button';
+import TemplateManager from './TemplateManager';
+
+interface CatalogManagerProps {
+    catalog: ProductCatalog;
+    templates: MockupTemplate[];
+    onTemplatesChange: (templates: MockupTemplate[]) => void;
+    onSave: (catalog: ProductCatalog) => void;
+    onBack: () => void;
+}
+
+const inputClassName = "w-full bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none";
+
+const PRINT_PROFILE_FIELDS: { key: 'width' | 'height' | 'dpi' | 'bleedInches' | 'safeMarginInches', label: string, step: number }[] = [
+    { key: 'width', label: 'Width (px)', step: 1 },
+    { key: 'height', label: 'Height (px)', step: 1 },
+    { key: 'dpi', label: 'DPI', step: 1 },
+    { key: 'bleedInches', label: 'Bleed (in)', step: 0.0625 },
+    { key: 'safeMarginInches', label: 'Safe margin (in)', step: 0.0625 },
+];
+
+const CatalogManager: React.FC<CatalogManagerProps> = ({ catalog, templates, onTemplatesChange, onSave, onBack }) => {
+    const [draft, setDraft] = useState<ProductCatalog>(catalog);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const isDirty = JSON.stringify(draft) !== JSON.stringify(catalog);
+
+    const updateProducts = (update: (products: CatalogProduct[]) => CatalogProduct[]) => {
+        setDraft(prev => ({ ...prev, products: update(prev.products) }));
+        setNotice(null);
+    };
+
+    const updateProduct = (id: string, patch: Partial<CatalogProduct>) =>
+        updateProducts(products => products.map(product => (product.id === id ? { ...product, ...patch } : product)));
+
+    const moveProduct = (index: number, offset: number) =>
+        updateProducts(products => {
+            const target = index + offset;
+            if (target < 0 || target >= products.length) return products;
+            const next = [...products];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+
+    const updatePrintProfile = (id: string, patch: Partial<PrintProfile>) => {
+        setDraft(prev => ({
+            ...prev,
+            printProfiles: prev.printProfiles.map(profile => (profile.id === id ? { ...profile, ...patch } : profile)),
+        }));
+        setNotice(null);
+    };
+
+    const handleAddPrintProfile = () => {
+        setDraft(prev => ({
+            ...prev,
+            printProfiles: [
+                ...prev.printProfiles,
+                { id: createProductId('New Profile', prev.printProfiles), name: 'New Profile', width: 3000, height: 3000, dpi: 300, bleedInches: 0, safeMarginInches: 0 },
+            ],
+        }));
+        setNotice(null);
+    };
+
+    const handleDeletePrintProfile = (id: string) => {
+        // Products linked to a deleted profile fall back to the run's default.
+        setDraft(prev => ({
+            ...prev,
+            printProfiles: prev.printProfiles.filter(profile => profile.id !== id),
+            products: prev.products.map(product => (product.printProfileId === id ? { ...product, printProfileId: undefined } : product)),
+        }));
+        setNotice(null);
+    };
+
+    const handleAdd = () =>
+        updateProducts(products => [...products, { id: createProductId('New Product', products), name: 'New Product', prompt: '' }]);
+
+    const handleSave = () => {
+        setError(null);
+        try {
+            const validated = parseCatalog(draft);
+            onSave(validated);
+            setDraft(validated);
+            setNotice('Catalog saved.');
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleExport = () => {
+        downloadBlob(new Blob([serializeCatalog(catalog)], { type: 'application/json' }), 'product-catalog.json');
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            setDraft(await importCatalog(file));
+            setNotice(`Imported ${file.name}. Review it, then save to apply.`);
+        } catch (err: any) {
+            setError(err.message);
+        }
+    };
+
+    const handleReset = () => {
+        if (window.confirm('Replace the draft with the built-in product list?')) {
+            setDraft(createDefaultCatalog());
+            setNotice('Default catalog loaded. Save to apply.');
+        }
+    };
+
+    return (
+        <div className="w-full max-w-4xl mx-auto py-12 animate-fade-in">
+            <header className="text-center mb-12">
+                <h1 className="text-5xl md:text-6xl font-caveat text-white tracking-tight">
+                    Product <span className="text-yellow-400">Catalog</span>
+                </h1>
+                <p className="mt-4 text-lg text-gray-500">Edit the products, scene prompts, print file sizes and mockup templates used for each run.</p>
+            </header>
+
+            <div className="flex flex-wrap justify-center gap-3 mb-8">
+                <Button onClick={handleAdd}>Add Product</Button>
+                <Button onClick={() => importInputRef.current?.click()}>Import JSON</Button>
+                <Button onClick={handleExport} disabled={isDirty}>Export JSON</Button>
+                <Button onClick={handleReset}>Reset to Defaults</Button>
+                <input type="file" ref={importInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+            </div>
+
+            <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800 mb-6">
+                <label className="text-sm font-semibold text-gray-400 flex items-center gap-4">
+                    Maximum products per run
+                    <input
+                        type="number"
+                        min={1}
+                        value={draft.maxSelectedProducts}
+                        onChange={(e) => setDraft(prev => ({ ...prev, maxSelectedProducts: Number(e.target.value) }))}
+                        className="w-24 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                    />
+                </label>
+            </div>
+
+            <div className="space-y-4">
+                {draft.products.map((product, index) => (
+                    <div key={product.id} className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+                        <div className="flex items-center gap-3 mb-3">
+                            <input
+                                value={product.name}
+                                onChange={(e) => updateProduct(product.id, { name: e.target.value })}
+                                placeholder="Product name"
+                                className={inputClassName}
+                                aria-label="Product name"
+                            />
+                            <button onClick={() => moveProduct(index, -1)} disabled={index === 0} className="p-2 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move up">▲</button>
+                            <button onClick={() => moveProduct(index, 1)} disabled={index === draft.products.length - 1} className="p-2 text-gray-400 hover:text-white disabled:opacity-30" aria-label="Move down">▼</button>
+                            <button onClick={() => updateProducts(products => products.filter(p => p.id !== product.id))} className="p-2 text-gray-400 hover:text-red-400 text-2xl leading-none" aria-label="Delete product">&times;</button>
+                        </div>
+                        <textarea
+                            value={product.prompt}
+                            onChange={(e) => updateProduct(product.id, { prompt: e.target.value })}
+                            placeholder="Describe the scene, e.g. The design is printed on a square throw pillow on a linen sofa."
+                            className={`${inputClassName} h-24 resize-y`}
+                            aria-label="Scene prompt"
+                        />
+                        <label className="text-sm text-gray-400 flex items-center gap-3 mt-3">
+                            Print profile
+                            <select
+                                value={product.printProfileId ?? ''}
+                                onChange={(e) => updateProduct(product.id, { printProfileId: e.target.value || undefined })}
+                                className="bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                            >
+                                <option value="">None</option>
+                                {draft.printProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-sm text-gray-400 flex items-center gap-3 mt-3">
+                            Mockup engine
+                            <select
+                                value={product.templateId ?? ''}
+                                onChange={(e) => updateProduct(product.id, { templateId: e.target.value || undefined })}
+                                className="bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                            >
+                                <option value="">AI scene</option>
+                                {templates.map(template => <option key={template.id} value={template.id}>Template: {template.name}</option>)}
+                                {product.templateId && !templates.some(template => template.id === product.templateId) && (
+                                    <option value={product.templateId}>Missing template</option>
+                                )}
+                            </select>
+                        </label>
+                    </div>
+                ))}
+                {draft.products.length === 0 && <p className="text-center text-gray-500 py-8">The catalog is empty. Add a product to get started.</p>}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-12 mb-4">
+                <h2 className="text-3xl font-bold text-white">Print Profiles</h2>
+                <Button onClick={handleAddPrintProfile}>Add Profile</Button>
+            </div>
+            <div className="space-y-4">
+                {draft.printProfiles.map(profile => (
+                    <div key={profile.id} className="bg-gray-900/50 p-6 rounded-2xl border border-gray-800">
+                        <div className="flex items-center gap-3 mb-3">
+                            <input
+                                value={profile.name}
+                                onChange={(e) => updatePrintProfile(profile.id, { name: e.target.value })}
+                                placeholder="Profile name"
+                                className={inputClassName}
+                                aria-label="Profile name"
+                            />
+                            <button onClick={() => handleDeletePrintProfile(profile.id)} className="p-2 text-gray-400 hover:text-red-400 text-2xl leading-none" aria-label="Delete print profile">&times;</button>
+                        </div>
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                            {PRINT_PROFILE_FIELDS.map(({ key, label, step }) => (
+                                <label key={key} className="text-xs text-gray-400 flex flex-col gap-1">
+                                    {label}
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        step={step}
+                                        value={profile[key]}
+                                        onChange={(e) => updatePrintProfile(profile.id, { [key]: Number(e.target.value) })}
+                                        className="bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                {draft.printProfiles.length === 0 && <p className="text-center text-gray-500 py-8">No print profiles. Add one to render print files.</p>}
+            </div>
+
+            <TemplateManager templates={templates} onTemplatesChange={onTemplatesChange} />
+
+            {error && <p className="text-center text-red-400 mt-6">{error}</p>}
+            {notice && <p className="text-center text-green-400 mt-6">{notice}</p>}
+
+            <footer className="flex justify-center gap-4 mt-12">
+                <Button onClick={() => setDraft(catalog)} disabled={!isDirty}>Discard Changes</Button>
+                <Button onClick={handleSave} disabled={!isDirty} primary>Save Catalog</Button>
+                <button
+                    onClick={() => (!isDirty || window.confirm('Discard unsaved catalog changes?')) && onBack()}
+                    className="px-8 py-3 rounded-md font-semibold tracking-wider uppercase transition-all duration-300 bg-yellow-400 text-black hover:bg-yellow-300"
+                >
+                    Back to Studio
+                </button>
+            </footer>
+        </div>
+    );
+};
+
+export default CatalogManager;
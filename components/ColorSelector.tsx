@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { ProductColor } from '../types';
+import { COLOR_PRESETS, DETECTED_COLOR } from '../constants';
+
+interface ColorSelectorProps {
+    selected: ProductColor[];
+    onChange: (colors: ProductColor[]) => void;
+}
+
+const isSameColor = (a: ProductColor, b: ProductColor) => a.hex?.toLowerCase() === b.hex?.toLowerCase();
+
+const Swatch: React.FC<{ color: ProductColor }> = ({ color }) => (
+    <span
+        className="inline-block w-4 h-4 rounded-full border border-gray-500"
+        style={{ background: color.hex ?? 'conic-gradient(#ef4444, #eab308, #22c55e, #3b82f6, #a855f7, #ef4444)' }}
+    />
+);
+
+const ColorSelector: React.FC<ColorSelectorProps> = ({ selected, onChange }) => {
+    const [customHex, setCustomHex] = useState('#7C3AED');
+    const customColors = selected.filter(color => color.hex !== null && !COLOR_PRESETS.some(preset => isSameColor(preset, color)));
+
+    const toggle = (color: ProductColor) => {
+        const isSelected = selected.some(item => isSameColor(item, color));
+        if (isSelected && selected.length === 1) return; // At least one color is always rendered.
+        onChange(isSelected ? selected.filter(item => !isSameColor(item, color)) : [...selected, color]);
+    };
+
+    const addCustom = () => {
+        const color = { name: customHex.toUpperCase(), hex: customHex.toUpperCase() };
+        if (!selected.some(item => isSameColor(item, color))) {
+            onChange([...selected, color]);
+        }
+    };
+
+    const renderChip = (color: ProductColor) => {
+        const isSelected = selected.some(item => isSameColor(item, color));
+        return (
+            <button
+                key={color.hex ?? 'detected'}
+                onClick={() => toggle(color)}
+                className={`px-3 py-1 rounded-full text-sm border transition-colors flex items-center gap-2 ${isSelected ? 'border-yellow-400 text-yellow-300 bg-yellow-900/20' : 'border-gray-700 text-gray-400 hover:border-gray-500'}`}
+                aria-pressed={isSelected}
+            >
+                <Swatch color={color} />
+                {color.name}
+            </button>
+        );
+    };
+
+    return (
+        <div>
+            <div className="flex flex-wrap gap-2">
+                {[DETECTED_COLOR, ...COLOR_PRESETS, ...customColors].map(renderChip)}
+            </div>
+            <div className="flex items-center gap-2 mt-3">
+                <input
+                    type="color"
+                    value={customHex}
+                    onChange={(e) => setCustomHex(e.target.value)}
+                    className="w-10 h-8 bg-transparent border border-gray-700 rounded cursor-pointer"
+                    aria-label="Custom color"
+                />
+                <button onClick={addCustom} className="text-sm text-yellow-400 hover:text-yellow-300">+ Add custom color</button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Each selected product gets one mockup per color. Detected uses the color read from your upload.</p>
+        </div>
+    );
+};
+
+export default ColorSelector;
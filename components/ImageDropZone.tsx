@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { extractDroppedImageUrl, isImportableUrl } from '../services/imageImport';
+
+interface ImageDropZoneProps {
+    onFiles: (files: File[]) => void;
+    /** Called for images dragged from another browser tab, which arrive as an address rather than a file. */
+    onUrl: (url: string) => void;
+    onClick: () => void;
+    children: React.ReactNode;
+}
+
+const ImageDropZone: React.FC<ImageDropZoneProps> = ({ onFiles, onUrl, onClick, children }) => {
+    const [isDragging, setIsDragging] = useState(false);
+
+    const handleDragOver = (event: React.DragEvent) => {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+        setIsDragging(true);
+    };
+
+    const handleDragLeave = (event: React.DragEvent) => {
+        // Moving over a child element fires dragleave on the zone itself; only react when the pointer really left.
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+            setIsDragging(false);
+        }
+    };
+
+    const handleDrop = (event: React.DragEvent) => {
+        event.preventDefault();
+        setIsDragging(false);
+        const files = Array.from(event.dataTransfer.files);
+        if (files.length > 0) {
+            onFiles(files);
+            return;
+        }
+        const url = extractDroppedImageUrl(event.dataTransfer.getData('text/uri-list'), event.dataTransfer.getData('text/html'));
+        if (url && isImportableUrl(url)) {
+            onUrl(url);
+        }
+    };
+
+    return (
+        <div
+            className={`w-full aspect-square border-4 border-dashed rounded-xl flex items-center justify-center cursor-pointer hover:border-yellow-400 transition-colors bg-gray-800 overflow-hidden shadow-inner ${isDragging ? 'border-yellow-400 bg-gray-700' : 'border-gray-700'}`}
+            onClick={onClick}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
+            {children}
+        </div>
+    );
+};
+
+export default ImageDropZone;
@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react';
+import Button from './Button';
+
+interface ImageImportBarProps {
+    onFiles: (files: File[]) => void;
+    onUrl: (url: string) => Promise<void>;
+    disabled?: boolean;
+}
+
+// React has no prop for folder selection, so the attribute is set on the element directly.
+const enableFolderSelection = (input: HTMLInputElement | null) => input?.setAttribute('webkitdirectory', '');
+
+const ImageImportBar: React.FC<ImageImportBarProps> = ({ onFiles, onUrl, disabled = false }) => {
+    const [url, setUrl] = useState('');
+    const [isFetching, setIsFetching] = useState(false);
+    const filesInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    const handleImport = async () => {
+        if (!url.trim()) return;
+        setIsFetching(true);
+        try {
+            await onUrl(url);
+            setUrl('');
+        } finally {
+            setIsFetching(false);
+        }
+    };
+
+    const handleFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        event.target.value = '';
+        if (files.length > 0) {
+            onFiles(files);
+        }
+    };
+
+    return (
+        <div className="mt-4 space-y-3">
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleImport()}
+                    placeholder="Image URL or data:image URL"
+                    disabled={disabled || isFetching}
+                    className="flex-1 min-w-0 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none disabled:opacity-50"
+                />
+                <Button onClick={handleImport} disabled={disabled || isFetching || !url.trim()}>
+                    {isFetching ? 'Fetching...' : 'Import'}
+                </Button>
+            </div>
+            <div className="flex justify-center gap-4 text-sm">
+                <button onClick={() => filesInputRef.current?.click()} disabled={disabled} className="text-yellow-400 hover:text-yellow-300 underline disabled:text-gray-500 disabled:no-underline">
+                    Add several files
+                </button>
+                <button onClick={() => folderInputRef.current?.click()} disabled={disabled} className="text-yellow-400 hover:text-yellow-300 underline disabled:text-gray-500 disabled:no-underline">
+                    Add a folder
+                </button>
+            </div>
+            <input type="file" ref={filesInputRef} onChange={handleFiles} accept="image/*" multiple className="hidden" />
+            <input
+                type="file"
+                ref={(input) => {
+                    folderInputRef.current = input;
+                    enableFolderSelection(input);
+                }}
+                onChange={handleFiles}
+                multiple
+                className="hidden"
+            />
+        </div>
+    );
+};
+
+export default ImageImportBar;
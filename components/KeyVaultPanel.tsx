@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import type { ApiKeyProfile, KeyStore, KeyVaultSnapshot, KeyedService } from '../types';
+import { KEYED_SERVICES } from '../services/keyVault';
+import Button from './Button';
+
+interface KeyVaultPanelProps {
+    vault: KeyVaultSnapshot;
+    /** Label suffix per service, e.g. "(Required)". */
+    requirements: Record<KeyedService, string>;
+    onUpdate: (store: KeyStore) => void;
+    onUnlock: (passphrase: string) => Promise<void>;
+    onLock: () => void;
+    onEnable: (passphrase: string) => Promise<void>;
+    onDisable: () => void;
+    onAutoLockChange: (minutes: number) => void;
+    onTest: (service: KeyedService, key: string) => Promise<void>;
+}
+
+const SERVICE_NAMES: Record<KeyedService, string> = { gemini: 'Gemini', photoroom: 'Photoroom' };
+const MIN_PASSPHRASE_LENGTH = 8;
+
+type TestResult = { state: 'testing' } | { state: 'valid' } | { state: 'invalid', message: string };
+
+const inputClassName = 'w-full bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none';
+const linkClassName = 'text-sm text-yellow-400 hover:text-yellow-300 underline disabled:text-gray-500 disabled:no-underline';
+
+const KeyVaultPanel: React.FC<KeyVaultPanelProps> = ({ vault, requirements, onUpdate, onUnlock, onLock, onEnable, onDisable, onAutoLockChange, onTest }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [vaultError, setVaultError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const [isSettingUp, setIsSettingUp] = useState(false);
+    const [testResults, setTestResults] = useState<Record<string, TestResult>>({});
+
+    const runVaultAction = async (action: () => Promise<void>) => {
+        setIsBusy(true);
+        setVaultError(null);
+        try {
+            await action();
+            setPassphrase('');
+            setConfirmation('');
+            setIsSettingUp(false);
+        } catch (err: any) {
+            setVaultError(err.message || 'The key vault could not be opened.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    if (vault.status === 'locked' || !vault.store) {
+        return (
+            <div className="space-y-3">
+                <p className="text-sm text-gray-400">Your API keys are encrypted. Enter the passphrase to unlock them for this session.</p>
+                <div className="flex gap-2">
+                    <input
+                        type="password"
+                        value={passphrase}
+                        onChange={(e) => setPassphrase(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && passphrase && runVaultAction(() => onUnlock(passphrase))}
+                        placeholder="Vault passphrase"
+                        className={inputClassName}
+                        autoComplete="current-password"
+                    />
+                    <Button onClick={() => runVaultAction(() => onUnlock(passphrase))} disabled={!passphrase || isBusy} primary>
+                        {isBusy ? 'Unlocking...' : 'Unlock'}
+                    </Button>
+                </div>
+                {vaultError && <p className="text-sm text-red-400">{vaultError}</p>}
+            </div>
+        );
+    }
+
+    const store = vault.store;
+
+    const updateProfile = (id: string, changes: Partial<ApiKeyProfile>) => {
+        onUpdate({ ...store, profiles: store.profiles.map(profile => (profile.id === id ? { ...profile, ...changes } : profile)) });
+        // An edited key has not been tested yet.
+        setTestResults(({ [id]: _stale, ...rest }) => rest);
+    };
+
+    const addProfile = (service: KeyedService, key = '') => {
+        const count = store.profiles.filter(profile => profile.service === service).length;
+        const profile: ApiKeyProfile = { id: crypto.randomUUID(), service, name: count === 0 ? 'Default' : `Profile ${count + 1}`, key };
+        onUpdate({ profiles: [...store.profiles, profile], active: { ...store.active, [service]: profile.id } });
+    };
+
+    const removeProfile = (service: KeyedService, id: string) => {
+        // The store falls back to the service's first remaining profile.
+        onUpdate({ profiles: store.profiles.filter(profile => profile.id !== id), active: { ...store.active, [service]: null } });
+    };
+
+    const testProfile = async (profile: ApiKeyProfile) => {
+        setTestResults(prev => ({ ...prev, [profile.id]: { state: 'testing' } }));
+        try {
+            await onTest(profile.service, profile.key);
+            setTestResults(prev => ({ ...prev, [profile.id]: { state: 'valid' } }));
+        } catch (err: any) {
+            setTestResults(prev => ({ ...prev, [profile.id]: { state: 'invalid', message: err.message || 'The key was rejected.' } }));
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {KEYED_SERVICES.map(service => {
+                const profiles = store.profiles.filter(profile => profile.service === service);
+                const active = profiles.find(profile => profile.id === store.active[service]);
+                const result = active ? testResults[active.id] : undefined;
+                return (
+                    <div key={service}>
+                        <label className="text-sm font-semibold text-gray-400 block mb-2">{SERVICE_NAMES[service]} API Key {requirements[service]}</label>
+                        {profiles.length > 1 && (
+                            <select
+                                value={active?.id ?? ''}
+                                onChange={(e) => onUpdate({ ...store, active: { ...store.active, [service]: e.target.value } })}
+                                className={`${inputClassName} mb-2`}
+                                aria-label={`${SERVICE_NAMES[service]} key profile`}
+                            >
+                                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name || 'Unnamed'}</option>)}
+                            </select>
+                        )}
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                            {active && (
+                                <input
+                                    type="text"
+                                    value={active.name}
+                                    onChange={(e) => updateProfile(active.id, { name: e.target.value })}
+                                    placeholder="Profile name"
+                                    className={inputClassName}
+                                    aria-label={`${SERVICE_NAMES[service]} profile name`}
+                                />
+                            )}
+                            <input
+                                type="password"
+                                value={active?.key ?? ''}
+                                onChange={(e) => (active ? updateProfile(active.id, { key: e.target.value }) : addProfile(service, e.target.value))}
+                                placeholder={`Enter your ${SERVICE_NAMES[service]} API key`}
+                                className={`${inputClassName} ${active ? 'sm:col-span-2' : 'sm:col-span-3'}`}
+                                autoComplete="off"
+                            />
+                        </div>
+                        <div className="flex flex-wrap items-center gap-4 mt-2">
+                            <button onClick={() => active && testProfile(active)} disabled={!active?.key || result?.state === 'testing'} className={linkClassName}>
+                                {result?.state === 'testing' ? 'Testing...' : 'Test key'}
+                            </button>
+                            <button onClick={() => addProfile(service)} className={linkClassName}>New profile</button>
+                            {active && (
+                                <button onClick={() => removeProfile(service, active.id)} className="text-sm text-gray-400 hover:text-white underline">
+                                    Delete profile
+                                </button>
+                            )}
+                            {result?.state === 'valid' && <span className="text-sm text-green-400">Key works</span>}
+                            {result?.state === 'invalid' && <span className="text-sm text-red-400">{result.message}</span>}
+                        </div>
+                    </div>
+                );
+            })}
+
+            <div className="border-t border-gray-800 pt-4">
+                <label className="text-sm font-semibold text-gray-400 block mb-2">Key Vault</label>
+                {vault.status === 'unlocked' ? (
+                    <div className="space-y-3">
+                        <p className="text-sm text-gray-400">Keys are encrypted with your passphrase and unlocked for this session.</p>
+                        <div className="flex flex-wrap items-center gap-4">
+                            <Button onClick={onLock}>Lock Now</Button>
+                            <label className="text-xs text-gray-400 flex items-center gap-2">
+                                Auto-lock after
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={vault.autoLockMinutes}
+                                    onChange={(e) => onAutoLockChange(Number(e.target.value))}
+                                    className="w-20 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                />
+                                minutes idle (0 = never)
+                            </label>
+                            <button
+                                onClick={() => window.confirm('Store your keys unencrypted in this browser again?') && onDisable()}
+                                className="text-sm text-gray-400 hover:text-white underline"
+                            >
+                                Remove encryption
+                            </button>
+                        </div>
+                    </div>
+                ) : isSettingUp ? (
+                    <div className="space-y-2">
+                        <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="New passphrase" className={inputClassName} autoComplete="new-password" />
+                        <input type="password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Repeat passphrase" className={inputClassName} autoComplete="new-password" />
+                        <p className="text-xs text-gray-500">At least {MIN_PASSPHRASE_LENGTH} characters. There is no way to recover the keys if you forget it.</p>
+                        <div className="flex gap-2">
+                            <Button
+                                onClick={() => runVaultAction(() => onEnable(passphrase))}
+                                disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH || passphrase !== confirmation}
+                                primary
+                            >
+                                {isBusy ? 'Encrypting...' : 'Encrypt Keys'}
+                            </Button>
+                            <Button onClick={() => setIsSettingUp(false)}>Cancel</Button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-wrap items-center gap-4">
+                        <p className="text-sm text-gray-400">Keys are stored unencrypted in this browser.</p>
+                        <button onClick={() => setIsSettingUp(true)} className={linkClassName}>Encrypt with a passphrase</button>
+                    </div>
+                )}
+                {vaultError && <p className="text-sm text-red-400 mt-2">{vaultError}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default KeyVaultPanel;
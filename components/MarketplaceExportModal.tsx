@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import type { GenericColumn, MarketplaceExportOptions, Project } from '../types';
+import {
+    LISTING_FIELDS,
+    MARKETPLACE_FORMATS,
+    buildMarketplaceRows,
+    loadMarketplaceExportOptions,
+    saveMarketplaceExportOptions,
+} from '../services/marketplaceExport';
+import { toCsv } from '../utils/csv';
+import { downloadBlob } from '../utils/fileUtils';
+import Button from './Button';
+
+interface MarketplaceExportModalProps {
+    isOpen: boolean;
+    projects: Project[];
+    onClose: () => void;
+}
+
+const inputClassName = "w-full bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none";
+
+const MarketplaceExportModal: React.FC<MarketplaceExportModalProps> = ({ isOpen, projects, onClose }) => {
+    const [options, setOptions] = useState<MarketplaceExportOptions>(loadMarketplaceExportOptions);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                onClose();
+            }
+        };
+
+        if (isOpen) {
+            window.addEventListener('keydown', handleKeyDown);
+        }
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [isOpen, onClose]);
+
+    if (!isOpen) {
+        return null;
+    }
+
+    const update = (patch: Partial<MarketplaceExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+    const updateColumn = (index: number, patch: Partial<GenericColumn>) =>
+        update({ genericColumns: options.genericColumns.map((column, i) => (i === index ? { ...column, ...patch } : column)) });
+
+    const variantCount = projects.reduce((total, project) => total + Math.max(1, project.pipeline.mockups.length), 0);
+
+    const handleExport = () => {
+        setError(null);
+        try {
+            const csv = toCsv(buildMarketplaceRows(projects, options));
+            saveMarketplaceExportOptions(options);
+            downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${options.format}-listings.csv`);
+            onClose();
+        } catch (err: any) {
+            setError(err.message || 'Could not build the CSV.');
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in"
+            onClick={onClose}
+            aria-modal="true"
+            role="dialog"
+        >
+            <div
+                className="bg-gray-900 rounded-2xl shadow-xl border border-gray-800 w-full max-w-2xl p-6 text-gray-200 max-h-[90vh] overflow-y-auto"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <h2 className="text-2xl font-bold text-white">Marketplace CSV</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                    {projects.length} {projects.length === 1 ? 'project' : 'projects'} · {variantCount} {variantCount === 1 ? 'row' : 'rows'}, one per product variant
+                </p>
+
+                <div className="flex space-x-2 rounded-lg bg-gray-800 p-1 mt-6">
+                    {MARKETPLACE_FORMATS.map(format => (
+                        <button
+                            key={format.id}
+                            onClick={() => update({ format: format.id })}
+                            className={`w-full py-2 px-4 rounded-md font-medium transition-colors duration-300 ${options.format === format.id ? 'bg-yellow-400 text-black shadow' : 'text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {format.name}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-6">
+                    <label className="text-xs text-gray-400 flex flex-col gap-1">
+                        Price
+                        <input value={options.price} onChange={(e) => update({ price: e.target.value })} className={inputClassName} />
+                    </label>
+                    <label className="text-xs text-gray-400 flex flex-col gap-1">
+                        Currency
+                        <input value={options.currency} onChange={(e) => update({ currency: e.target.value.toUpperCase() })} className={inputClassName} />
+                    </label>
+                    <label className="text-xs text-gray-400 flex flex-col gap-1">
+                        Quantity
+                        <input type="number" min={0} value={options.quantity} onChange={(e) => update({ quantity: Number(e.target.value) })} className={inputClassName} />
+                    </label>
+                    <label className="text-xs text-gray-400 flex flex-col gap-1">
+                        Vendor
+                        <input value={options.vendor} onChange={(e) => update({ vendor: e.target.value })} className={inputClassName} />
+                    </label>
+                </div>
+                <label className="text-xs text-gray-400 flex flex-col gap-1 mt-3">
+                    Image base URL
+                    <input
+                        value={options.imageBaseUrl}
+                        onChange={(e) => update({ imageBaseUrl: e.target.value })}
+                        placeholder="https://cdn.example.com/mockups/"
+                        className={inputClassName}
+                    />
+                    <span className="text-gray-500">Prefixed to mockup file names. The names match the files in each project's ZIP package.</span>
+                </label>
+
+                {options.format === 'generic' && (
+                    <div className="mt-6">
+                        <h3 className="text-sm font-semibold text-gray-400 mb-2">Columns</h3>
+                        <div className="space-y-2">
+                            {options.genericColumns.map((column, index) => (
+                                <div key={index} className="flex items-center gap-2">
+                                    <input
+                                        value={column.header}
+                                        onChange={(e) => updateColumn(index, { header: e.target.value })}
+                                        placeholder="Column header"
+                                        className={inputClassName}
+                                        aria-label="Column header"
+                                    />
+                                    <select
+                                        value={column.field}
+                                        onChange={(e) => updateColumn(index, { field: e.target.value as GenericColumn['field'] })}
+                                        className={inputClassName}
+                                        aria-label="Column value"
+                                    >
+                                        {LISTING_FIELDS.map(field => <option key={field.id} value={field.id}>{field.label}</option>)}
+                                    </select>
+                                    <button
+                                        onClick={() => update({ genericColumns: options.genericColumns.filter((_, i) => i !== index) })}
+                                        className="p-2 text-gray-400 hover:text-red-400 text-2xl leading-none"
+                                        aria-label="Remove column"
+                                    >
+                                        &times;
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => update({ genericColumns: [...options.genericColumns, { header: '', field: 'title' }] })}
+                            className="mt-2 text-sm text-yellow-400 hover:text-yellow-300"
+                        >
+                            + Add column
+                        </button>
+                    </div>
+                )}
+
+                {error && <p className="text-red-400 mt-4">{error}</p>}
+
+                <div className="mt-8 flex justify-end gap-4">
+                    <Button onClick={onClose}>Cancel</Button>
+                    <Button onClick={handleExport} disabled={projects.length === 0} primary>Export CSV</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MarketplaceExportModal;
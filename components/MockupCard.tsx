@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { Mockup } from '../types';
+import { Mockup, RetryStatus } from '../types';
 import Button from './Button';
 import { IconDownload } from '../constants';
+import { describeRetry } from '../services/requestScheduler';
 
 interface MockupCardProps {
     mockup: Mockup;
@@ -12,22 +13,32 @@ interface MockupCardProps {
 
 const SkeletonLoader = ({ className }: { className: string }) => <div className={`animate-pulse bg-gray-800 ${className}`}></div>;
 
-const LoadingCard: React.FC<{ name: string }> = ({ name }) => (
+const LoadingCard: React.FC<{ name: string, retry?: RetryStatus | null }> = ({ name, retry }) => (
     <div className="relative pb-4 bg-gray-900 rounded-xl shadow-md">
         <SkeletonLoader className="aspect-[4/3] rounded-t-xl" />
         <div className="mt-3 flex justify-center px-2">
             <SkeletonLoader className="h-5 w-1/2 rounded-md" />
         </div>
-        <div className="absolute inset-0 flex items-center justify-center bg-black/30">
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black/30">
             <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-yellow-400"></div>
+            {retry && <p className="text-sm font-medium text-yellow-300">{describeRetry(retry)}</p>}
         </div>
     </div>
 );
 
-const ErrorCard: React.FC<{ name: string, onRegenerate?: () => void }> = ({ name, onRegenerate }) => (
+const WaitingCard: React.FC<{ name: string }> = ({ name }) => (
+    <div className="relative pb-4 bg-gray-900 rounded-xl shadow-md">
+        <div className="rounded-t-xl bg-gray-800 border-2 border-dashed border-gray-700 aspect-[4/3] flex items-center justify-center text-center p-4">
+            <p className="text-gray-500 font-medium">Waiting for the design to finish</p>
+        </div>
+        <p className="text-center mt-3 text-lg font-semibold text-gray-300 px-3">{name}</p>
+    </div>
+);
+
+const ErrorCard: React.FC<{ name: string, isCancelled?: boolean, onRegenerate?: () => void }> = ({ name, isCancelled, onRegenerate }) => (
     <div className="relative group pb-4 bg-gray-900 rounded-xl shadow-md">
-        <div className="rounded-t-xl bg-gray-800 border-2 border-dashed border-red-500/50 aspect-[4/3] flex flex-col items-center justify-center text-center p-4">
-            <p className="text-red-400 font-medium mb-4">Mockup creation failed</p>
+        <div className={`rounded-t-xl bg-gray-800 border-2 border-dashed aspect-[4/3] flex flex-col items-center justify-center text-center p-4 ${isCancelled ? 'border-gray-700' : 'border-red-500/50'}`}>
+            <p className={`font-medium mb-4 ${isCancelled ? 'text-gray-400' : 'text-red-400'}`}>{isCancelled ? 'Cancelled' : 'Mockup creation failed'}</p>
             {onRegenerate && <Button onClick={onRegenerate} primary>Retry</Button>}
         </div>
         <p className="text-center mt-3 text-lg font-semibold text-gray-300 px-3">{name}</p>
@@ -51,16 +62,27 @@ const SuccessCard: React.FC<{ name: string, imageUrl: string, onDownload: (image
 );
 
 
-const MockupCard: React.FC<MockupCardProps> = ({ mockup, onDownload, onRegenerate }) => {
+const MockupCardBody: React.FC<MockupCardProps & { name: string }> = ({ mockup, name, onDownload, onRegenerate }) => {
     switch (mockup.status) {
         case 'success':
-            return <SuccessCard name={mockup.name} imageUrl={mockup.imageUrl!} onDownload={onDownload} />;
+            return <SuccessCard name={name} imageUrl={mockup.imageUrl!} onDownload={onDownload} />;
         case 'failed':
-            return <ErrorCard name={mockup.name} onRegenerate={onRegenerate} />;
+            return <ErrorCard name={name} onRegenerate={onRegenerate} />;
+        case 'cancelled':
+            return <ErrorCard name={name} isCancelled onRegenerate={onRegenerate} />;
+        case 'idle':
+            return <WaitingCard name={name} />;
         case 'pending':
         default:
-            return <LoadingCard name={mockup.name} />;
+            return <LoadingCard name={name} retry={mockup.retry} />;
     }
 };
 
+// The id lets the notification center scroll to a mockup that failed.
+const MockupCard: React.FC<MockupCardProps> = (props) => (
+    <div id={`mockup-${props.mockup.id}`} className="scroll-mt-24">
+        <MockupCardBody {...props} name={`${props.mockup.name} · ${props.mockup.color.name}`} />
+    </div>
+);
+
 export default MockupCard;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import type { ErrorSource, PipelineState, PipelineStepId, StudioNotification } from '../types';
+
+interface NotificationCenterProps {
+    notifications: StudioNotification[];
+    /** Used to name the step, mockup or print file a notification came from. */
+    pipeline: PipelineState;
+    onDismiss: (id: string) => void;
+    onDismissAll: () => void;
+}
+
+const STEP_NAMES: Record<PipelineStepId, string> = {
+    analyzeColor: 'Color analysis',
+    extractPrompt: 'Prompt extraction',
+    clone: 'Design',
+    removeBackground: 'Background removal',
+};
+
+const getSourceLabel = (source: ErrorSource, pipeline: PipelineState): string => {
+    switch (source.type) {
+        case 'step':
+            return `${STEP_NAMES[source.id]} step`;
+        case 'mockup': {
+            const mockup = pipeline.mockups.find(candidate => candidate.id === source.id);
+            return mockup ? `Mockup: ${mockup.name} · ${mockup.color.name}` : 'Mockup';
+        }
+        case 'printFile': {
+            const printFile = pipeline.printFiles.find(candidate => candidate.id === source.id);
+            return printFile ? `Print file: ${printFile.name}` : 'Print file';
+        }
+    }
+};
+
+const getSourceElementId = (source: ErrorSource) =>
+    source.type === 'printFile' ? `print-file-${source.id}` : `${source.type}-${source.id}`;
+
+const showSource = (source: ErrorSource) => {
+    const element = document.getElementById(getSourceElementId(source));
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+};
+
+const NotificationItem: React.FC<{ notification: StudioNotification, pipeline: PipelineState, onDismiss: () => void }> = ({ notification, pipeline, onDismiss }) => {
+    const [showDetails, setShowDetails] = useState(false);
+    const isNotice = notification.kind === 'notice';
+    const { source } = notification;
+
+    return (
+        <div className={`p-4 border text-white rounded-lg shadow-2xl animate-fade-in-down ${isNotice ? 'bg-gray-800 border-gray-700' : 'bg-red-900 border-red-700'}`}>
+            <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                    {notification.title && <p className="font-semibold">{notification.title}</p>}
+                    <p className={`break-words ${notification.title ? 'text-sm text-red-100 mt-1' : ''}`}>{notification.message}</p>
+                </div>
+                <button onClick={onDismiss} className={`p-1 rounded-full transition-colors text-2xl leading-none ${isNotice ? 'hover:bg-gray-700' : 'hover:bg-red-800'}`} aria-label="Dismiss">&times;</button>
+            </div>
+            {notification.explanation && (
+                <p className="text-sm text-red-200 mt-2">
+                    {notification.explanation} <span className="font-medium text-white">{notification.action}</span>
+                </p>
+            )}
+            {(source || notification.raw) && (
+                <div className="flex flex-wrap gap-4 mt-2 text-sm">
+                    {source && (
+                        <button onClick={() => showSource(source)} className="text-yellow-300 hover:text-yellow-200 underline">
+                            {getSourceLabel(source, pipeline)}
+                        </button>
+                    )}
+                    {notification.raw && (
+                        <button onClick={() => setShowDetails(prev => !prev)} className="text-red-200 hover:text-white underline">
+                            {showDetails ? 'Hide details' : 'Details'}
+                        </button>
+                    )}
+                </div>
+            )}
+            {showDetails && notification.raw && (
+                <pre className="mt-2 max-h-48 overflow-auto rounded-md bg-black/50 p-2 text-xs text-gray-300 whitespace-pre-wrap break-words">{notification.raw}</pre>
+            )}
+        </div>
+    );
+};
+
+/** Stacks errors and notices, newest first, until they are dismissed. */
+const NotificationCenter: React.FC<NotificationCenterProps> = ({ notifications, pipeline, onDismiss, onDismissAll }) => {
+    if (notifications.length === 0) return null;
+    return (
+        <div className="fixed top-5 left-1/2 -translate-x-1/2 z-50 w-full max-w-md max-h-[80vh] overflow-y-auto space-y-2 px-2">
+            {notifications.length > 1 && (
+                <div className="flex justify-end">
+                    <button onClick={onDismissAll} className="text-xs px-3 py-1 rounded-full bg-gray-800 border border-gray-700 text-gray-300 hover:text-white">
+                        Dismiss all ({notifications.length})
+                    </button>
+                </div>
+            )}
+            {notifications.map(notification => (
+                <NotificationItem key={notification.id} notification={notification} pipeline={pipeline} onDismiss={() => onDismiss(notification.id)} />
+            ))}
+        </div>
+    );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Status, type PipelineState, type PipelineStep, type PipelineStepId } from '../types';
+import { describeRetry } from '../services/requestScheduler';
+
+interface PipelineProgressProps {
+    pipeline: PipelineState;
+    isRunning: boolean;
+    onRetryStep: (stepId: PipelineStepId) => void;
+    onResume: () => void;
+}
+
+const STEP_NAMES: Record<PipelineStepId, string> = {
+    analyzeColor: 'Color',
+    extractPrompt: 'Prompt',
+    clone: 'Design',
+    removeBackground: 'Background',
+};
+
+const STATUS_STYLES: Record<Status, string> = {
+    [Status.IDLE]: 'border-gray-700 text-gray-500',
+    [Status.PENDING]: 'border-yellow-400 text-yellow-300 animate-pulse',
+    [Status.SUCCESS]: 'border-green-600 text-green-400',
+    [Status.FAILED]: 'border-red-600 text-red-400',
+    [Status.CANCELLED]: 'border-gray-600 text-gray-400',
+};
+
+const STATUS_LABELS: Record<Status, string> = {
+    [Status.IDLE]: 'Waiting',
+    [Status.PENDING]: 'Running',
+    [Status.SUCCESS]: 'Done',
+    [Status.FAILED]: 'Failed',
+    [Status.CANCELLED]: 'Cancelled',
+};
+
+const getStatusLabel = (step: PipelineStep, isAwaitingReview: boolean) => {
+    if (isAwaitingReview) return 'Needs review';
+    if (step.status === Status.PENDING && step.retry) return describeRetry(step.retry);
+    return STATUS_LABELS[step.status];
+};
+
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ pipeline, isRunning, onRetryStep, onResume }) => {
+    const stepIds = Object.keys(STEP_NAMES) as PipelineStepId[];
+    const isStopped = (status: Status) => status === Status.FAILED || status === Status.CANCELLED;
+    const hasFailure = stepIds.some(id => pipeline.steps[id].status === Status.FAILED)
+        || pipeline.printFiles.some(printFile => printFile.status === Status.FAILED)
+        || pipeline.mockups.some(mockup => mockup.status === Status.FAILED);
+    // A cancelled run may have left steps and mockups that never started, which resuming also picks up.
+    const hasStopped = stepIds.some(id => isStopped(pipeline.steps[id].status))
+        || pipeline.printFiles.some(printFile => isStopped(printFile.status))
+        || pipeline.mockups.some(mockup => isStopped(mockup.status));
+    const printFilesDone = pipeline.printFiles.filter(printFile => printFile.status === Status.SUCCESS).length;
+    const mockupsDone = pipeline.mockups.filter(mockup => mockup.status === Status.SUCCESS).length;
+
+    return (
+        <div className="max-w-4xl mx-auto mb-12 bg-gray-900/50 p-4 rounded-2xl border border-gray-800">
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {stepIds.map(id => {
+                    const step = pipeline.steps[id];
+                    return (
+                        <div key={id} id={`step-${id}`} className={`rounded-lg border-2 p-3 text-center scroll-mt-24 ${STATUS_STYLES[step.status]}`} title={step.error ?? undefined}>
+                            <p className="text-sm font-semibold text-white">{STEP_NAMES[id]}</p>
+                            <p className="text-xs mt-1">{getStatusLabel(step, pipeline.awaitingReview === id)}</p>
+                            {step.status !== Status.IDLE && step.status !== Status.PENDING && !isRunning && (
+                                <button onClick={() => onRetryStep(id)} className="text-xs mt-2 text-yellow-400 hover:text-yellow-300 underline">
+                                    {step.status === Status.SUCCESS ? 'Redo' : 'Retry'}
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+                <div className="rounded-lg border-2 border-gray-700 p-3 text-center text-gray-400">
+                    <p className="text-sm font-semibold text-white">Print Files</p>
+                    <p className="text-xs mt-1">{printFilesDone}/{pipeline.printFiles.length}</p>
+                </div>
+                {pipeline.mockups.length > 0 && (
+                    <div className="rounded-lg border-2 border-gray-700 p-3 text-center text-gray-400">
+                        <p className="text-sm font-semibold text-white">Mockups</p>
+                        <p className="text-xs mt-1">{mockupsDone}/{pipeline.mockups.length}</p>
+                    </div>
+                )}
+            </div>
+            {hasStopped && !isRunning && (
+                <div className="mt-4 text-center">
+                    <button onClick={onResume} className="text-sm font-semibold text-yellow-400 hover:text-yellow-300 underline">
+                        {hasFailure ? 'Resume from failed steps' : 'Resume cancelled run'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PipelineProgress;
@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import type { PrintPlacement, PrintProfile } from '../types';
+import { PLACEMENT_ALIGNS, computePlacement, measureDesign, type Rect } from '../services/placement';
+
+interface PlacementPanelProps {
+    placement: PrintPlacement;
+    onChange: (placement: PrintPlacement) => void;
+    /** Profiles the preview can be shown on; the first is shown by default. */
+    profiles: PrintProfile[];
+    /** The design to preview, ideally the transparent one. */
+    design: string | null;
+}
+
+const PlacementPanel: React.FC<PlacementPanelProps> = ({ placement, onChange, profiles, design }) => {
+    const [profileId, setProfileId] = useState<string | null>(null);
+    const [measured, setMeasured] = useState<{ natural: Rect, bounds: Rect } | null>(null);
+    const profile = profiles.find(item => item.id === profileId) ?? profiles[0];
+
+    useEffect(() => {
+        setMeasured(null);
+        if (!design) return;
+        let isCurrent = true;
+        measureDesign(design, placement.trim)
+            .then(({ image, bounds }) => isCurrent && setMeasured({ natural: { x: 0, y: 0, width: image.width, height: image.height }, bounds }))
+            .catch(() => undefined);
+        return () => { isCurrent = false; };
+    }, [design, placement.trim]);
+
+    const update = (patch: Partial<PrintPlacement>) => onChange({ ...placement, ...patch });
+
+    if (!profile) {
+        return <p className="text-xs text-gray-500 mt-4">Select a print profile to preview the placement.</p>;
+    }
+
+    const bleed = Math.round(profile.bleedInches * profile.dpi);
+    const safeInset = bleed + Math.round(profile.safeMarginInches * profile.dpi);
+    const canvasWidth = profile.width + bleed * 2;
+    const canvasHeight = profile.height + bleed * 2;
+    const asPercent = (value: number, total: number) => `${(value / total) * 100}%`;
+    // Without a design yet, a square stands in for it.
+    const bounds = measured?.bounds ?? { x: 0, y: 0, width: 1, height: 1 };
+    const rect = computePlacement(bounds.width, bounds.height, profile, placement);
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6 mt-4">
+            <div className="space-y-3">
+                <label className="text-xs text-gray-400 flex items-center gap-2">
+                    <input type="checkbox" checked={placement.trim} onChange={(e) => update({ trim: e.target.checked })} className="accent-yellow-400" />
+                    Trim transparent borders
+                </label>
+                <div className="text-xs text-gray-400 flex items-center gap-3">
+                    Align
+                    <div className="flex space-x-1 rounded-lg bg-gray-800 p-1">
+                        {PLACEMENT_ALIGNS.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => update({ align: option.id })}
+                                className={`py-1 px-3 rounded-md font-medium transition-colors ${placement.align === option.id ? 'bg-yellow-400 text-black' : 'text-gray-300 hover:bg-gray-700'}`}
+                            >
+                                {option.name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <label className="text-xs text-gray-400 flex flex-col gap-1">
+                    Max width ({placement.maxWidthPercent}% of the safe area)
+                    <input type="range" min={10} max={100} value={placement.maxWidthPercent} onChange={(e) => update({ maxWidthPercent: Number(e.target.value) })} className="accent-yellow-400" />
+                </label>
+                <label className="text-xs text-gray-400 flex flex-col gap-1">
+                    Offset from top (in)
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.25}
+                        value={placement.offsetTopInches}
+                        onChange={(e) => update({ offsetTopInches: Math.max(0, Number(e.target.value)) })}
+                        disabled={placement.align !== 'top'}
+                        className="w-24 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none disabled:opacity-40"
+                    />
+                </label>
+                {profiles.length > 1 && (
+                    <label className="text-xs text-gray-400 flex flex-col gap-1">
+                        Preview on
+                        <select
+                            value={profile.id}
+                            onChange={(e) => setProfileId(e.target.value)}
+                            className="bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                        >
+                            {profiles.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <div>
+                <div
+                    className="relative w-full max-w-xs mx-auto bg-gray-800 overflow-hidden rounded"
+                    style={{
+                        aspectRatio: `${canvasWidth} / ${canvasHeight}`,
+                        backgroundImage: 'linear-gradient(to right, rgba(255,255,255,0.08) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,255,255,0.08) 1px, transparent 1px)',
+                        backgroundSize: `${asPercent(profile.dpi, canvasWidth)} ${asPercent(profile.dpi, canvasHeight)}`,
+                    }}
+                >
+                    <div
+                        className="absolute border border-dashed border-yellow-400/50"
+                        style={{ left: asPercent(safeInset, canvasWidth), top: asPercent(safeInset, canvasHeight), right: asPercent(safeInset, canvasWidth), bottom: asPercent(safeInset, canvasHeight) }}
+                    />
+                    <div
+                        className="absolute overflow-hidden outline outline-1 outline-yellow-400/70"
+                        style={{ left: asPercent(rect.x, canvasWidth), top: asPercent(rect.y, canvasHeight), width: asPercent(rect.width, canvasWidth), height: asPercent(rect.height, canvasHeight) }}
+                    >
+                        {design && measured ? (
+                            <img
+                                src={design}
+                                alt="Placement preview"
+                                className="absolute max-w-none"
+                                style={{
+                                    width: asPercent(measured.natural.width, bounds.width),
+                                    height: asPercent(measured.natural.height, bounds.height),
+                                    left: asPercent(-bounds.x, bounds.width),
+                                    top: asPercent(-bounds.y, bounds.height),
+                                }}
+                            />
+                        ) : (
+                            <div className="w-full h-full bg-yellow-400/20" />
+                        )}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-500 text-center mt-2">
+                    {profile.name} · grid squares are 1 in · placed {(rect.width / profile.dpi).toFixed(1)} x {(rect.height / profile.dpi).toFixed(1)} in
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default PlacementPanel;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { PreflightIssue, PreflightReport, PrintFileSource, PrintProfile } from '../types';
+import { applyPreflightFix, preflightPrintFile } from '../services/preflight';
+import { isAbortError } from '../services/errors';
+
+interface PreflightPanelProps {
+    imageUrl: string;
+    profile: PrintProfile;
+    /** Used by fixes that move or resize the design, which render the file again. */
+    source: PrintFileSource;
+    onImageChange: (imageUrl: string) => void;
+}
+
+const SEVERITY_STYLES: Record<PreflightIssue['severity'], string> = {
+    error: 'bg-red-900/40 text-red-300',
+    warning: 'bg-yellow-900/40 text-yellow-300',
+    info: 'bg-gray-800 text-gray-300',
+};
+
+const PreflightPanel: React.FC<PreflightPanelProps> = ({ imageUrl, profile, source, onImageChange }) => {
+    const [checked, setChecked] = useState<{ imageUrl: string, report: PreflightReport } | null>(null);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // A re-rendered or fixed file needs a fresh check, and a check of the old one is stopped.
+    const report = checked?.imageUrl === imageUrl ? checked.report : null;
+    useEffect(() => () => abortRef.current?.abort(), [imageUrl]);
+
+    const run = async (label: string, task: (signal: AbortSignal) => Promise<void>) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setBusy(label);
+        setError(null);
+        try {
+            await task(controller.signal);
+        } catch (err: any) {
+            if (!isAbortError(err)) setError(err.message || 'Preflight failed.');
+        } finally {
+            if (abortRef.current === controller) {
+                abortRef.current = null;
+                setBusy(null);
+            }
+        }
+    };
+
+    const handleCheck = () => run('check', async (signal) => setChecked({ imageUrl, report: await preflightPrintFile(imageUrl, profile, signal) }));
+
+    const handleFix = (issue: PreflightIssue) => run(issue.id, async (signal) => {
+        const fixed = await applyPreflightFix(imageUrl, issue.id, profile, source, signal);
+        setChecked({ imageUrl: fixed, report: await preflightPrintFile(fixed, profile, signal) });
+        onImageChange(fixed);
+    });
+
+    return (
+        <div className="mt-4 border-t border-gray-800 pt-4">
+            <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-gray-300">Preflight</span>
+                {busy ? (
+                    <button onClick={() => abortRef.current?.abort()} className="text-sm text-gray-400 hover:text-gray-300">
+                        {busy === 'check' ? 'Checking... Cancel' : 'Cancel fix'}
+                    </button>
+                ) : (
+                    <button onClick={handleCheck} className="text-sm text-yellow-400 hover:text-yellow-300">
+                        {report ? 'Check again' : 'Check print file'}
+                    </button>
+                )}
+            </div>
+            {report && report.issues.length === 0 && <p className="text-xs text-green-400 mt-2">No issues found. Ready to upload.</p>}
+            {report && report.issues.length > 0 && (
+                <ul className="space-y-2 mt-2">
+                    {report.issues.map(issue => (
+                        <li key={issue.id} className={`rounded-md p-2 text-xs ${SEVERITY_STYLES[issue.severity]}`}>
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-semibold">
+                                    <span className="uppercase tracking-wider opacity-70 mr-2">{issue.severity}</span>
+                                    {issue.title}
+                                </span>
+                                {issue.fixable && (
+                                    <button onClick={() => handleFix(issue)} disabled={!!busy} className="underline hover:no-underline disabled:opacity-50 shrink-0">
+                                        {busy === issue.id ? 'Fixing...' : 'Fix'}
+                                    </button>
+                                )}
+                            </div>
+                            <p className="mt-1 opacity-80">{issue.detail}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+        </div>
+    );
+};
+
+export default PreflightPanel;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Status, type PrintFile, type PrintPlacement, type PrintProfile, type UpscaleSettings } from '../types';
+import { GOOD_EFFECTIVE_DPI, getEffectiveDpi, getPrintQuality } from '../services/designService';
+import Button from './Button';
+import PreflightPanel from './PreflightPanel';
+
+interface PrintFileCardProps {
+    printFile: PrintFile;
+    /** The catalog profile the file was rendered from, for its safe margin. Missing if it has since been deleted. */
+    profile?: PrintProfile;
+    /** Pixel size of the design being printed, used for the effective DPI readout. */
+    sourceSize?: { width: number, height: number } | null;
+    placement?: PrintPlacement;
+    /** The transparent design and upscaling the file was rendered with, for preflight fixes that render it again. */
+    design?: string;
+    upscale?: UpscaleSettings;
+    onDownload: (imageUrl: string, name: string) => void;
+    onRetry?: () => void;
+    /** Receives the repaired file when a preflight fix is applied. */
+    onImageChange?: (imageUrl: string) => void;
+}
+
+const QUALITY_STYLES = {
+    good: 'text-green-400',
+    fair: 'text-yellow-400',
+    poor: 'text-red-400',
+};
+
+const PrintFileCard: React.FC<PrintFileCardProps> = ({ printFile, profile, sourceSize, placement, design, upscale, onDownload, onRetry, onImageChange }) => {
+    const { name, width, height, dpi, status, imageUrl, error } = printFile;
+    const physicalSize = `${(width / dpi).toFixed(2).replace(/\.?0+$/, '')} x ${(height / dpi).toFixed(2).replace(/\.?0+$/, '')} in`;
+    const effectiveDpi = sourceSize
+        ? getEffectiveDpi(sourceSize.width, sourceSize.height, profile ?? { id: printFile.id, name, width, height, dpi, bleedInches: 0, safeMarginInches: 0 }, placement)
+        : null;
+    const quality = effectiveDpi === null ? null : getPrintQuality(effectiveDpi);
+
+    return (
+        <div id={`print-file-${printFile.id}`} className="bg-gray-900 rounded-xl p-4 shadow-md flex flex-col scroll-mt-24">
+            <div className="aspect-square rounded-lg bg-grid-pattern overflow-hidden">
+                {status === Status.SUCCESS && <img src={imageUrl!} alt={`${name} print file`} className="w-full h-full object-contain" />}
+                {(status === Status.PENDING || status === Status.IDLE) && <div className="animate-pulse bg-gray-800 w-full h-full" />}
+                {(status === Status.FAILED || status === Status.CANCELLED) && (
+                    <div className="w-full h-full bg-gray-800 flex flex-col items-center justify-center text-center p-4 gap-4">
+                        {status === Status.FAILED
+                            ? <p className="text-red-400" title={error ?? undefined}>Resizing failed</p>
+                            : <p className="text-gray-400">Cancelled</p>}
+                        {onRetry && <Button onClick={onRetry} primary>Retry</Button>}
+                    </div>
+                )}
+            </div>
+            <p className="text-center mt-3 text-lg font-semibold text-gray-300">{name}</p>
+            <p className="text-center text-xs text-gray-500">{width}x{height} px · {dpi} DPI · {physicalSize}</p>
+            {effectiveDpi !== null && quality && sourceSize && (
+                <p className={`text-center text-xs mt-1 ${QUALITY_STYLES[quality]}`}>
+                    Effective {effectiveDpi} DPI from a {sourceSize.width}x{sourceSize.height} px design
+                    {quality === 'fair' && ' · may look soft up close'}
+                    {quality === 'poor' && ` · will look blurry or pixelated at ${physicalSize}; aim for ${GOOD_EFFECTIVE_DPI}+ with a larger source or a smaller print`}
+                </p>
+            )}
+            {status === Status.SUCCESS && (
+                <div className="flex justify-center mt-4">
+                    <Button onClick={() => onDownload(imageUrl!, `${name}-${width}x${height}`)}>Download</Button>
+                </div>
+            )}
+            {status === Status.SUCCESS && profile && design && upscale && placement && onImageChange && (
+                <PreflightPanel imageUrl={imageUrl!} profile={profile} source={{ design, upscale, placement }} onImageChange={onImageChange} />
+            )}
+        </div>
+    );
+};
+
+export default PrintFileCard;
@@ -0,0 +1,168 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Status, type Project } from '../types';
+import { deleteProject, duplicateProject, listProjects, renameProject } from '../services/projectStore';
+import Button from './Button';
+import MarketplaceExportModal from './MarketplaceExportModal';
+
+interface ProjectLibraryProps {
+    onOpen: (project: Project) => void;
+    onBack: () => void;
+}
+
+const getThumbnail = (project: Project): string => {
+    const { steps } = project.pipeline;
+    return steps.removeBackground.output ?? steps.clone.output ?? project.sourceImage;
+};
+
+const ProjectCard: React.FC<{
+    project: Project;
+    isSelected: boolean;
+    onToggleSelected: () => void;
+    onOpen: () => void;
+    onRename: (name: string) => void;
+    onDuplicate: () => void;
+    onDelete: () => void;
+}> = ({ project, isSelected, onToggleSelected, onOpen, onRename, onDuplicate, onDelete }) => {
+    const [name, setName] = useState(project.name);
+    const mockupsDone = project.pipeline.mockups.filter(mockup => mockup.status === Status.SUCCESS).length;
+
+    useEffect(() => setName(project.name), [project.name]);
+
+    const commitName = () => {
+        const trimmed = name.trim();
+        if (trimmed && trimmed !== project.name) {
+            onRename(trimmed);
+        } else {
+            setName(project.name);
+        }
+    };
+
+    return (
+        <div className="bg-gray-900 rounded-xl shadow-lg border border-gray-800 overflow-hidden flex flex-col">
+            <button onClick={onOpen} className="aspect-square bg-grid-pattern" title="Open project">
+                <img src={getThumbnail(project)} alt={project.name} className="w-full h-full object-contain p-2" />
+            </button>
+            <div className="p-4 flex-1 flex flex-col gap-2">
+                <div className="flex items-center gap-2">
+                    <input type="checkbox" checked={isSelected} onChange={onToggleSelected} className="accent-yellow-400" aria-label={`Select ${project.name}`} />
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onBlur={commitName}
+                        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                        className="w-full bg-transparent text-white font-semibold border-b border-transparent hover:border-gray-700 focus:border-yellow-400 outline-none"
+                        aria-label="Project name"
+                    />
+                </div>
+                <p className="text-xs text-gray-500">
+                    {project.mode === 'cloner' ? 'Cloner' : 'Redesign'} · {mockupsDone}/{project.pipeline.mockups.length} mockups · {new Date(project.updatedAt).toLocaleString()}
+                </p>
+                <div className="flex gap-2 mt-auto pt-2">
+                    <Button onClick={onOpen} primary className="flex-1 px-3">Open</Button>
+                    <Button onClick={onDuplicate} className="px-3">Copy</Button>
+                    <Button onClick={onDelete} className="px-3">Delete</Button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpen, onBack }) => {
+    const [projects, setProjects] = useState<Project[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+
+    const refresh = useCallback(async () => {
+        try {
+            setProjects(await listProjects());
+        } catch (err: any) {
+            setError(err.message || 'Could not load the project library.');
+            setProjects([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const runAction = async (action: () => Promise<unknown>) => {
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            setError(err.message || 'The project library could not be updated.');
+        }
+        await refresh();
+    };
+
+    const toggleSelected = (id: string) =>
+        setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+
+    // Exports the selection, or every project when nothing is selected.
+    const exportProjects = (projects ?? []).filter(project => selectedIds.length === 0 || selectedIds.includes(project.id));
+
+    const handleDelete = (project: Project) => {
+        if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+            runAction(() => deleteProject(project.id));
+        }
+    };
+
+    return (
+        <div className="w-full max-w-6xl mx-auto py-12 animate-fade-in">
+            <header className="text-center mb-12">
+                <h1 className="text-5xl md:text-6xl font-caveat text-white tracking-tight">
+                    Project <span className="text-yellow-400">Library</span>
+                </h1>
+                <p className="mt-4 text-lg text-gray-500">Every run is saved in this browser. Reopen one to keep working on it.</p>
+            </header>
+
+            {error && <p className="text-center text-red-400 mb-8">{error}</p>}
+
+            {projects && projects.length > 0 && (
+                <div className="flex flex-wrap justify-center items-center gap-3 mb-8">
+                    <Button onClick={() => setIsExportOpen(true)} disabled={exportProjects.length === 0}>
+                        {selectedIds.length > 0 ? `Export ${exportProjects.length} to CSV` : 'Export All to CSV'}
+                    </Button>
+                    {selectedIds.length > 0 && <Button onClick={() => setSelectedIds([])}>Clear Selection</Button>}
+                </div>
+            )}
+
+            {projects === null ? (
+                <div className="flex justify-center py-16">
+                    <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-yellow-400"></div>
+                </div>
+            ) : projects.length === 0 ? (
+                <p className="text-center text-gray-500 py-16">No saved projects yet. Generate a design and it will show up here.</p>
+            ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+                    {projects.map(project => (
+                        <ProjectCard
+                            key={project.id}
+                            project={project}
+                            isSelected={selectedIds.includes(project.id)}
+                            onToggleSelected={() => toggleSelected(project.id)}
+                            onOpen={() => onOpen(project)}
+                            onRename={(name) => runAction(() => renameProject(project.id, name))}
+                            onDuplicate={() => runAction(() => duplicateProject(project.id))}
+                            onDelete={() => handleDelete(project)}
+                        />
+                    ))}
+                </div>
+            )}
+
+            <footer className="text-center mt-16">
+                <button
+                    onClick={onBack}
+                    className="px-8 py-3 rounded-md font-semibold tracking-wider uppercase transition-all duration-300 bg-yellow-400 text-black hover:bg-yellow-300"
+                >
+                    Back to Studio
+                </button>
+            </footer>
+
+            <MarketplaceExportModal isOpen={isExportOpen} projects={exportProjects} onClose={() => setIsExportOpen(false)} />
+        </div>
+    );
+};
+
+export default ProjectLibrary;
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import type { PipelineStep } from '../types';
+import { buildClonePrompt, hasBackgroundClause } from '../services/designService';
+import Button from './Button';
+
+interface PromptReviewPanelProps {
+    step: PipelineStep;
+    additionalInstructions?: string;
+    onApprove: (prompt: string) => void;
+    onReExtract: () => void;
+}
+
+const PromptReviewPanel: React.FC<PromptReviewPanelProps> = ({ step, additionalInstructions, onApprove, onReExtract }) => {
+    const [prompt, setPrompt] = useState(step.output ?? '');
+
+    useEffect(() => setPrompt(step.output ?? ''), [step.output]);
+
+    const hasInstructions = !!additionalInstructions?.trim();
+    const isMissingBackground = !hasBackgroundClause(prompt);
+
+    return (
+        <div className="max-w-4xl mx-auto mb-12 bg-gray-900/50 p-6 rounded-2xl border border-yellow-400/40 animate-fade-in">
+            <h2 className="text-2xl font-bold text-white">Review the Design Prompt</h2>
+            <p className="text-sm text-gray-400 mt-1">Fix any misread words or fonts, then generate the design from your approved prompt.</p>
+
+            {step.detail && (
+                <details className="mt-4 bg-gray-800/60 rounded-md p-3">
+                    <summary className="text-sm font-semibold text-gray-300 cursor-pointer">Extractor analysis</summary>
+                    <p className="text-sm text-gray-400 mt-2 whitespace-pre-wrap">{step.detail}</p>
+                </details>
+            )}
+
+            <label className="text-sm font-semibold text-gray-400 block mt-4 mb-2">Final prompt</label>
+            <textarea
+                value={prompt}
+                onChange={(e) => setPrompt(e.target.value)}
+                className="w-full h-40 bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 outline-none resize-y"
+                aria-label="Final prompt"
+            />
+            {isMissingBackground && (
+                <p className="text-xs text-yellow-400 mt-2">
+                    The prompt should end with "on a solid black background" or "on a solid white background".
+                    {hasInstructions ? ' Without it, redesign instructions are appended after the background clause and may be ignored.' : ' Local background removal relies on it.'}
+                </p>
+            )}
+            {hasInstructions && (
+                <div className="mt-4">
+                    <p className="text-sm font-semibold text-gray-400 mb-2">Sent to the image model, with your redesign instructions</p>
+                    <p className="text-sm text-gray-400 bg-gray-800/60 rounded-md p-3 whitespace-pre-wrap">{buildClonePrompt(prompt.trim(), additionalInstructions)}</p>
+                </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-4 mt-6">
+                <Button onClick={onReExtract}>Re-extract</Button>
+                <Button onClick={() => setPrompt(step.output ?? '')} disabled={prompt === step.output}>Undo Edits</Button>
+                <Button onClick={() => onApprove(prompt)} disabled={!prompt.trim()} primary>Approve &amp; Generate</Button>
+            </div>
+        </div>
+    );
+};
+
+export default PromptReviewPanel;
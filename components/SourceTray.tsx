@@ -0,0 +1,49 @@
+import React from 'react';
+import type { ImageSource } from '../types';
+
+interface SourceTrayProps {
+    sources: ImageSource[];
+    selectedId: string | null;
+    disabled?: boolean;
+    onSelect: (id: string) => void;
+    onRemove: (id: string) => void;
+    onClear: () => void;
+}
+
+const SourceTray: React.FC<SourceTrayProps> = ({ sources, selectedId, disabled = false, onSelect, onRemove, onClear }) => {
+    if (sources.length === 0) return null;
+    return (
+        <div className="mt-4">
+            <div className="flex justify-between items-baseline mb-2">
+                <p className="text-sm text-gray-400">{sources.length} imported · pick the design to work on</p>
+                <button onClick={onClear} disabled={disabled} className="text-xs text-gray-400 hover:text-white underline disabled:text-gray-600 disabled:no-underline">
+                    Clear
+                </button>
+            </div>
+            <div className="flex gap-2 overflow-x-auto pb-2">
+                {sources.map(source => (
+                    <div key={source.id} className="relative group flex-shrink-0">
+                        <button
+                            onClick={() => onSelect(source.id)}
+                            disabled={disabled}
+                            title={source.file.name}
+                            className={`block w-20 h-20 rounded-lg overflow-hidden bg-gray-800 border-2 transition-colors disabled:cursor-not-allowed ${source.id === selectedId ? 'border-yellow-400' : 'border-gray-700 hover:border-gray-500'}`}
+                        >
+                            <img src={source.previewUrl} alt={source.file.name} className="w-full h-full object-contain" />
+                        </button>
+                        <button
+                            onClick={() => onRemove(source.id)}
+                            disabled={disabled}
+                            className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-black/80 text-white text-xs leading-none opacity-0 group-hover:opacity-100 transition-opacity disabled:hidden"
+                            aria-label={`Remove ${source.file.name}`}
+                        >
+                            &times;
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default SourceTray;
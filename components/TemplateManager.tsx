@@ -0,0 +1,286 @@
+import React, { useState, useRef } from 'react';
+import type { MockupTemplate, Point } from '../types';
+import { deleteTemplate, saveTemplate } from '../services/templateStore';
+import { renderTemplateMockup } from '../services/mockupCompositor';
+import { loadInputSettings, normalizeImageFile } from '../services/imageInput';
+import { loadImage } from '../utils/fileUtils';
+import Button from './Button';
+
+interface TemplateManagerProps {
+    templates: MockupTemplate[];
+    onTemplatesChange: (templates: MockupTemplate[]) => void;
+}
+
+type MapKey = 'displacementMap' | 'shadingMap';
+
+const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+/** A stand-in design for previews, drawn locally so previews work before any design exists. */
+const createSampleDesign = (): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 600;
+    canvas.height = 600;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#FACC15';
+    ctx.beginPath();
+    ctx.arc(300, 240, 180, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#111111';
+    ctx.font = 'bold 96px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('SAMPLE', 300, 540);
+    return canvas.toDataURL('image/png');
+};
+
+const createTemplateDraft = (baseImage: string, width: number, height: number, name: string): MockupTemplate => {
+    const left = width * 0.3;
+    const right = width * 0.7;
+    const top = height * 0.25;
+    const bottom = height * 0.7;
+    return {
+        id: crypto.randomUUID(),
+        name,
+        baseImage,
+        quad: [{ x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom }],
+        displacementMap: null,
+        displacementStrength: 8,
+        shadingMap: null,
+        shadingStrength: 0.6,
+        createdAt: Date.now(),
+    };
+};
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, onTemplatesChange }) => {
+    const [draft, setDraft] = useState<MockupTemplate | null>(null);
+    const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+    const [preview, setPreview] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+    const photoInputRef = useRef<HTMLInputElement>(null);
+    const overlayRef = useRef<SVGSVGElement>(null);
+    const draggingRef = useRef<number | null>(null);
+
+    const update = (patch: Partial<MockupTemplate>) => {
+        setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+        setPreview(null);
+    };
+
+    const openTemplate = async (template: MockupTemplate) => {
+        setError(null);
+        try {
+            const image = await loadImage(template.baseImage);
+            setSize({ width: image.width, height: image.height });
+            setDraft(template);
+            setPreview(null);
+        } catch (err: any) {
+            setError(err.message || 'Could not open this template.');
+        }
+    };
+
+    const handlePhoto = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            // Same input stage as designs, so phone photos are upright and the type is read from the bytes.
+            const { dataUrl, output } = await normalizeImageFile(file, loadInputSettings());
+            setSize({ width: output.width, height: output.height });
+            setDraft(createTemplateDraft(dataUrl, output.width, output.height, file.name.replace(/\.[^.]+$/, '')));
+            setPreview(null);
+        } catch (err: any) {
+            setError(err.message || 'Could not read that photo.');
+        }
+    };
+
+    const handleMap = async (key: MapKey, event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        try {
+            const { dataUrl } = await normalizeImageFile(file, loadInputSettings());
+            update({ [key]: dataUrl });
+        } catch (err: any) {
+            setError(err.message || 'Could not read that map.');
+        }
+    };
+
+    const toImagePoint = (event: React.PointerEvent): Point => {
+        const rect = overlayRef.current!.getBoundingClientRect();
+        return {
+            x: Math.round(Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1) * size!.width),
+            y: Math.round(Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1) * size!.height),
+        };
+    };
+
+    const handlePointerMove = (event: React.PointerEvent) => {
+        const corner = draggingRef.current;
+        if (corner === null || !draft) return;
+        const point = toImagePoint(event);
+        update({ quad: draft.quad.map((p, i) => (i === corner ? point : p)) as MockupTemplate['quad'] });
+    };
+
+    const handlePreview = async () => {
+        if (!draft) return;
+        setIsBusy(true);
+        setError(null);
+        try {
+            setPreview(await renderTemplateMockup(createSampleDesign(), draft));
+        } catch (err: any) {
+            setError(err.message || 'Could not render the preview.');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        if (!draft.name.trim()) {
+            setError('Give the template a name.');
+            return;
+        }
+        setError(null);
+        try {
+            const saved = await saveTemplate({ ...draft, name: draft.name.trim() });
+            const exists = templates.some(template => template.id === saved.id);
+            onTemplatesChange(exists ? templates.map(template => (template.id === saved.id ? saved : template)) : [...templates, saved]);
+            setDraft(null);
+        } catch (err: any) {
+            setError(err.message || 'Could not save the template.');
+        }
+    };
+
+    const handleDelete = async (template: MockupTemplate) => {
+        if (!window.confirm(`Delete the "${template.name}" template? Products using it will fail to render mockups until you pick another.`)) return;
+        try {
+            await deleteTemplate(template.id);
+            onTemplatesChange(templates.filter(item => item.id !== template.id));
+            if (draft?.id === template.id) setDraft(null);
+        } catch (err: any) {
+            setError(err.message || 'Could not delete the template.');
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center justify-between gap-4 mt-12 mb-4">
+                <h2 className="text-3xl font-bold text-white">Mockup Templates</h2>
+                <Button onClick={() => photoInputRef.current?.click()}>Add Template</Button>
+                <input type="file" ref={photoInputRef} onChange={handlePhoto} accept="image/*" className="hidden" />
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+                Photograph a blank product, mark its print area and assign the template to a product. Its mockups are then composited locally instead of generated.
+            </p>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {templates.map(template => (
+                    <div key={template.id} className={`bg-gray-900/50 p-3 rounded-2xl border ${draft?.id === template.id ? 'border-yellow-400' : 'border-gray-800'}`}>
+                        <img src={template.baseImage} alt={template.name} className="w-full aspect-square object-contain rounded-lg" />
+                        <p className="text-sm text-white font-semibold mt-2 truncate">{template.name}</p>
+                        <div className="flex gap-3 mt-2 text-sm">
+                            <button onClick={() => openTemplate(template)} className="text-yellow-400 hover:text-yellow-300">Edit</button>
+                            <button onClick={() => handleDelete(template)} className="text-gray-400 hover:text-red-400">Delete</button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            {templates.length === 0 && !draft && <p className="text-center text-gray-500 py-8">No templates yet. Products use AI scenes for their mockups.</p>}
+
+            {draft && size && (
+                <div className="bg-gray-900/50 p-6 rounded-2xl border border-yellow-400/40 mt-6">
+                    <input
+                        value={draft.name}
+                        onChange={(e) => update({ name: e.target.value })}
+                        placeholder="Template name"
+                        className="w-full bg-gray-800 p-3 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                        aria-label="Template name"
+                    />
+                    <p className="text-sm text-gray-400 mt-4 mb-2">Drag the four corners onto the edges of the print area.</p>
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div className="relative select-none">
+                            <img src={draft.baseImage} alt="Template photo" className="w-full rounded-lg" draggable={false} />
+                            <svg
+                                ref={overlayRef}
+                                viewBox={`0 0 ${size.width} ${size.height}`}
+                                preserveAspectRatio="none"
+                                className="absolute inset-0 w-full h-full touch-none"
+                                onPointerMove={handlePointerMove}
+                                onPointerUp={() => { draggingRef.current = null; }}
+                                onPointerLeave={() => { draggingRef.current = null; }}
+                            >
+                                <polygon
+                                    points={draft.quad.map(p => `${p.x},${p.y}`).join(' ')}
+                                    fill="rgba(250, 204, 21, 0.15)"
+                                    stroke="#FACC15"
+                                    strokeWidth={Math.max(size.width, size.height) / 300}
+                                />
+                                {draft.quad.map((point, index) => (
+                                    <circle
+                                        key={index}
+                                        cx={point.x}
+                                        cy={point.y}
+                                        r={Math.max(size.width, size.height) / 60}
+                                        fill="#FACC15"
+                                        stroke="#000"
+                                        className="cursor-move"
+                                        onPointerDown={(e) => { draggingRef.current = index; e.currentTarget.setPointerCapture(e.pointerId); }}
+                                    >
+                                        <title>{CORNER_LABELS[index]}</title>
+                                    </circle>
+                                ))}
+                            </svg>
+                        </div>
+                        <div className="flex items-center justify-center bg-gray-800/60 rounded-lg min-h-48">
+                            {preview
+                                ? <img src={preview} alt="Template preview" className="w-full rounded-lg" />
+                                : <p className="text-sm text-gray-500 p-4 text-center">Preview the print area with a sample design.</p>}
+                        </div>
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-4 mt-4">
+                        {([
+                            { key: 'displacementMap', strengthKey: 'displacementStrength', label: 'Displacement map', hint: 'Gray shifts the design along folds; strength in pixels.', max: 40, step: 1 },
+                            { key: 'shadingMap', strengthKey: 'shadingStrength', label: 'Shading map', hint: 'Darker areas darken the design.', max: 1, step: 0.05 },
+                        ] as const).map(({ key, strengthKey, label, hint, max, step }) => (
+                            <div key={key} className="bg-gray-800/60 rounded-md p-3">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-sm font-semibold text-gray-300">{label}</span>
+                                    <div className="flex gap-3 text-sm">
+                                        <label className="text-yellow-400 hover:text-yellow-300 cursor-pointer">
+                                            {draft[key] ? 'Replace' : 'Upload'}
+                                            <input type="file" accept="image/*" onChange={(e) => handleMap(key, e)} className="hidden" />
+                                        </label>
+                                        {draft[key] && <button onClick={() => update({ [key]: null })} className="text-gray-400 hover:text-red-400">Remove</button>}
+                                    </div>
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1">{hint}</p>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={max}
+                                    step={step}
+                                    value={draft[strengthKey]}
+                                    onChange={(e) => update({ [strengthKey]: Number(e.target.value) })}
+                                    disabled={!draft[key]}
+                                    className="w-full mt-2 accent-yellow-400 disabled:opacity-40"
+                                    aria-label={`${label} strength`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap justify-end gap-4 mt-6">
+                        <Button onClick={() => setDraft(null)}>Cancel</Button>
+                        <Button onClick={handlePreview} disabled={isBusy}>Preview</Button>
+                        <Button onClick={handleSave} primary>Save Template</Button>
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-center text-red-400 mt-6">{error}</p>}
+        </div>
+    );
+};
+
+export default TemplateManager;
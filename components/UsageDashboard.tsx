@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { UsagePrice, UsagePrices, UsageRecord } from '../types';
+import { USAGE_STEP_LABELS, clearUsage, estimateCost, listUsage, summarizeUsage, toUsageDay, type UsageTotals } from '../services/usageLedger';
+import { downloadBlob } from '../utils/fileUtils';
+import { toCsv } from '../utils/csv';
+import Button from './Button';
+
+interface UsageDashboardProps {
+    prices: UsagePrices;
+    onPricesChange: (prices: UsagePrices) => void;
+    onBack: () => void;
+}
+
+const RECENT_CALL_COUNT = 25;
+
+const PRICE_FIELDS: { key: keyof UsagePrice, label: string }[] = [
+    { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+    { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+    { key: 'perImage', label: 'Per image' },
+];
+
+const OUTCOME_LABELS: Record<UsageRecord['outcome'], string> = { success: 'OK', error: 'Failed', cancelled: 'Cancelled' };
+const OUTCOME_STYLES: Record<UsageRecord['outcome'], string> = { success: 'text-green-400', error: 'text-red-400', cancelled: 'text-gray-400' };
+
+const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+const formatCount = (count: number) => count.toLocaleString();
+
+const TotalsTable: React.FC<{ title: string, rows: UsageTotals[] }> = ({ title, rows }) => (
+    <div className="bg-gray-900 rounded-xl border border-gray-800 p-4 overflow-x-auto">
+        <h2 className="text-lg font-semibold text-white mb-3">{title}</h2>
+        <table className="w-full text-sm">
+            <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-gray-500">
+                    <th className="py-1 pr-3 font-medium"></th>
+                    <th className="py-1 px-2 font-medium text-right">Calls</th>
+                    <th className="py-1 px-2 font-medium text-right">Tokens in / out</th>
+                    <th className="py-1 px-2 font-medium text-right">Images</th>
+                    <th className="py-1 px-2 font-medium text-right">Avg latency</th>
+                    <th className="py-1 pl-2 font-medium text-right">Est. cost</th>
+                </tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.key} className="border-t border-gray-800 text-gray-300">
+                        <td className="py-2 pr-3 max-w-[12rem] truncate" title={row.label}>{row.label}</td>
+                        <td className="py-2 px-2 text-right whitespace-nowrap">
+                            {formatCount(row.calls)}
+                            {row.failures > 0 && <span className="text-red-400"> ({row.failures} failed)</span>}
+                        </td>
+                        <td className="py-2 px-2 text-right whitespace-nowrap">{formatCount(row.promptTokens)} / {formatCount(row.outputTokens)}</td>
+                        <td className="py-2 px-2 text-right">{formatCount(row.images)}</td>
+                        <td className="py-2 px-2 text-right whitespace-nowrap">{(row.latencyMs / row.calls / 1000).toFixed(1)} s</td>
+                        <td className="py-2 pl-2 text-right text-yellow-400">{formatCost(row.cost)}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ prices, onPricesChange, onBack }) => {
+    const [records, setRecords] = useState<UsageRecord[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setRecords(await listUsage());
+        } catch (err: any) {
+            setError(err.message || 'Could not load the usage ledger.');
+            setRecords([]);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const all = records ?? [];
+    const [overall] = summarizeUsage(all, prices, () => ({ key: 'all', label: 'All' }));
+    const byDay = summarizeUsage(all, prices, record => ({ key: toUsageDay(record.timestamp), label: toUsageDay(record.timestamp) }))
+        .sort((a, b) => b.key.localeCompare(a.key));
+    const byProject = summarizeUsage(all, prices, record => ({ key: record.projectId ?? '', label: record.projectName ?? 'Outside a project' }))
+        .sort((a, b) => b.cost - a.cost);
+    const byStep = summarizeUsage(all, prices, record => ({ key: record.step, label: USAGE_STEP_LABELS[record.step] ?? record.step }))
+        .sort((a, b) => b.cost - a.cost);
+    const models = [...new Set([...Object.keys(prices), ...all.map(record => record.model)])];
+
+    const updatePrice = (model: string, key: keyof UsagePrice, value: number) => {
+        const current = prices[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+        onPricesChange({ ...prices, [model]: { ...current, [key]: Number.isFinite(value) ? Math.max(0, value) : 0 } });
+    };
+
+    const handleExport = () => {
+        const rows = all.map(record => [
+            new Date(record.timestamp).toISOString(),
+            record.projectName ?? '',
+            record.step,
+            record.service,
+            record.model,
+            record.promptTokens,
+            record.outputTokens,
+            record.totalTokens,
+            record.images,
+            record.latencyMs,
+            record.outcome,
+            record.error ?? '',
+            estimateCost(record, prices).toFixed(6),
+        ]);
+        const header = ['timestamp', 'project', 'step', 'service', 'model', 'prompt_tokens', 'output_tokens', 'total_tokens', 'images', 'latency_ms', 'outcome', 'error', 'estimated_cost_usd'];
+        downloadBlob(new Blob([toCsv([header, ...rows])], { type: 'text/csv' }), 'api-usage.csv');
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete every recorded API call? This cannot be undone.')) return;
+        setError(null);
+        try {
+            await clearUsage();
+        } catch (err: any) {
+            setError(err.message || 'Could not clear the usage ledger.');
+        }
+        await refresh();
+    };
+
+    return (
+        <div className="w-full max-w-6xl mx-auto py-12 animate-fade-in">
+            <header className="text-center mb-12">
+                <h1 className="text-5xl md:text-6xl font-caveat text-white tracking-tight">
+                    API <span className="text-yellow-400">Usage</span>
+                </h1>
+                <p className="mt-4 text-lg text-gray-500">Every Gemini and Photoroom call made from this browser, with estimated costs.</p>
+            </header>
+
+            {error && <p className="text-center text-red-400 mb-8">{error}</p>}
+
+            {records === null ? (
+                <div className="flex justify-center py-16">
+                    <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-yellow-400"></div>
+                </div>
+            ) : records.length === 0 ? (
+                <p className="text-center text-gray-500 py-16">No API calls recorded yet. Run a design and its calls will show up here.</p>
+            ) : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                        {[
+                            { label: 'Calls', value: formatCount(overall.calls) },
+                            { label: 'Failed', value: formatCount(overall.failures) },
+                            { label: 'Tokens', value: formatCount(overall.totalTokens) },
+                            { label: 'Estimated cost', value: formatCost(overall.cost) },
+                        ].map(card => (
+                            <div key={card.label} className="bg-gray-900 rounded-xl border border-gray-800 p-4">
+                                <p className="text-xs uppercase tracking-wider text-gray-500">{card.label}</p>
+                                <p className="text-2xl font-semibold text-white mt-1">{card.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap justify-center gap-3">
+                        <Button onClick={handleExport}>Export CSV</Button>
+                        <Button onClick={handleClear}>Clear Ledger</Button>
+                    </div>
+                    <TotalsTable title="Per Day" rows={byDay} />
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <TotalsTable title="Per Project" rows={byProject} />
+                        <TotalsTable title="Per Step" rows={byStep} />
+                    </div>
+                    <div className="bg-gray-900 rounded-xl border border-gray-800 p-4 overflow-x-auto">
+                        <h2 className="text-lg font-semibold text-white mb-3">Recent Calls</h2>
+                        <table className="w-full text-sm">
+                            <tbody>
+                                {all.slice(-RECENT_CALL_COUNT).reverse().map(record => (
+                                    <tr key={record.id} className="border-t border-gray-800 text-gray-300 first:border-t-0">
+                                        <td className="py-2 pr-3 whitespace-nowrap text-gray-500">{new Date(record.timestamp).toLocaleString()}</td>
+                                        <td className="py-2 px-2 max-w-[10rem] truncate">{record.projectName ?? '—'}</td>
+                                        <td className="py-2 px-2 whitespace-nowrap">{USAGE_STEP_LABELS[record.step] ?? record.step}</td>
+                                        <td className="py-2 px-2 whitespace-nowrap text-gray-500">{record.model}</td>
+                                        <td className="py-2 px-2 text-right whitespace-nowrap">{(record.latencyMs / 1000).toFixed(1)} s</td>
+                                        <td className={`py-2 pl-2 text-right ${OUTCOME_STYLES[record.outcome]}`} title={record.error}>
+                                            {OUTCOME_LABELS[record.outcome]}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <div className="bg-gray-900 rounded-xl border border-gray-800 p-4 mt-6 overflow-x-auto">
+                <h2 className="text-lg font-semibold text-white">Prices (USD)</h2>
+                <p className="text-xs text-gray-500 mt-1 mb-3">Used for the estimates above. Check them against your plan; changes apply to past calls too.</p>
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-xs uppercase tracking-wider text-gray-500">
+                            <th className="py-1 pr-3 font-medium">Model</th>
+                            {PRICE_FIELDS.map(field => <th key={field.key} className="py-1 px-2 font-medium">{field.label}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(model => (
+                            <tr key={model} className="border-t border-gray-800">
+                                <td className="py-2 pr-3 text-gray-300 whitespace-nowrap">{model}</td>
+                                {PRICE_FIELDS.map(field => (
+                                    <td key={field.key} className="py-2 px-2">
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="any"
+                                            value={prices[model]?.[field.key] ?? 0}
+                                            onChange={(e) => updatePrice(model, field.key, Number(e.target.value))}
+                                            className="w-28 bg-gray-800 p-2 rounded-md text-gray-200 border border-gray-700 focus:ring-2 focus:ring-yellow-400 outline-none"
+                                            aria-label={`${model} ${field.label}`}
+                                        />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <footer className="text-center mt-16">
+                <button
+                    onClick={onBack}
+                    className="px-8 py-3 rounded-md font-semibold tracking-wider uppercase transition-all duration-300 bg-yellow-400 text-black hover:bg-yellow-300"
+                >
+                    Back to Studio
+                </button>
+            </footer>
+        </div>
+    );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import type { VectorizeSettings } from '../types';
+import { loadVectorizeSettings, saveVectorizeSettings, vectorizeDesign } from '../services/vectorizer';
+import { downloadBlob } from '../utils/fileUtils';
+import Button from './Button';
+
+interface VectorizePanelProps {
+    /** The background-removed design. */
+    design: string;
+    fileName: string;
+}
+
+const VECTORIZE_FIELDS: { key: keyof VectorizeSettings, label: string, min: number, max: number, step: number }[] = [
+    { key: 'colors', label: 'Colors', min: 2, max: 16, step: 1 },
+    { key: 'smoothing', label: 'Smoothing', min: 0, max: 100, step: 5 },
+    { key: 'speckleSize', label: 'Speckle filter (px)', min: 0, max: 400, step: 4 },
+];
+
+const VectorizePanel: React.FC<VectorizePanelProps> = ({ design, fileName }) => {
+    const [settings, setSettings] = useState<VectorizeSettings>(loadVectorizeSettings);
+    const [svg, setSvg] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isTracing, setIsTracing] = useState(false);
+
+    // A new design invalidates the last trace.
+    useEffect(() => setSvg(null), [design]);
+
+    const update = (patch: Partial<VectorizeSettings>) => {
+        setSettings(prev => ({ ...prev, ...patch }));
+        setSvg(null);
+    };
+
+    const handleTrace = async () => {
+        setIsTracing(true);
+        setError(null);
+        try {
+            setSvg(await vectorizeDesign(design, settings));
+            saveVectorizeSettings(settings);
+        } catch (err: any) {
+            setError(err.message || 'Could not vectorize the design.');
+        } finally {
+            setIsTracing(false);
+        }
+    };
+
+    const layerCount = svg ? (svg.match(/<g /g) ?? []).length : 0;
+
+    return (
+        <div className="bg-gray-900 rounded-xl p-4 shadow-md flex flex-col">
+            <div className="aspect-square rounded-lg bg-grid-pattern overflow-hidden flex items-center justify-center">
+                {svg
+                    ? <img src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`} alt="Vectorized design" className="w-full h-full object-contain" />
+                    : <p className="text-sm text-gray-500 p-4 text-center">{isTracing ? 'Tracing...' : 'Trace the design into a layered SVG for vinyl, embroidery and other vector workflows.'}</p>}
+            </div>
+            <p className="text-center mt-3 text-lg font-semibold text-gray-300">Vector (SVG)</p>
+            <p className="text-center text-xs text-gray-500">{svg ? `${layerCount} color ${layerCount === 1 ? 'layer' : 'layers'}` : 'Not traced yet'}</p>
+            <div className="space-y-2 mt-4">
+                {VECTORIZE_FIELDS.map(({ key, label, min, max, step }) => (
+                    <label key={key} className="text-xs text-gray-400 flex items-center gap-3">
+                        <span className="w-32 shrink-0">{label}</span>
+                        <input
+                            type="range"
+                            min={min}
+                            max={max}
+                            step={step}
+                            value={settings[key]}
+                            onChange={(e) => update({ [key]: Number(e.target.value) })}
+                            className="w-full accent-yellow-400"
+                        />
+                        <span className="w-8 text-right text-gray-300">{settings[key]}</span>
+                    </label>
+                ))}
+            </div>
+            {error && <p className="text-center text-red-400 text-sm mt-3">{error}</p>}
+            <div className="flex justify-center gap-4 mt-4">
+                <Button onClick={handleTrace} disabled={isTracing}>{svg ? 'Re-trace' : 'Trace'}</Button>
+                <Button
+                    onClick={() => downloadBlob(new Blob([svg!], { type: 'image/svg+xml' }), `${fileName}.svg`)}
+                    disabled={!svg}
+                >
+                    Download
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default VectorizePanel;
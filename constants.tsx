@@ -1,18 +1,47 @@
 
 import React from 'react';
-import { Products } from './types';
+import { PrintProfile, ProductColor, Products } from './types';
 
 export const PRODUCTS: Products = {
-    't-shirt': { name: 'T-Shirt', prompt: 'The design is on the chest of a high-quality t-shirt worn by a mannequin in a bright, minimalist studio setting.' },
-    'sweatshirt': { name: 'Sweatshirt', prompt: 'The design is on the chest of a cozy sweatshirt, neatly folded and laid flat on a rustic wooden surface.' },
-    'hoodie': { name: 'Hoodie', prompt: 'The design is on the chest of a stylish hoodie worn by a person against a blurred urban background, creating a streetwear vibe.' },
-    'mug': { name: 'Mug', prompt: 'Create a close-up, high-detail photorealistic mockup of the design printed on a glossy ceramic coffee mug. The mug should be the central focus of the image, large and clear, against a clean, minimalist background like a marble countertop. Emphasize the quality of the print on the mug.' },
-    'tote-bag': { name: 'Tote Bag', prompt: 'The design is printed on a natural canvas tote bag being held by a person with a fashionable outfit.' },
-    'canvas': { name: 'Canvas Art', prompt: 'The design is printed on a large canvas frame, hanging on a modern, well-lit living room wall next to a houseplant.' },
-    'phone-case': { name: 'Phone Case', prompt: 'The design is printed on a sleek, matte-finish phone case, held in a hand against a clean, modern background.' },
-    'poster': { name: 'Poster', prompt: 'The design is printed on a high-quality, semi-gloss poster, shown hanging flat on a concrete wall in a contemporary artist loft.' },
+    't-shirt': { name: 'T-Shirt', prompt: 'The design is on the chest of a high-quality t-shirt worn by a mannequin in a bright, minimalist studio setting.', printProfileId: 'shirt-front' },
+    'sweatshirt': { name: 'Sweatshirt', prompt: 'The design is on the chest of a cozy sweatshirt, neatly folded and laid flat on a rustic wooden surface.', printProfileId: 'shirt-front' },
+    'hoodie': { name: 'Hoodie', prompt: 'The design is on the chest of a stylish hoodie worn by a person against a blurred urban background, creating a streetwear vibe.', printProfileId: 'shirt-front' },
+    'mug': { name: 'Mug', prompt: 'Create a close-up, high-detail photorealistic mockup of the design printed on a glossy ceramic coffee mug. The mug should be the central focus of the image, large and clear, against a clean, minimalist background like a marble countertop. Emphasize the quality of the print on the mug.', printProfileId: 'mug-11oz-wrap' },
+    'tote-bag': { name: 'Tote Bag', prompt: 'The design is printed on a natural canvas tote bag being held by a person with a fashionable outfit.', printProfileId: 'tote-bag' },
+    'canvas': { name: 'Canvas Art', prompt: 'The design is printed on a large canvas frame, hanging on a modern, well-lit living room wall next to a houseplant.', printProfileId: 'canvas-16x20' },
+    'phone-case': { name: 'Phone Case', prompt: 'The design is printed on a sleek, matte-finish phone case, held in a hand against a clean, modern background.', printProfileId: 'phone-case' },
+    'poster': { name: 'Poster', prompt: 'The design is printed on a high-quality, semi-gloss poster, shown hanging flat on a concrete wall in a contemporary artist loft.', printProfileId: 'poster-18x24' },
 };
 
+export const DEFAULT_MAX_SELECTED_PRODUCTS = 6;
+
+export const DETECTED_COLOR: ProductColor = { name: 'Detected', hex: null };
+
+/** Template mockups keep whatever color the product was photographed in. */
+export const TEMPLATE_PHOTO_COLOR: ProductColor = { name: 'As photographed', hex: null };
+
+export const COLOR_PRESETS: ProductColor[] = [
+    { name: 'Black', hex: '#111111' },
+    { name: 'White', hex: '#FFFFFF' },
+    { name: 'Navy', hex: '#1F2A44' },
+    { name: 'Heather Gray', hex: '#9CA3AF' },
+    { name: 'Red', hex: '#B91C1C' },
+    { name: 'Royal Blue', hex: '#1D4ED8' },
+    { name: 'Forest Green', hex: '#1E4D2B' },
+    { name: 'Sand', hex: '#D6C7A1' },
+];
+
+export const DEFAULT_PRINT_PROFILES: PrintProfile[] = [
+    { id: 'shirt-front', name: 'Shirt Front', width: 4500, height: 5400, dpi: 300, bleedInches: 0, safeMarginInches: 0 },
+    { id: 'mug-11oz-wrap', name: '11oz Mug Wrap', width: 2475, height: 1155, dpi: 300, bleedInches: 0.125, safeMarginInches: 0.25 },
+    { id: 'tote-bag', name: 'Tote Bag', width: 3600, height: 3600, dpi: 300, bleedInches: 0, safeMarginInches: 0.5 },
+    { id: 'canvas-16x20', name: 'Canvas 16x20 in', width: 4800, height: 6000, dpi: 300, bleedInches: 1.5, safeMarginInches: 0.25 },
+    { id: 'phone-case', name: 'Phone Case Template', width: 1200, height: 2400, dpi: 300, bleedInches: 0.0625, safeMarginInches: 0.2 },
+    { id: 'poster-18x24', name: 'Poster 18x24 in', width: 5400, height: 7200, dpi: 300, bleedInches: 0.125, safeMarginInches: 0.25 },
+    { id: 'poster-12x18', name: 'Poster 12x18 in', width: 3600, height: 5400, dpi: 300, bleedInches: 0.125, safeMarginInches: 0.25 },
+    { id: 'square-8x8', name: 'Square 8x8 in', width: 2400, height: 2400, dpi: 300, bleedInches: 0.125, safeMarginInches: 0.125 },
+];
+
 export const IconUpload = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-10 h-10"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" /></svg>;
 export const IconSparkles = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6"><path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904 9 18.75l-.813-2.846a4.5 4.5 0 0 0-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 0 0 3.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 0 0 3.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 0 0-3.09 3.09ZM18.259 8.715 18 9.75l-.259-1.035a3.375 3.375 0 0 0-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 0 0 2.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 0 0 2.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 0 0-2.456 2.456ZM16.894 20.567 16.5 21.75l-.394-1.183a2.25 2.25 0 0 0-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 0 0 1.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 0 0 1.423 1.423l1.183.394-1.183.394a2.25 2.25 0 0 0-1.423 1.423Z" /></svg>;
 export const IconDownload = () => <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" /></svg>;
@@ -0,0 +1,158 @@
+import { request as httpRequest, createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { ExtractedDesign, ProductDetails, ProxyHealth, ProxyResponse } from '../types';
+import type { SerializedStudioError } from '../services/errors';
+import { createProxyHandler } from './proxyServer';
+import { createStubUpstream, type Upstream } from './upstream';
+
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+
+let server: Server | null = null;
+
+const startProxy = async (upstream: Upstream = createStubUpstream()) => {
+    const handler = createProxyHandler(upstream);
+    server = createServer((req, res) => handler(req, res, () => {
+        res.statusCode = 404;
+        res.end();
+    }));
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve) ?? resolve(undefined));
+    server = null;
+});
+
+/** Replies are errors unless the caller says which successful body it expects. */
+interface ProxyReply<T> {
+    status: number;
+    body: T;
+}
+
+const send = <T = SerializedStudioError>(host: string, path: string, { method = 'POST', headers = {}, body }: { method?: string, headers?: Record<string, string>, body?: string } = {}) =>
+    new Promise<ProxyReply<T>>((resolve, reject) => {
+        const req = httpRequest(`http://${host}${path}`, { method, headers }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null') as T }));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+
+const postJson = <T = SerializedStudioError>(host: string, path: string, body: unknown, headers: Record<string, string> = {}) =>
+    send<T>(host, path, { headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify(body) });
+
+describe('proxy request checks', () => {
+    it('rejects bodies that are not JSON with 415', async () => {
+        const host = await startProxy();
+        const reply = await send(host, '/api/proxy/extract', { headers: { 'Content-Type': 'text/plain' }, body: JSON.stringify({ image: IMAGE }) });
+        expect(reply.status).toBe(415);
+        expect(reply.body.kind).toBe('invalidRequest');
+    });
+
+    it('rejects requests from another origin with 403', async () => {
+        const host = await startProxy();
+        const fromOtherSite = await postJson(host, '/api/proxy/extract', { image: IMAGE }, { origin: 'https://evil.example' });
+        const crossSite = await postJson(host, '/api/proxy/extract', { image: IMAGE }, { 'sec-fetch-site': 'cross-site' });
+        expect(fromOtherSite.status).toBe(403);
+        expect(crossSite.status).toBe(403);
+        expect(fromOtherSite.body.kind).toBe('invalidRequest');
+    });
+
+    it('accepts requests from its own origin', async () => {
+        const host = await startProxy();
+        const reply = await postJson(host, '/api/proxy/color', { image: IMAGE }, { origin: `http://${host}`, 'sec-fetch-site': 'same-origin' });
+        expect(reply.status).toBe(200);
+    });
+});
+
+describe('proxy endpoints through the stub upstream', () => {
+    it.each([
+        ['extract', {}],
+        ['color', {}],
+        ['clone', { prompt: 'A mountain on a solid black background' }],
+        ['mockup', { prompt: 'A black t-shirt' }],
+        ['remove-background', {}],
+        ['details', {}],
+    ])('answers %s', async (endpoint, extra) => {
+        const host = await startProxy();
+        const reply = await postJson<ProxyResponse>(host, `/api/proxy/${endpoint}`, { image: IMAGE, ...extra });
+        expect(reply.status).toBe(200);
+        expect(reply.body).toHaveProperty('result');
+        expect(reply.body).toHaveProperty('usage');
+    });
+
+    it('returns fixture text and echoes images', async () => {
+        const host = await startProxy();
+        const extract = await postJson<ProxyResponse<ExtractedDesign>>(host, '/api/proxy/extract', { image: IMAGE });
+        const clone = await postJson<ProxyResponse<string>>(host, '/api/proxy/clone', { image: IMAGE, prompt: 'p' });
+        const details = await postJson<ProxyResponse<ProductDetails>>(host, '/api/proxy/details', { image: IMAGE });
+        expect(typeof extract.body.result.prompt).toBe('string');
+        expect(clone.body).toEqual({ result: IMAGE, usage: { images: 1 } });
+        expect(Object.keys(details.body.result).sort()).toEqual(['description', 'tags', 'title']);
+    });
+
+    it('reports the stub on the health endpoint', async () => {
+        const host = await startProxy();
+        const reply = await send<ProxyHealth>(host, '/api/proxy/health', { method: 'GET' });
+        expect(reply.body).toEqual({ upstream: 'stub', keys: { gemini: false, photoroom: false } });
+    });
+
+    it.each([
+        ['malformed JSON', '{"image":'],
+        ['a missing image', JSON.stringify({ prompt: 'p' })],
+        ['an image that is not a data URL', JSON.stringify({ image: 'https://example.com/a.png' })],
+    ])('rejects %s with 400', async (_case, body) => {
+        const host = await startProxy();
+        const reply = await send(host, '/api/proxy/extract', { headers: { 'Content-Type': 'application/json' }, body });
+        expect(reply.status).toBe(400);
+        expect(reply.body.kind).toBe('invalidRequest');
+    });
+
+    it('rejects a clone without a prompt', async () => {
+        const host = await startProxy();
+        const reply = await postJson(host, '/api/proxy/clone', { image: IMAGE });
+        expect(reply.status).toBe(400);
+    });
+
+    it('rejects other methods with 405', async () => {
+        const host = await startProxy();
+        const reply = await send(host, '/api/proxy/extract', { method: 'GET' });
+        expect(reply.status).toBe(405);
+        expect(reply.body.kind).toBe('invalidRequest');
+    });
+
+    it('rejects unknown endpoints with 404', async () => {
+        const host = await startProxy();
+        const reply = await postJson(host, '/api/proxy/upscale', { image: IMAGE });
+        expect(reply.status).toBe(404);
+    });
+
+    it('aborts the upstream call when the app goes away', async () => {
+        let onStarted!: () => void;
+        let onAborted!: () => void;
+        const started = new Promise<void>(resolve => (onStarted = resolve));
+        const aborted = new Promise<void>(resolve => (onAborted = resolve));
+        const host = await startProxy({
+            ...createStubUpstream(),
+            generateImage: (_prompt, _image, _measure, signal) => new Promise((_resolve, reject) => {
+                signal.addEventListener('abort', () => {
+                    onAborted();
+                    reject(signal.reason);
+                });
+                onStarted();
+            }),
+        });
+
+        const req = httpRequest(`http://${host}/api/proxy/clone`, { method: 'POST', headers: { 'Content-Type': 'application/json' } });
+        req.on('error', () => {});
+        req.end(JSON.stringify({ image: IMAGE, prompt: 'p' }));
+        await started;
+        req.destroy();
+
+        await expect(aborted).resolves.toBeUndefined();
+    });
+});
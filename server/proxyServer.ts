@@ -0,0 +1,181 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { PROXY_BASE_PATH, type ProxyEndpoint, type ProxyRequest, type ProxyResponse, type StudioErrorKind, type UsageMetrics } from '../types';
+import { InvalidRequestError, isAbortError, serializeStudioError, toStudioError } from '../services/errors';
+import type { UsageMeasure } from '../services/usageLedger';
+import { createLiveUpstream, createStubUpstream, type Upstream } from './upstream';
+
+/** Generated images come back as data URLs, so requests carrying one are a few megabytes. */
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+type Operation = (upstream: Upstream, request: ProxyRequest, measure: UsageMeasure, signal: AbortSignal) => Promise<unknown>;
+
+const OPERATIONS: Record<ProxyEndpoint, Operation> = {
+    'extract': (upstream, { image }, measure, signal) => upstream.extractDesignPrompt(image, measure, signal),
+    'color': (upstream, { image }, measure, signal) => upstream.analyzeImageColor(image, measure, signal),
+    'clone': (upstream, { image, prompt }, measure, signal) => upstream.generateImage(prompt!, image, measure, signal),
+    'mockup': (upstream, { image, prompt }, measure, signal) => upstream.generateImage(prompt!, image, measure, signal),
+    'remove-background': (upstream, { image }, measure, signal) => upstream.removeBackground(image, measure, signal),
+    'details': (upstream, { image }, measure, signal) => upstream.generateProductDetails(image, measure, signal),
+};
+
+/** The status sent for errors raised before any upstream answered, such as a missing key. */
+const KIND_STATUS: Record<StudioErrorKind, number> = {
+    safety: 502,
+    rateLimit: 429,
+    auth: 401,
+    network: 502,
+    badOutput: 502,
+    invalidRequest: 400,
+    processing: 500,
+};
+
+const badRequest = (message: string, status = 400) =>
+    new InvalidRequestError(message, { title: 'Bad proxy request', status });
+
+/** Picks the upstream from the environment: `PROXY_UPSTREAM=stub` runs offline, anything else calls the live services. */
+export const createUpstreamFromEnv = (env: Record<string, string | undefined>): Upstream =>
+    env.PROXY_UPSTREAM === 'stub'
+        ? createStubUpstream()
+        : createLiveUpstream(env.GEMINI_API_KEY ?? '', env.PHOTOROOM_API_KEY ?? '');
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            // Drain the rest so the error can still be sent back.
+            req.removeAllListeners('data');
+            req.resume();
+            reject(badRequest('The image is too large for the proxy.', 413));
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+/** Reads the request from an untrusted body. */
+const parseRequest = (endpoint: ProxyEndpoint, body: string): ProxyRequest => {
+    let value: Partial<ProxyRequest>;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw badRequest('The request body is not JSON.');
+    }
+    if (typeof value?.image !== 'string' || !value.image.startsWith('data:image/')) {
+        throw badRequest('The request needs an image as a data URL.');
+    }
+    const needsPrompt = endpoint === 'clone' || endpoint === 'mockup';
+    if (needsPrompt && typeof value.prompt !== 'string') {
+        throw badRequest('The request needs a prompt.');
+    }
+    return { image: value.image, ...(needsPrompt ? { prompt: value.prompt } : {}) };
+};
+
+/**
+ * Browsers label every request with where it came from, so a page on another
+ * site cannot spend the server's keys. Requests without either header come
+ * from outside a browser, such as scripts on this machine, and are let through.
+ */
+const isSameOrigin = (req: IncomingMessage): boolean => {
+    const site = req.headers['sec-fetch-site'];
+    if (site !== undefined && site !== 'same-origin') return false;
+    const origin = req.headers.origin;
+    if (origin === undefined) return true;
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * A form post or a `no-cors` fetch can only send form or plain-text bodies
+ * without asking first; insisting on JSON forces a CORS preflight, which the
+ * proxy never approves.
+ */
+const isJsonRequest = (req: IncomingMessage): boolean =>
+    req.headers['content-type']?.split(';')[0].trim().toLowerCase() === 'application/json';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Cache-Control', 'no-store');
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Connect-style middleware serving the proxy endpoints. Each call runs the
+ * same service code the app uses in direct mode, so errors are classified
+ * the same way; they are sent back serialized with the upstream status, and
+ * the app rebuilds them. The upstream call is aborted if the app goes away.
+ */
+export const createProxyHandler = (upstream: Upstream) =>
+    async (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+        const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+        if (!path.startsWith(`${PROXY_BASE_PATH}/`)) {
+            next();
+            return;
+        }
+        const route = path.slice(PROXY_BASE_PATH.length + 1);
+
+        if (route === 'health') {
+            sendJson(res, 200, upstream.health);
+            return;
+        }
+        if (!Object.hasOwn(OPERATIONS, route)) {
+            sendJson(res, 404, serializeStudioError(badRequest(`There is no proxy endpoint named "${route}".`, 404)));
+            return;
+        }
+        if (req.method !== 'POST') {
+            res.setHeader('Allow', 'POST');
+            sendJson(res, 405, serializeStudioError(badRequest(`Use POST for ${path}.`, 405)));
+            return;
+        }
+
+        if (!isSameOrigin(req)) {
+            sendJson(res, 403, serializeStudioError(badRequest('The proxy only answers the app it is served with.', 403)));
+            return;
+        }
+        if (!isJsonRequest(req)) {
+            sendJson(res, 415, serializeStudioError(badRequest('Send the request as application/json.', 415)));
+            return;
+        }
+
+        const endpoint = route as ProxyEndpoint;
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableEnded) controller.abort();
+        });
+
+        try {
+            const request = parseRequest(endpoint, await readBody(req));
+            const usage: Partial<UsageMetrics> = {};
+            const measure: UsageMeasure = (update) => Object.assign(usage, update);
+            const result = await OPERATIONS[endpoint](upstream, request, measure, controller.signal);
+            const response: ProxyResponse = { result, usage };
+            sendJson(res, 200, response);
+        } catch (err) {
+            if (isAbortError(err) || res.destroyed) return;
+            const error = toStudioError(err, 'The proxy upstream');
+            if (error.kind === 'processing') console.error(`Proxy ${endpoint} failed:`, err);
+            sendJson(res, error.status ?? KIND_STATUS[error.kind], serializeStudioError(error));
+        }
+    };
+
+/** Serves the proxy from the Vite dev and preview servers, so it starts alongside the app. */
+export const proxyServerPlugin = (env: Record<string, string | undefined>): Plugin => {
+    const handler = createProxyHandler(createUpstreamFromEnv(env));
+    return {
+        name: 'studio-proxy-server',
+        configureServer: (server) => {
+            server.middlewares.use(handler);
+        },
+        configurePreviewServer: (server) => {
+            server.middlewares.use(handler);
+        },
+    };
+};
@@ -0,0 +1,61 @@
+import type { ExtractedDesign, ProductDetails, ProxyHealth } from '../types';
+import { parseExtractedPrompt } from '../services/designExtractor';
+import { AuthError } from '../services/errors';
+import { analyzeImageColor, extractDesignPrompt, generateImage, generateProductDetails } from '../services/providers/geminiApi';
+import { FIXTURE_EXTRACTOR_RESPONSE, FIXTURE_PRODUCT_COLOR, FIXTURE_PRODUCT_DETAILS } from '../services/providers/mockFixtures';
+import { removeBackground } from '../services/providers/photoroom';
+import type { UsageMeasure } from '../services/usageLedger';
+
+/** The services behind the proxy, with the keys already applied. */
+export interface Upstream {
+    health: ProxyHealth;
+    extractDesignPrompt: (image: string, measure: UsageMeasure, signal: AbortSignal) => Promise<ExtractedDesign>;
+    analyzeImageColor: (image: string, measure: UsageMeasure, signal: AbortSignal) => Promise<string>;
+    generateImage: (prompt: string, image: string, measure: UsageMeasure, signal: AbortSignal) => Promise<string>;
+    removeBackground: (image: string, measure: UsageMeasure, signal: AbortSignal) => Promise<string>;
+    generateProductDetails: (image: string, measure: UsageMeasure, signal: AbortSignal) => Promise<ProductDetails>;
+}
+
+/** Says which variable to set, since the key cannot be fixed from the app in proxy mode. */
+const requireKey = (key: string, name: string, variable: string): string => {
+    if (!key) {
+        throw new AuthError(`The proxy server has no ${name} key. Set ${variable} in .env.local and restart it.`, { title: `${name} key missing` });
+    }
+    return key;
+};
+
+/** Gemini and Photoroom, called with keys that only the server knows. */
+export const createLiveUpstream = (geminiApiKey: string, photoroomApiKey: string): Upstream => {
+    const gemini = () => requireKey(geminiApiKey, 'Gemini', 'GEMINI_API_KEY');
+    return {
+        health: { upstream: 'live', keys: { gemini: !!geminiApiKey, photoroom: !!photoroomApiKey } },
+        extractDesignPrompt: async (image, measure, signal) => extractDesignPrompt(gemini(), image, measure, signal),
+        analyzeImageColor: async (image, measure, signal) => analyzeImageColor(gemini(), image, measure, signal),
+        generateImage: async (prompt, image, measure, signal) => generateImage(gemini(), prompt, image, measure, signal),
+        removeBackground: async (image, measure, signal) => {
+            const result = await removeBackground(requireKey(photoroomApiKey, 'Photoroom', 'PHOTOROOM_API_KEY'), image, signal);
+            measure({ images: 1 });
+            return result;
+        },
+        generateProductDetails: async (image, measure, signal) => generateProductDetails(gemini(), image, measure, signal),
+    };
+};
+
+/**
+ * Answers every call offline with the mock provider's fixture text. There is
+ * no canvas on the server, so image calls return the input image unchanged.
+ */
+export const createStubUpstream = (): Upstream => ({
+    health: { upstream: 'stub', keys: { gemini: false, photoroom: false } },
+    extractDesignPrompt: async () => parseExtractedPrompt(FIXTURE_EXTRACTOR_RESPONSE),
+    analyzeImageColor: async () => FIXTURE_PRODUCT_COLOR,
+    generateImage: async (_prompt, image, measure) => {
+        measure({ images: 1 });
+        return image;
+    },
+    removeBackground: async (image, measure) => {
+        measure({ images: 1 });
+        return image;
+    },
+    generateProductDetails: async () => ({ ...FIXTURE_PRODUCT_DETAILS }),
+});
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Status, type BatchSnapshot, type ImageProvider, type Products } from '../types';
+import { DETECTED_COLOR } from '../constants';
+import { createBatchQueue } from './batchQueue';
+
+const PRODUCTS: Products = { shirt: { name: 'T-Shirt', prompt: 'A t-shirt' } };
+
+/** Generated images hang until released or aborted, so a test can act while items are running. */
+const createProvider = (failing: Set<string> = new Set()) => {
+    const releases: (() => void)[] = [];
+    const provider: ImageProvider = {
+        id: 'mock',
+        extractDesignPrompt: async () => ({ analysis: '', prompt: 'A design on a solid black background' }),
+        analyzeImageColor: async () => '#000000',
+        generateImage: (prompt, image, options) => new Promise((resolve, reject) => {
+            if (failing.has(image) && prompt.includes('mockup')) {
+                reject(new Error('Mockup failed.'));
+                return;
+            }
+            options?.signal?.addEventListener('abort', () => reject(new DOMException('Cancelled', 'AbortError')));
+            releases.push(() => resolve(`generated:${image}`));
+        }),
+        removeBackground: async (image) => image,
+        generateProductDetails: async () => ({ title: '', description: '', tags: '' }),
+    };
+    return { provider, releaseAll: () => releases.splice(0).forEach(release => release()) };
+};
+
+const createQueue = (provider: ImageProvider, concurrency = 2) => {
+    let snapshot: BatchSnapshot | null = null;
+    const queue = createBatchQueue({
+        concurrency,
+        createJob: (item) => ({
+            context: { provider, products: PRODUCTS, printProfiles: {}, sourceImage: item.sourceImage },
+            productIds: ['shirt'],
+            printProfileIds: [],
+            colors: [DETECTED_COLOR],
+        }),
+        onChange: (next) => (snapshot = next),
+    });
+    return { queue, snapshot: () => snapshot! };
+};
+
+/** Lets pending promise callbacks run until the queue settles. */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const statuses = (snapshot: BatchSnapshot) => snapshot.items.map(item => item.status);
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('createBatchQueue', () => {
+    it('marks an item failed when its mockup fails, and retries only that mockup', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const failing = new Set(['generated:b']);
+        const { provider, releaseAll } = createProvider(failing);
+        const { queue, snapshot } = createQueue(provider);
+        queue.add([{ fileName: 'a.png', sourceImage: 'a' }, { fileName: 'b.png', sourceImage: 'b' }]);
+        queue.start();
+        await settle();
+        releaseAll();
+        await settle();
+        releaseAll();
+        await settle();
+
+        expect(statuses(snapshot())).toEqual([Status.SUCCESS, Status.FAILED]);
+        expect(snapshot().items[1].error).toBe('1 mockup failed.');
+
+        failing.clear();
+        queue.retryFailed();
+        await settle();
+        expect(snapshot().items[1].pipeline!.steps.clone.status).toBe(Status.SUCCESS);
+        releaseAll();
+        await settle();
+        expect(statuses(snapshot())).toEqual([Status.SUCCESS, Status.SUCCESS]);
+    });
+
+    it('cancels one running item and keeps the rest going', async () => {
+        const { provider, releaseAll } = createProvider();
+        const { queue, snapshot } = createQueue(provider);
+        queue.add([{ fileName: 'a.png', sourceImage: 'a' }, { fileName: 'b.png', sourceImage: 'b' }]);
+        queue.start();
+        await settle();
+
+        queue.cancel(snapshot().items[0].id);
+        await settle();
+        expect(statuses(snapshot())).toEqual([Status.CANCELLED, Status.PENDING]);
+        expect(snapshot().items[0].pipeline!.steps.clone.status).toBe(Status.CANCELLED);
+        expect(snapshot().items[0].error).toBeNull();
+
+        releaseAll();
+        await settle();
+        releaseAll();
+        await settle();
+        expect(statuses(snapshot())).toEqual([Status.CANCELLED, Status.SUCCESS]);
+    });
+
+    it('pauses and cancels everything running, leaving queued items alone', async () => {
+        const { provider } = createProvider();
+        const { queue, snapshot } = createQueue(provider, 1);
+        queue.add([{ fileName: 'a.png', sourceImage: 'a' }, { fileName: 'b.png', sourceImage: 'b' }]);
+        queue.start();
+        await settle();
+
+        queue.cancelAll();
+        await settle();
+        expect(snapshot().isPaused).toBe(true);
+        expect(snapshot().activeCount).toBe(0);
+        expect(statuses(snapshot())).toEqual([Status.CANCELLED, Status.IDLE]);
+    });
+
+    it('requeues cancelled items on retry and resumes them from the cancelled step', async () => {
+        const { provider, releaseAll } = createProvider();
+        const { queue, snapshot } = createQueue(provider, 1);
+        queue.add([{ fileName: 'a.png', sourceImage: 'a' }]);
+        queue.start();
+        await settle();
+        queue.cancelAll();
+        await settle();
+
+        queue.retryFailed();
+        expect(statuses(snapshot())).toEqual([Status.IDLE]);
+        queue.start();
+        await settle();
+        expect(snapshot().items[0].pipeline!.steps.extractPrompt.status).toBe(Status.SUCCESS);
+        releaseAll();
+        await settle();
+        releaseAll();
+        await settle();
+        expect(statuses(snapshot())).toEqual([Status.SUCCESS]);
+    });
+});
@@ -0,0 +1,162 @@
+import { Status, type BatchItem, type BatchSnapshot, type ProductColor } from '../types';
+import { createPipelineState, getPipelineError, runPipeline, type PipelineContext } from './pipeline';
+
+export interface BatchJob {
+    context: PipelineContext;
+    productIds: string[];
+    printProfileIds: string[];
+    colors: ProductColor[];
+}
+
+export interface BatchQueueOptions {
+    concurrency: number;
+    /** Called when an item starts, so each item picks up the settings current at that time. */
+    createJob: (item: BatchItem) => BatchJob;
+    onChange: (snapshot: BatchSnapshot) => void;
+}
+
+export const MAX_BATCH_CONCURRENCY = 6;
+
+const clampConcurrency = (value: number) => Math.min(MAX_BATCH_CONCURRENCY, Math.max(1, Math.round(value) || 1));
+
+/**
+ * Runs queued source images through the pipeline with at most `concurrency`
+ * items in flight. Pausing stops new items from starting; items already
+ * running are allowed to finish. Cancelling aborts running items' calls,
+ * as cancelling a single run does, and keeps what they had finished.
+ */
+export const createBatchQueue = (options: BatchQueueOptions) => {
+    let items: BatchItem[] = [];
+    let isPaused = true;
+    let activeCount = 0;
+    let concurrency = clampConcurrency(options.concurrency);
+    const controllers = new Map<string, AbortController>();
+
+    const emit = () => options.onChange({ items, isPaused, activeCount, concurrency });
+
+    const patchItem = (id: string, update: (item: BatchItem) => BatchItem) => {
+        items = items.map(item => (item.id === id ? update(item) : item));
+        emit();
+    };
+
+    const processItem = async (item: BatchItem) => {
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        try {
+            const { context, productIds, printProfileIds, colors } = options.createJob(item);
+            const initial = item.pipeline ?? createPipelineState(productIds, context.products, printProfileIds, context.printProfiles, colors);
+            patchItem(item.id, current => ({ ...current, pipeline: initial }));
+
+            const finalState = await runPipeline(initial, { ...context, signal: controller.signal }, {
+                onUpdate: (update) => patchItem(item.id, current => ({ ...current, pipeline: update(current.pipeline!) })),
+            });
+
+            if (controller.signal.aborted) {
+                patchItem(item.id, current => ({ ...current, status: Status.CANCELLED, error: null }));
+                return;
+            }
+            const error = getPipelineError(finalState);
+            patchItem(item.id, current => ({ ...current, status: error ? Status.FAILED : Status.SUCCESS, error }));
+        } catch (err: any) {
+            console.error(`Batch item ${item.fileName} failed:`, err);
+            patchItem(item.id, current => ({ ...current, status: Status.FAILED, error: err?.message || 'Processing failed.' }));
+        } finally {
+            controllers.delete(item.id);
+        }
+    };
+
+    const pump = () => {
+        while (!isPaused && activeCount < concurrency) {
+            const next = items.find(item => item.status === Status.IDLE);
+            if (!next) break;
+
+            activeCount++;
+            patchItem(next.id, item => ({ ...item, status: Status.PENDING, error: null }));
+            processItem(next).finally(() => {
+                activeCount--;
+                pump();
+                emit();
+            });
+        }
+    };
+
+    return {
+        add: (sources: { fileName: string; sourceImage: string }[]) => {
+            items = [
+                ...items,
+                ...sources.map(source => ({
+                    id: crypto.randomUUID(),
+                    fileName: source.fileName,
+                    sourceImage: source.sourceImage,
+                    status: Status.IDLE,
+                    pipeline: null,
+                    error: null,
+                })),
+            ];
+            emit();
+            pump();
+        },
+        remove: (id: string) => {
+            items = items.filter(item => item.id !== id || item.status === Status.PENDING);
+            emit();
+        },
+        clearFinished: () => {
+            items = items.filter(item => item.status === Status.IDLE || item.status === Status.PENDING);
+            emit();
+        },
+        start: () => {
+            isPaused = false;
+            emit();
+            pump();
+        },
+        pause: () => {
+            isPaused = true;
+            emit();
+        },
+        /** Aborts one running item. */
+        cancel: (id: string) => {
+            controllers.get(id)?.abort();
+        },
+        /** Pauses the queue and aborts every running item. */
+        cancelAll: () => {
+            isPaused = true;
+            controllers.forEach(controller => controller.abort());
+            emit();
+        },
+        /**
+         * Requeues failed and cancelled items; they resume from the step that
+         * stopped, or re-run only their unfinished print files and mockups.
+         */
+        retryFailed: () => {
+            items = items.map(item => (item.status === Status.FAILED || item.status === Status.CANCELLED ? { ...item, status: Status.IDLE, error: null } : item));
+            emit();
+            pump();
+        },
+        setConcurrency: (value: number) => {
+            concurrency = clampConcurrency(value);
+            emit();
+            pump();
+        },
+    };
+};
+
+export type BatchQueue = ReturnType<typeof createBatchQueue>;
+
+/** One row per queued image, for the exported results table. */
+export const buildBatchReport = (items: BatchItem[]): string[][] => [
+    ['file_name', 'status', 'error', 'product_color', 'print_files', 'mockups_succeeded', 'mockups_failed', 'mockup_products'],
+    ...items.map(item => {
+        const mockups = item.pipeline?.mockups ?? [];
+        const printFiles = item.pipeline?.printFiles.filter(printFile => printFile.status === Status.SUCCESS) ?? [];
+        return [
+            item.fileName,
+            item.status,
+            item.error ?? '',
+            item.pipeline?.steps.analyzeColor.output ?? '',
+            printFiles.map(printFile => `${printFile.name} (${printFile.width}x${printFile.height})`).join('; '),
+            String(mockups.filter(mockup => mockup.status === Status.SUCCESS).length),
+            String(mockups.filter(mockup => mockup.status === Status.FAILED).length),
+            mockups.map(mockup => `${mockup.name} (${mockup.color.name})`).join('; '),
+        ];
+    }),
+];
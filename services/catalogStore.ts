@@ -0,0 +1,148 @@
+import type { CatalogProduct, PrintProfile, ProductCatalog, Products } from '../types';
+import { DEFAULT_MAX_SELECTED_PRODUCTS, DEFAULT_PRINT_PROFILES, PRODUCTS } from '../constants';
+
+const STORAGE_KEY = 'productCatalog';
+
+export const createDefaultCatalog = (): ProductCatalog => ({
+    version: 1,
+    maxSelectedProducts: DEFAULT_MAX_SELECTED_PRODUCTS,
+    products: Object.entries(PRODUCTS).map(([id, product]) => ({ id, ...product })),
+    printProfiles: DEFAULT_PRINT_PROFILES.map(profile => ({ ...profile })),
+});
+
+/** Lookup map used by the pipeline, which addresses products by id. */
+export const toProductMap = (catalog: ProductCatalog): Products =>
+    Object.fromEntries(catalog.products.map(({ id, ...product }) => [id, product]));
+
+export const toPrintProfileMap = (catalog: ProductCatalog): Record<string, PrintProfile> =>
+    Object.fromEntries(catalog.printProfiles.map(profile => [profile.id, profile]));
+
+/**
+ * Profiles a run renders: those linked to the selected products plus any
+ * chosen explicitly. Falls back to the first profile so a run always
+ * produces at least one print file.
+ */
+export const resolvePrintProfileIds = (catalog: ProductCatalog, productIds: string[], explicitIds: string[]): string[] => {
+    const known = new Set(catalog.printProfiles.map(profile => profile.id));
+    const linked = productIds
+        .map(id => catalog.products.find(product => product.id === id)?.printProfileId)
+        .filter((id): id is string => !!id);
+    const ids = [...new Set([...linked, ...explicitIds])].filter(id => known.has(id));
+    return ids.length > 0 || catalog.printProfiles.length === 0 ? ids : [catalog.printProfiles[0].id];
+};
+
+const slugify = (value: string) =>
+    value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'product';
+
+/** Derives a stable id from the product name that does not clash with existing ones. */
+export const createProductId = (name: string, existing: { id: string }[]): string => {
+    const base = slugify(name);
+    const taken = new Set(existing.map(product => product.id));
+    let id = base;
+    for (let suffix = 2; taken.has(id); suffix++) {
+        id = `${base}-${suffix}`;
+    }
+    return id;
+};
+
+const isPositiveNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isNonNegativeNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const parsePrintProfiles = (value: unknown): PrintProfile[] => {
+    if (!Array.isArray(value)) {
+        throw new Error('Print profiles must be a list.');
+    }
+
+    const profiles: PrintProfile[] = [];
+    value.forEach((profile: Partial<PrintProfile>, index) => {
+        if (!profile || typeof profile.name !== 'string' || !profile.name.trim()) {
+            throw new Error(`Print profile #${index + 1} needs a name.`);
+        }
+        if (!isPositiveNumber(profile.width) || !isPositiveNumber(profile.height) || !isPositiveNumber(profile.dpi)) {
+            throw new Error(`Print profile "${profile.name}" needs a positive width, height and DPI.`);
+        }
+        if (!isNonNegativeNumber(profile.bleedInches ?? 0) || !isNonNegativeNumber(profile.safeMarginInches ?? 0)) {
+            throw new Error(`Print profile "${profile.name}" has an invalid bleed or safe margin.`);
+        }
+        const safeMarginPx = (profile.safeMarginInches ?? 0) * profile.dpi * 2;
+        if (safeMarginPx >= Math.min(profile.width, profile.height)) {
+            throw new Error(`Print profile "${profile.name}" has a safe margin larger than the print area.`);
+        }
+        const id = typeof profile.id === 'string' && profile.id.trim() && !profiles.some(p => p.id === profile.id)
+            ? profile.id
+            : createProductId(profile.name, profiles);
+        profiles.push({
+            id,
+            name: profile.name.trim(),
+            width: Math.round(profile.width),
+            height: Math.round(profile.height),
+            dpi: profile.dpi,
+            bleedInches: profile.bleedInches ?? 0,
+            safeMarginInches: profile.safeMarginInches ?? 0,
+        });
+    });
+    return profiles;
+};
+
+/**
+ * Checks an untrusted value (localStorage or an imported file) and returns a
+ * clean catalog, or throws with a message explaining what is wrong.
+ */
+export const parseCatalog = (value: unknown): ProductCatalog => {
+    if (!value || typeof value !== 'object' || !Array.isArray((value as ProductCatalog).products)) {
+        throw new Error('This file is not a product catalog.');
+    }
+    const raw = value as Partial<ProductCatalog>;
+    const printProfiles = parsePrintProfiles(raw.printProfiles);
+
+    const products: CatalogProduct[] = [];
+    raw.products!.forEach((product, index) => {
+        if (!product || typeof product.name !== 'string' || !product.name.trim() || typeof product.prompt !== 'string' || !product.prompt.trim()) {
+            throw new Error(`Product #${index + 1} needs a name and a prompt.`);
+        }
+        const id = typeof product.id === 'string' && product.id.trim() && !products.some(p => p.id === product.id)
+            ? product.id
+            : createProductId(product.name, products);
+        const printProfileId = printProfiles.some(profile => profile.id === product.printProfileId) ? product.printProfileId : undefined;
+        // Templates live in IndexedDB, so a dangling id is only reported when the mockup renders.
+        const templateId = typeof product.templateId === 'string' && product.templateId ? product.templateId : undefined;
+        products.push({ id, name: product.name.trim(), prompt: product.prompt, printProfileId, templateId });
+    });
+
+    const maxSelectedProducts = Number(raw.maxSelectedProducts);
+    return {
+        version: 1,
+        maxSelectedProducts: Number.isInteger(maxSelectedProducts) && maxSelectedProducts > 0 ? maxSelectedProducts : DEFAULT_MAX_SELECTED_PRODUCTS,
+        products,
+        printProfiles,
+    };
+};
+
+export const loadCatalog = (): ProductCatalog => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+        return createDefaultCatalog();
+    }
+    try {
+        return parseCatalog(JSON.parse(stored));
+    } catch (err) {
+        console.warn('Stored product catalog is invalid. Falling back to the default catalog.', err);
+        return createDefaultCatalog();
+    }
+};
+
+export const saveCatalog = (catalog: ProductCatalog) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(catalog));
+};
+
+export const serializeCatalog = (catalog: ProductCatalog): string => JSON.stringify(catalog, null, 2);
+
+export const importCatalog = async (file: File): Promise<ProductCatalog> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error('The catalog file is not valid JSON.');
+    }
+    return parseCatalog(parsed);
+};
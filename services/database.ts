@@ -0,0 +1,44 @@
+const DB_NAME = 'ai-mockup-studio';
+const DB_VERSION = 1;
+export const PROJECTS_STORE = 'projects';
+export const TEMPLATES_STORE = 'templates';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                const projects = db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                projects.createIndex('updatedAt', 'updatedAt');
+                db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+                const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' });
+                usage.createIndex('timestamp', 'timestamp');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(new Error('Could not open the local database.'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const runRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = operation(transaction.objectStore(storeName));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? new Error('Database request failed.'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Database request was aborted.'));
+    });
+};
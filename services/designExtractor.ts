@@ -1,22 +1,7 @@
-import { GoogleGenAI } from "@google/genai";
+import type { ExtractedDesign } from '../types';
+import { BadOutputError } from './errors';
 
-const getAiClient = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("Gemini API key is missing.");
-    }
-    return new GoogleGenAI({ apiKey });
-};
-
-const getImagePart = (base64Image: string) => {
-    return {
-        inlineData: {
-            mimeType: 'image/png',
-            data: base64Image.split(',')[1],
-        },
-    };
-};
-
-const SYSTEM_INSTRUCTION = `You are a professional design extractor specializing in Google Imagen 4 prompt generation.
+export const DESIGN_EXTRACTOR_INSTRUCTION = `You are a professional design extractor specializing in Google Imagen 4 prompt generation.
 
 <task>
 Analyze an image (typically a t-shirt mockup) and generate an unambiguous prompt for Imagen 4 to recreate ONLY the core design elements with appropriate solid background.
@@ -70,32 +55,25 @@ If uncertain, choose the background that provides best contrast.
 
 CRITICAL: Never mention t-shirt/clothing. Background specification is MANDATORY.`;
 
-export const extractDesignPrompt = async (apiKey: string, base64Image: string): Promise<string> => {
-    const aiClient = getAiClient(apiKey);
-    
-    const response = await aiClient.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: {
-            parts: [
-                { text: SYSTEM_INSTRUCTION },
-                getImagePart(base64Image)
-            ]
-        },
-    });
-
-    const text = response.text.trim();
+/**
+ * Splits an extractor response into its `<analysis>` and `<final_prompt>`.
+ * Shared by every provider so they all hand the image model the same kind of prompt.
+ */
+export const parseExtractedPrompt = (responseText: string): ExtractedDesign => {
+    const text = responseText.trim();
+    const analysis = text.match(/<analysis>([\s\S]*?)<\/analysis>/)?.[1].trim() ?? '';
     
     const finalPromptMatch = text.match(/<final_prompt>([\s\S]*?)<\/final_prompt>/);
 
     if (finalPromptMatch && finalPromptMatch[1]) {
-        return finalPromptMatch[1].trim();
+        return { analysis, prompt: finalPromptMatch[1].trim() };
     }
     
     console.warn("Could not parse XML from design extractor. Falling back to raw text.", text);
     const analysisRemoved = text.replace(/<analysis>[\s\S]*?<\/analysis>/, '').trim();
     if (analysisRemoved) {
-        return analysisRemoved;
+        return { analysis, prompt: analysisRemoved };
     }
     
-    throw new Error("Failed to extract a valid design prompt from the AI response.");
+    throw new BadOutputError("Failed to extract a valid design prompt from the AI response.", { raw: responseText });
 };
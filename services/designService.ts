@@ -0,0 +1,100 @@
+import type { ImageProvider, PrintPlacement, PrintProfile, ProviderCallOptions, UpscaleSettings } from '../types';
+import { setPngDpi } from '../utils/png';
+import { DEFAULT_UPSCALE, upscaleImage } from './upscaler';
+import { DEFAULT_PLACEMENT, computePlacement, measureDesign } from './placement';
+import { createAbortError } from './errors';
+
+/**
+ * Folds redesign instructions into an extracted prompt, keeping the
+ * trailing background clause last so the image model still honors it.
+ */
+const backgroundInstructionRegex = /( on a solid (black|white) background)$/i;
+
+/** Whether a prompt ends with the background clause that redesign instructions are inserted before. */
+export const hasBackgroundClause = (prompt: string): boolean => backgroundInstructionRegex.test(prompt.trim());
+
+export const buildClonePrompt = (extractedPrompt: string, additionalInstructions?: string): string => {
+    if (!additionalInstructions || additionalInstructions.trim().length === 0) {
+        return extractedPrompt;
+    }
+
+    const match = extractedPrompt.match(backgroundInstructionRegex);
+
+    if (match) {
+        const backgroundInstruction = match[0];
+        const promptWithoutBackground = extractedPrompt.replace(backgroundInstructionRegex, '');
+        // Append a period if one doesn't exist before adding more instructions.
+        const separator = promptWithoutBackground.endsWith('.') ? '' : '.';
+        return `${promptWithoutBackground}${separator} Additional instructions: ${additionalInstructions}${backgroundInstruction}`;
+    }
+
+    // Fallback if the regex fails for some reason
+    return `${extractedPrompt}\n\nAdditional instructions: ${additionalInstructions}`;
+};
+
+
+export const createMockup = async (provider: ImageProvider, base64ClonedDesign: string, productPrompt: string, productColorHex: string, additionalInstructions?: string, options?: ProviderCallOptions): Promise<string> => {
+    let finalPrompt = `Take the provided design and create a photorealistic mockup. ${productPrompt}. IMPORTANT: The main color of the product (e.g., the t-shirt fabric, the mug's ceramic) MUST be the hex color: ${productColorHex}. The design must be placed naturally on the product, conforming to its shape, texture, and lighting. The final image should look like a professional product photograph.`;
+
+    if (additionalInstructions && additionalInstructions.trim().length > 0) {
+        finalPrompt += `\n\nADDITIONAL INSTRUCTIONS: ${additionalInstructions}`;
+    }
+
+    return provider.generateImage(finalPrompt, base64ClonedDesign, options);
+};
+
+/** Below this the print visibly softens; below the poor threshold it looks pixelated. */
+export const GOOD_EFFECTIVE_DPI = 200;
+export const POOR_EFFECTIVE_DPI = 120;
+
+export type PrintQuality = 'good' | 'fair' | 'poor';
+
+/**
+ * How many real source pixels land on each printed inch. Upscaling adds
+ * pixels but not detail, so this is what decides how sharp the print looks.
+ */
+export const getEffectiveDpi = (sourceWidth: number, sourceHeight: number, profile: PrintProfile, placement: PrintPlacement = DEFAULT_PLACEMENT): number =>
+    Math.round(profile.dpi / computePlacement(sourceWidth, sourceHeight, profile, placement).ratio);
+
+export const getPrintQuality = (effectiveDpi: number): PrintQuality =>
+    effectiveDpi >= GOOD_EFFECTIVE_DPI ? 'good' : effectiveDpi >= POOR_EFFECTIVE_DPI ? 'fair' : 'poor';
+
+/**
+ * Renders the design as a print file for the given profile: trim size plus bleed,
+ * with the design trimmed and placed inside the safe area and the profile's DPI written into the PNG.
+ * Enlarging uses the chosen upscaling algorithm and sharpening, all on the client;
+ * aborting `signal` stops it part way.
+ */
+export const resizeDesign = async (
+    base64Image: string,
+    profile: PrintProfile,
+    upscale: UpscaleSettings = DEFAULT_UPSCALE,
+    placement: PrintPlacement = DEFAULT_PLACEMENT,
+    signal?: AbortSignal,
+): Promise<string> => {
+    if (signal?.aborted) throw createAbortError();
+    const { image, bounds } = await measureDesign(base64Image, placement.trim).catch(() => {
+        throw new Error('Failed to load image for resizing.');
+    });
+
+    const bleed = Math.round(profile.bleedInches * profile.dpi);
+    const canvas = document.createElement('canvas');
+    canvas.width = profile.width + bleed * 2;
+    canvas.height = profile.height + bleed * 2;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for resizing.');
+    }
+
+    const cropped = document.createElement('canvas');
+    cropped.width = bounds.width;
+    cropped.height = bounds.height;
+    cropped.getContext('2d')!.drawImage(image, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+
+    // Placement rounds to whole pixels so the resampled edges are not blurred again.
+    const placed = computePlacement(bounds.width, bounds.height, profile, placement);
+    ctx.drawImage(await upscaleImage(cropped, placed.width, placed.height, upscale, signal), placed.x, placed.y);
+
+    return setPngDpi(canvas.toDataURL('image/png'), profile.dpi);
+};
@@ -0,0 +1,227 @@
+import type { ErrorSource, StudioErrorKind, StudioNotification } from '../types';
+
+export interface StudioErrorDetails {
+    /** The service's raw response or the underlying error text, for the details view. */
+    raw?: string | null;
+    status?: number | null;
+    /** How long the service asked us to wait before trying again. */
+    retryAfterMs?: number | null;
+    /** Overrides the kind's default title, e.g. to name the service. */
+    title?: string;
+    cause?: unknown;
+}
+
+const KIND_COPY: Record<StudioErrorKind, { title: string, explanation: string, action: string }> = {
+    safety: {
+        title: 'Blocked by safety filters',
+        explanation: "The model's safety filters flagged the prompt or the image and refused to answer.",
+        action: 'Reword the instructions or try a different source image.',
+    },
+    rateLimit: {
+        title: 'Rate limit or quota reached',
+        explanation: 'The service is getting too many requests from this key, or its quota is used up.',
+        action: "Wait a minute and retry, lower the parallel call limits, or check your plan's quota.",
+    },
+    auth: {
+        title: 'API key rejected',
+        explanation: 'The key is missing, invalid, or has no access to this model.',
+        action: 'Check the key under API Keys.',
+    },
+    network: {
+        title: 'Service unreachable',
+        explanation: 'The request never got an answer, because of a connection problem or a temporary outage.',
+        action: 'Check your connection and retry in a moment.',
+    },
+    badOutput: {
+        title: 'Unexpected model output',
+        explanation: 'The service answered, but not with what was asked for, such as text instead of an image.',
+        action: 'Retry. If it keeps happening, simplify the instructions or try another image.',
+    },
+    invalidRequest: {
+        title: 'Invalid request',
+        explanation: 'The request was malformed or sent to the wrong endpoint, so no service was called. This is a problem in the app, not the model.',
+        action: 'Reload the app and retry. If it keeps happening, report it.',
+    },
+    processing: {
+        title: 'Processing failed',
+        explanation: 'A step that runs in this browser failed, often because the image is very large or memory ran out.',
+        action: 'Retry, or use a smaller image and close other tabs.',
+    },
+};
+
+/**
+ * Base for every error the studio shows to users. The kind decides the
+ * explanation and suggested action; the message says what happened this time.
+ * `status` and `retryAfterMs` are read by the request scheduler.
+ */
+export class StudioError extends Error {
+    readonly kind: StudioErrorKind;
+    readonly title: string;
+    readonly explanation: string;
+    readonly action: string;
+    readonly raw: string | null;
+    readonly status: number | null;
+    readonly retryAfterMs: number | null;
+
+    constructor(kind: StudioErrorKind, message: string, details: StudioErrorDetails = {}) {
+        super(message, details.cause === undefined ? undefined : { cause: details.cause });
+        this.name = 'StudioError';
+        this.kind = kind;
+        this.title = details.title ?? KIND_COPY[kind].title;
+        this.explanation = KIND_COPY[kind].explanation;
+        this.action = KIND_COPY[kind].action;
+        this.raw = details.raw ?? null;
+        this.status = details.status ?? null;
+        this.retryAfterMs = details.retryAfterMs ?? null;
+    }
+}
+
+export class SafetyBlockedError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('safety', message, details);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+export class RateLimitError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('rateLimit', message, details);
+        this.name = 'RateLimitError';
+    }
+}
+
+export class AuthError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('auth', message, details);
+        this.name = 'AuthError';
+    }
+}
+
+export class NetworkError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('network', message, details);
+        this.name = 'NetworkError';
+    }
+}
+
+export class BadOutputError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('badOutput', message, details);
+        this.name = 'BadOutputError';
+    }
+}
+
+/** The caller sent something the receiving end refuses, such as a malformed body to the local proxy. */
+export class InvalidRequestError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('invalidRequest', message, details);
+        this.name = 'InvalidRequestError';
+    }
+}
+
+export class ProcessingError extends StudioError {
+    constructor(message: string, details?: StudioErrorDetails) {
+        super('processing', message, details);
+        this.name = 'ProcessingError';
+    }
+}
+
+export const createAbortError = () => new DOMException('The request was cancelled.', 'AbortError');
+
+/** True for fetch and SDK aborts alike; both reject with an error named AbortError. */
+export const isAbortError = (err: unknown): boolean =>
+    (err as { name?: unknown } | null)?.name === 'AbortError';
+
+/** The HTTP status an error carries, as set by the Gemini SDK's ApiError and by StudioError. */
+export const getErrorStatus = (err: unknown): number | null => {
+    const status = (err as { status?: unknown } | null)?.status;
+    return typeof status === 'number' ? status : null;
+};
+
+/** Google API errors embed a JSON body whose `message` is far more readable than the whole text. */
+const extractApiMessage = (text: string): string =>
+    text.match(/"message"\s*:\s*"((?:[^"\\]|\\.)*)"/)?.[1].replace(/\\"/g, '"') ?? text;
+
+/** Picks the error class for an HTTP failure from `service`. */
+export const errorFromHttpStatus = (service: string, status: number, body: string, details: StudioErrorDetails = {}): StudioError => {
+    const message = `${service} returned status ${status}: ${extractApiMessage(body) || 'no details'}`;
+    const withStatus = { raw: body, ...details, status };
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid/i.test(body)) {
+        return new AuthError(message, withStatus);
+    }
+    if (status === 402 || status === 429) return new RateLimitError(message, withStatus);
+    if (status === 408 || status >= 500) return new NetworkError(message, withStatus);
+    return new BadOutputError(message, { title: `${service} rejected the request`, ...withStatus });
+};
+
+/**
+ * Classifies anything thrown into a StudioError. Errors with an HTTP status
+ * become the matching service error; failed fetches become network errors;
+ * everything else happened locally.
+ */
+export const toStudioError = (err: unknown, service = 'The service', details: StudioErrorDetails = {}): StudioError => {
+    if (err instanceof StudioError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    const status = getErrorStatus(err);
+    if (status !== null) {
+        return errorFromHttpStatus(service, status, message, { cause: err, ...details });
+    }
+    if (err instanceof TypeError && /fetch|network/i.test(message)) {
+        return new NetworkError(`${service} could not be reached.`, { raw: message, cause: err, ...details });
+    }
+    return new ProcessingError(message || 'Something went wrong.', { raw: err instanceof Error ? err.stack ?? null : null, cause: err, ...details });
+};
+
+/** A StudioError as it crosses the wire between the local proxy server and the app. */
+export interface SerializedStudioError {
+    kind: StudioErrorKind;
+    message: string;
+    title: string;
+    raw: string | null;
+    status: number | null;
+    retryAfterMs: number | null;
+}
+
+const ERROR_CLASSES: Record<StudioErrorKind, new (message: string, details?: StudioErrorDetails) => StudioError> = {
+    safety: SafetyBlockedError,
+    rateLimit: RateLimitError,
+    auth: AuthError,
+    network: NetworkError,
+    badOutput: BadOutputError,
+    invalidRequest: InvalidRequestError,
+    processing: ProcessingError,
+};
+
+export const serializeStudioError = ({ kind, message, title, raw, status, retryAfterMs }: StudioError): SerializedStudioError =>
+    ({ kind, message, title, raw, status, retryAfterMs });
+
+/** Rebuilds the error from an untrusted value, or returns null when it is not one. */
+export const deserializeStudioError = (value: unknown): StudioError | null => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<SerializedStudioError>;
+    if (typeof raw.kind !== 'string' || !Object.hasOwn(ERROR_CLASSES, raw.kind) || typeof raw.message !== 'string') return null;
+    const read = (field: unknown) => (typeof field === 'number' && Number.isFinite(field) ? field : null);
+    return new ERROR_CLASSES[raw.kind](raw.message, {
+        title: typeof raw.title === 'string' ? raw.title : undefined,
+        raw: typeof raw.raw === 'string' ? raw.raw : null,
+        status: read(raw.status),
+        retryAfterMs: read(raw.retryAfterMs),
+    });
+};
+
+/** Turns a thrown error into a notification with its explanation. A string becomes a plain notice. */
+export const createNotification = (problem: unknown, source?: ErrorSource): StudioNotification => {
+    const base = { id: crypto.randomUUID(), source, createdAt: Date.now() };
+    if (typeof problem === 'string') {
+        return { ...base, kind: 'notice', message: problem };
+    }
+    const error = toStudioError(problem);
+    return {
+        ...base,
+        kind: error.kind,
+        title: error.title,
+        message: error.message,
+        explanation: error.explanation,
+        action: error.action,
+        raw: error.raw,
+    };
+};
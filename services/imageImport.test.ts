@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchImageFile } from './imageImport';
+
+const answerWith = (status: number) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status })));
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('fetchImageFile', () => {
+    it('reports a refused download as a download problem naming the host, not a rejected key', async () => {
+        answerWith(403);
+        const error = await fetchImageFile('https://cdn.example.com/a.png').catch(err => err);
+        expect(error.kind).toBe('processing');
+        expect(error.status).toBe(403);
+        expect(error.title).toBe('Image download failed');
+        expect(error.message).toContain('cdn.example.com');
+        expect(error.message).toContain('403');
+    });
+
+    it('reports a missing image without blaming model output', async () => {
+        answerWith(404);
+        const error = await fetchImageFile('https://cdn.example.com/a.png').catch(err => err);
+        expect(error.kind).toBe('processing');
+        expect(error.message).toContain('Check the address');
+    });
+
+    it('reports host outages as network errors worth retrying', async () => {
+        answerWith(503);
+        const error = await fetchImageFile('https://cdn.example.com/a.png').catch(err => err);
+        expect(error.kind).toBe('network');
+    });
+});
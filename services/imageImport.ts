@@ -0,0 +1,75 @@
+import { NetworkError, ProcessingError } from './errors';
+
+/** Formats some browsers hand over without a MIME type. */
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'avif', 'heic', 'heif'];
+
+/** True for files that look like images by type or extension, so a dropped folder can skip everything else. */
+export const isImageFile = (file: File): boolean =>
+    file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+
+export const isImportableUrl = (value: string): boolean => /^data:image\//i.test(value) || /^https?:\/\//i.test(value);
+
+/**
+ * Finds the image in what the browser puts on a drag from another tab: the
+ * `<img>` in the HTML when there is one, which is the picture itself, and
+ * otherwise the first address in the URI list, which may be a link to it.
+ */
+export const extractDroppedImageUrl = (uriList: string, html: string): string | null => {
+    const fromHtml = html.match(/<img[^>]+src\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (fromHtml) return fromHtml.replace(/&amp;/g, '&');
+    const fromList = uriList.split(/\r?\n/).map(line => line.trim()).find(line => line && !line.startsWith('#'));
+    return fromList ?? null;
+};
+
+const getFileNameFromUrl = (url: string): string => {
+    if (url.startsWith('data:')) return 'pasted-image';
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    try {
+        return segment ? decodeURIComponent(segment) : 'downloaded-image';
+    } catch {
+        return segment!;
+    }
+};
+
+/**
+ * Describes an image host's error status. These come from the site the image
+ * lives on, not from a model service, so they never point at API keys or
+ * model output: outages are worth a retry, anything else needs another address.
+ */
+const downloadError = (host: string, status: number, body: string) => {
+    const details = { raw: body, status, title: 'Image download failed' };
+    if (status === 408 || status === 429 || status >= 500) {
+        return new NetworkError(`${host} answered with status ${status} and did not send the image. Try again in a moment.`, details);
+    }
+    const hint = status === 401 || status === 403
+        ? 'The site does not let other pages download it; save the image and upload the file instead.'
+        : status === 404 || status === 410
+            ? 'Check the address.'
+            : 'Save the image and upload the file instead.';
+    return new ProcessingError(`${host} answered with status ${status} and did not send the image. ${hint}`, details);
+};
+
+/** Downloads an http(s) or data URL into a File, which then goes through the same input stage as an upload. */
+export const fetchImageFile = async (url: string): Promise<File> => {
+    const address = url.trim();
+    if (!isImportableUrl(address)) {
+        throw new ProcessingError('Enter an http(s) image address or a data:image URL.', { title: 'Not an image address' });
+    }
+
+    let response: Response;
+    try {
+        response = await fetch(address);
+    } catch (err) {
+        // Browsers report a CORS refusal exactly like a dropped connection.
+        throw new NetworkError("Couldn't download the image. The site may not let other pages fetch its images; save it and upload the file instead.", {
+            raw: err instanceof Error ? err.message : String(err),
+            cause: err,
+        });
+    }
+    if (!response.ok) {
+        throw downloadError(new URL(address).hostname, response.status, await response.text().catch(() => ''));
+    }
+
+    const blob = await response.blob();
+    return new File([blob], getFileNameFromUrl(address), { type: blob.type });
+};
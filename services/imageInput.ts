@@ -0,0 +1,123 @@
+import type { InputSettings, NormalizedImage } from '../types';
+import { blobToBase64 } from '../utils/fileUtils';
+import { detectImageMimeType, readExifOrientation } from '../utils/imageFormat';
+import { ProcessingError } from './errors';
+
+const STORAGE_KEY = 'inputSettings';
+const MIN_EDGE = 512;
+const MAX_EDGE = 8192;
+/** Types every provider accepts as they are. Anything else is converted. */
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg'];
+/** Files above this are re-encoded even when their size in pixels is fine. */
+const MAX_PASSTHROUGH_BYTES = 4 * 1024 * 1024;
+const JPEG_QUALITY = 0.9;
+
+const FORMAT_NAMES: Record<string, string> = {
+    'image/png': 'PNG',
+    'image/jpeg': 'JPEG',
+    'image/gif': 'GIF',
+    'image/webp': 'WebP',
+    'image/bmp': 'BMP',
+    'image/avif': 'AVIF',
+    'image/heic': 'HEIC',
+};
+
+export const getFormatName = (mimeType: string) => FORMAT_NAMES[mimeType] ?? mimeType.replace(/^image\//, '').toUpperCase();
+
+export const DEFAULT_INPUT_SETTINGS: InputSettings = {
+    maxEdge: 2048,
+};
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parseInputSettings = (value: unknown): InputSettings => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<InputSettings>;
+    return {
+        maxEdge: typeof raw.maxEdge === 'number' && Number.isFinite(raw.maxEdge)
+            ? Math.min(MAX_EDGE, Math.max(MIN_EDGE, Math.round(raw.maxEdge)))
+            : DEFAULT_INPUT_SETTINGS.maxEdge,
+    };
+};
+
+export const loadInputSettings = (): InputSettings => {
+    try {
+        return parseInputSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseInputSettings(null);
+    }
+};
+
+export const saveInputSettings = (settings: InputSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) => new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new ProcessingError('The image could not be re-encoded.')), type, quality);
+});
+
+/**
+ * The input stage every upload goes through. The type is read from the
+ * file's bytes, not its name. JPEGs and PNGs that are upright, within
+ * `maxEdge` and not huge are passed on untouched; everything else is drawn
+ * upright onto a canvas at most `maxEdge` on its longer side and re-encoded,
+ * as JPEG for photos and PNG for everything else so transparency survives.
+ */
+export const normalizeImageFile = async (file: File, { maxEdge }: InputSettings): Promise<NormalizedImage> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const mimeType = detectImageMimeType(bytes) ?? (file.type.startsWith('image/') ? file.type : null);
+    if (!mimeType) {
+        throw new ProcessingError(`"${file.name}" is not an image this studio can read.`, { title: 'Unsupported file' });
+    }
+    const orientation = mimeType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+
+    let bitmap: ImageBitmap;
+    try {
+        // Browsers apply the EXIF orientation while decoding, so the bitmap is already upright.
+        bitmap = await createImageBitmap(new Blob([bytes], { type: mimeType }), { imageOrientation: 'from-image' });
+    } catch (err) {
+        throw new ProcessingError(`This browser cannot decode ${getFormatName(mimeType)} images. Convert "${file.name}" to PNG or JPEG first.`, {
+            title: 'Unsupported image format',
+            cause: err,
+        });
+    }
+
+    try {
+        const { width, height } = bitmap;
+        const source = { fileName: file.name, mimeType, width, height, bytes: file.size, orientation };
+        const scale = Math.min(1, maxEdge / Math.max(width, height));
+        const isPassthroughType = PASSTHROUGH_TYPES.includes(mimeType);
+
+        if (isPassthroughType && scale === 1 && orientation === 1 && file.size <= MAX_PASSTHROUGH_BYTES) {
+            // Re-wrapped so the data URL carries the real type rather than the browser's guess.
+            const dataUrl = await blobToBase64(new Blob([bytes], { type: mimeType }));
+            return { dataUrl, source, output: { mimeType, width, height, bytes: file.size }, changes: [] };
+        }
+
+        const outputType = mimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new ProcessingError('Could not get canvas context for preparing the upload.');
+        }
+        ctx.imageSmoothingEnabled = true;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+        const blob = await canvasToBlob(canvas, outputType, outputType === 'image/jpeg' ? JPEG_QUALITY : undefined);
+
+        const changes: string[] = [];
+        if (orientation !== 1) changes.push('rotated upright');
+        if (scale < 1) changes.push(`scaled down to ${canvas.width}×${canvas.height}`);
+        if (!isPassthroughType) changes.push(`converted from ${getFormatName(mimeType)} to ${getFormatName(outputType)}`);
+        if (changes.length === 0) changes.push('re-encoded to reduce the file size');
+
+        return {
+            dataUrl: await blobToBase64(blob),
+            source,
+            output: { mimeType: outputType, width: canvas.width, height: canvas.height, bytes: blob.size },
+            changes,
+        };
+    } finally {
+        bitmap.close();
+    }
+};
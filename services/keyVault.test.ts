@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { KeyStore } from '../types';
+import { createKeyVault, parseKeyStore } from './keyVault';
+
+const STORE: KeyStore = {
+    profiles: [{ id: 'gemini-1', service: 'gemini', name: 'Work', key: 'secret-gemini-key' }],
+    active: { gemini: 'gemini-1', photoroom: null },
+};
+
+/** The vault only needs getItem, setItem and removeItem. */
+const createMemoryStorage = () => {
+    const items = new Map<string, string>();
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => void items.set(key, value),
+        removeItem: (key: string) => void items.delete(key),
+    };
+};
+
+let storage: ReturnType<typeof createMemoryStorage>;
+
+beforeEach(() => {
+    storage = createMemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+const createEncryptedVault = async (passphrase: string) => {
+    const vault = createKeyVault(() => {});
+    vault.update(STORE);
+    await vault.enable(passphrase);
+    return vault;
+};
+
+describe('parseKeyStore', () => {
+    it('drops malformed profiles and points each service at a profile it has', () => {
+        const store = parseKeyStore({
+            profiles: [
+                { id: 'p1', service: 'photoroom', name: 'A', key: 'k' },
+                { id: 'bad', service: 'openai', name: 'B', key: 'k' },
+                { id: 'no-key', service: 'gemini', name: 'C' },
+            ],
+            active: { gemini: 'missing', photoroom: 'gone' },
+        });
+        expect(store.profiles.map(profile => profile.id)).toEqual(['p1']);
+        expect(store.active).toEqual({ gemini: null, photoroom: 'p1' });
+    });
+});
+
+describe('createKeyVault', () => {
+    it('stores only ciphertext once enabled', async () => {
+        await createEncryptedVault('correct horse');
+        expect(storage.items.has('apiKeys')).toBe(false);
+        expect(storage.items.get('apiKeyVault')).not.toContain('secret-gemini-key');
+    });
+
+    it('locks and unlocks to the same keys', async () => {
+        const vault = await createEncryptedVault('correct horse');
+        vault.lock();
+        expect(vault.getSnapshot()).toMatchObject({ status: 'locked', store: null });
+
+        await vault.unlock('correct horse');
+        expect(vault.getSnapshot()).toMatchObject({ status: 'unlocked', store: STORE });
+    });
+
+    it('opens a vault saved by an earlier session', async () => {
+        await createEncryptedVault('correct horse');
+        const reloaded = createKeyVault(() => {});
+        expect(reloaded.getSnapshot().status).toBe('locked');
+
+        await reloaded.unlock('correct horse');
+        expect(reloaded.getSnapshot().store).toEqual(STORE);
+    });
+
+    it('rejects a wrong passphrase and stays locked', async () => {
+        const vault = await createEncryptedVault('correct horse');
+        vault.lock();
+        await expect(vault.unlock('wrong horse')).rejects.toThrow('That passphrase does not unlock the key vault.');
+        expect(vault.getSnapshot()).toMatchObject({ status: 'locked', store: null });
+    });
+
+    it('ignores updates while locked', async () => {
+        const vault = await createEncryptedVault('correct horse');
+        vault.lock();
+        const sealed = storage.items.get('apiKeyVault');
+        vault.update({ profiles: [], active: { gemini: null, photoroom: null } });
+        expect(storage.items.get('apiKeyVault')).toBe(sealed);
+        expect(storage.items.has('apiKeys')).toBe(false);
+    });
+});
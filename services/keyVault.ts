@@ -0,0 +1,219 @@
+import type { ApiKeyProfile, KeyStore, KeyVaultSnapshot, KeyedService, ProviderCredentials } from '../types';
+
+const PLAIN_STORAGE_KEY = 'apiKeys';
+const VAULT_STORAGE_KEY = 'apiKeyVault';
+/** Where keys lived before profiles; read once and then removed. */
+const LEGACY_STORAGE_KEYS: Record<KeyedService, string> = { gemini: 'geminiApiKey', photoroom: 'photoroomApiKey' };
+/** Older builds saved a bundled trial key on first load; it is not the user's and is dropped. */
+const BUNDLED_KEY_PREFIX = 'sk_pr_default_';
+const PBKDF2_ITERATIONS = 310_000;
+const MAX_AUTO_LOCK_MINUTES = 24 * 60;
+
+export const KEYED_SERVICES: KeyedService[] = ['gemini', 'photoroom'];
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/** What is stored while the vault is on. Only the key store itself is encrypted. */
+interface VaultRecord {
+    version: 1;
+    iterations: number;
+    salt: string;
+    iv: string;
+    ciphertext: string;
+    autoLockMinutes: number;
+}
+
+/** The derived key for the open vault. It is not extractable and only ever held in memory. */
+interface VaultSession {
+    key: CryptoKey;
+    salt: Uint8Array;
+    iterations: number;
+}
+
+const EMPTY_STORE: KeyStore = { profiles: [], active: { gemini: null, photoroom: null } };
+
+/** Reads a key store from an untrusted value, dropping malformed profiles and dangling selections. */
+export const parseKeyStore = (value: unknown): KeyStore => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<KeyStore>;
+    const profiles = (Array.isArray(raw.profiles) ? raw.profiles : []).filter((profile): profile is ApiKeyProfile =>
+        !!profile && typeof profile === 'object'
+        && typeof profile.id === 'string'
+        && KEYED_SERVICES.includes(profile.service)
+        && typeof profile.name === 'string'
+        && typeof profile.key === 'string');
+    const active = { ...EMPTY_STORE.active };
+    for (const service of KEYED_SERVICES) {
+        const selected = raw.active?.[service];
+        const ofService = profiles.filter(profile => profile.service === service);
+        active[service] = ofService.some(profile => profile.id === selected) ? selected! : ofService[0]?.id ?? null;
+    }
+    return { profiles, active };
+};
+
+export const getActiveKey = (store: KeyStore | null, service: KeyedService): string =>
+    store?.profiles.find(profile => profile.id === store.active[service])?.key ?? '';
+
+export const toCredentials = (store: KeyStore | null): ProviderCredentials => ({
+    geminiApiKey: getActiveKey(store, 'gemini'),
+    photoroomApiKey: getActiveKey(store, 'photoroom'),
+});
+
+const loadPlainKeyStore = (): KeyStore => {
+    try {
+        const stored = localStorage.getItem(PLAIN_STORAGE_KEY);
+        if (stored) return parseKeyStore(JSON.parse(stored));
+    } catch {
+        return EMPTY_STORE;
+    }
+    // First run with profiles: move the old single keys over.
+    const profiles = KEYED_SERVICES.flatMap((service): ApiKeyProfile[] => {
+        const key = localStorage.getItem(LEGACY_STORAGE_KEYS[service]) ?? '';
+        return key && !key.startsWith(BUNDLED_KEY_PREFIX) ? [{ id: crypto.randomUUID(), service, name: 'Default', key }] : [];
+    });
+    const store = parseKeyStore({ profiles });
+    localStorage.setItem(PLAIN_STORAGE_KEY, JSON.stringify(store));
+    Object.values(LEGACY_STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
+    return store;
+};
+
+const loadVaultRecord = (): VaultRecord | null => {
+    try {
+        const record = JSON.parse(localStorage.getItem(VAULT_STORAGE_KEY) || 'null');
+        return record && record.version === 1 && typeof record.ciphertext === 'string' ? record as VaultRecord : null;
+    } catch {
+        return null;
+    }
+};
+
+const clampAutoLock = (minutes: number) =>
+    Number.isFinite(minutes) ? Math.min(MAX_AUTO_LOCK_MINUTES, Math.max(0, Math.round(minutes))) : DEFAULT_AUTO_LOCK_MINUTES;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    );
+};
+
+/** Encrypts the store with a fresh IV. AES-GCM also authenticates it, so a wrong passphrase cannot decrypt to garbage. */
+const seal = async (store: KeyStore, session: VaultSession, autoLockMinutes: number): Promise<VaultRecord> => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, session.key, new TextEncoder().encode(JSON.stringify(store)));
+    return {
+        version: 1,
+        iterations: session.iterations,
+        salt: toBase64(session.salt),
+        iv: toBase64(iv),
+        ciphertext: toBase64(new Uint8Array(ciphertext)),
+        autoLockMinutes,
+    };
+};
+
+/**
+ * Holds the API keys for the app. Without a vault they are kept as plain
+ * JSON in localStorage. With one, only the AES-GCM encrypted store is saved,
+ * under a key derived from the passphrase with PBKDF2; the decrypted keys
+ * exist in memory only while unlocked, and are dropped on lock or after
+ * `autoLockMinutes` without a call to `touch`.
+ */
+export const createKeyVault = (onChange: (snapshot: KeyVaultSnapshot) => void) => {
+    const record = loadVaultRecord();
+    let store: KeyStore | null = record ? null : loadPlainKeyStore();
+    let session: VaultSession | null = null;
+    let autoLockMinutes = record ? clampAutoLock(record.autoLockMinutes) : DEFAULT_AUTO_LOCK_MINUTES;
+    let lockTimer: ReturnType<typeof setTimeout> | undefined;
+    // Saves run one after another so a slow encryption never overwrites a newer one.
+    let saving: Promise<void> = Promise.resolve();
+
+    const getStatus = () => (session ? 'unlocked' : loadVaultRecord() ? 'locked' : 'plain');
+    const emit = () => onChange({ status: getStatus(), store, autoLockMinutes });
+
+    const persist = () => {
+        if (!session) {
+            localStorage.setItem(PLAIN_STORAGE_KEY, JSON.stringify(store));
+            return;
+        }
+        const [snapshot, current] = [store!, session];
+        saving = saving
+            .then(async () => localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await seal(snapshot, current, autoLockMinutes))))
+            .catch(err => console.error('Failed to save the key vault:', err));
+    };
+
+    const lock = () => {
+        clearTimeout(lockTimer);
+        if (!session) return;
+        session = null;
+        store = null;
+        emit();
+    };
+
+    const touch = () => {
+        clearTimeout(lockTimer);
+        if (session && autoLockMinutes > 0) {
+            lockTimer = setTimeout(lock, autoLockMinutes * 60_000);
+        }
+    };
+
+    return {
+        getSnapshot: (): KeyVaultSnapshot => ({ status: getStatus(), store, autoLockMinutes }),
+        update: (next: KeyStore) => {
+            if (getStatus() === 'locked') return;
+            store = parseKeyStore(next);
+            persist();
+            emit();
+        },
+        /** Rejects when the passphrase is wrong. */
+        unlock: async (passphrase: string) => {
+            const stored = loadVaultRecord();
+            if (!stored) return;
+            const salt = fromBase64(stored.salt);
+            const key = await deriveKey(passphrase, salt, stored.iterations);
+            let plaintext: ArrayBuffer;
+            try {
+                plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.ciphertext));
+            } catch {
+                throw new Error('That passphrase does not unlock the key vault.');
+            }
+            store = parseKeyStore(JSON.parse(new TextDecoder().decode(plaintext)));
+            session = { key, salt, iterations: stored.iterations };
+            touch();
+            emit();
+        },
+        lock,
+        touch,
+        /** Encrypts the current keys under `passphrase` and removes the plain copy. */
+        enable: async (passphrase: string) => {
+            if (!store || session) return;
+            const salt = crypto.getRandomValues(new Uint8Array(16));
+            session = { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt, iterations: PBKDF2_ITERATIONS };
+            localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await seal(store, session, autoLockMinutes)));
+            localStorage.removeItem(PLAIN_STORAGE_KEY);
+            touch();
+            emit();
+        },
+        /** Turns the vault off, storing the unlocked keys in plain text again. */
+        disable: async () => {
+            if (!session) return;
+            await saving;
+            clearTimeout(lockTimer);
+            session = null;
+            localStorage.setItem(PLAIN_STORAGE_KEY, JSON.stringify(store));
+            localStorage.removeItem(VAULT_STORAGE_KEY);
+            emit();
+        },
+        setAutoLock: (minutes: number) => {
+            autoLockMinutes = clampAutoLock(minutes);
+            if (session) persist();
+            touch();
+            emit();
+        },
+    };
+};
+
+export type KeyVault = ReturnType<typeof createKeyVault>;
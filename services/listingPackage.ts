@@ -0,0 +1,103 @@
+import { Status, type PipelineState, type ProductDetails, type StudioMode } from '../types';
+import { dataUrlToBytes } from '../utils/fileUtils';
+import { createZip, type ZipEntry } from '../utils/zip';
+
+export interface ListingPackageInput {
+    name: string;
+    sourceImage: string;
+    mode: StudioMode;
+    additionalInstructions?: string;
+    pipeline: PipelineState;
+    productDetails: ProductDetails | null;
+}
+
+type ManifestFileKind = 'original' | 'cloned' | 'transparent' | 'printFile' | 'mockup' | 'details';
+
+interface ManifestFile {
+    path: string;
+    kind: ManifestFileKind;
+    id?: string;
+    name?: string;
+    width?: number;
+    height?: number;
+    dpi?: number;
+    colorName?: string;
+    colorHex?: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const getExtension = (dataUrl: string): string => EXTENSIONS[dataUrl.slice(5, dataUrl.indexOf(';'))] ?? 'png';
+
+export const toFileSlug = (value: string): string =>
+    value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'listing';
+
+/** File name of a mockup image, shared by the ZIP package and marketplace CSV exports. */
+export const getMockupFileName = (projectName: string, mockupId: string): string =>
+    `${toFileSlug(projectName)}-${toFileSlug(mockupId)}.png`;
+
+const formatDetailsText = ({ title, description, tags }: ProductDetails): string =>
+    `Title:\n${title}\n\nDescription:\n${description}\n\nTags:\n${tags}\n`;
+
+/**
+ * Collects everything a run produced into one ZIP: the original upload, the
+ * cloned and transparent designs, every finished print file and mockup, the
+ * listing copy, and a manifest.json describing each file. Unfinished or
+ * failed items are left out.
+ */
+export const buildListingPackage = (input: ListingPackageInput, exportedAt: Date = new Date()): Blob => {
+    const { steps, printFiles, mockups } = input.pipeline;
+    const entries: ZipEntry[] = [];
+    const files: ManifestFile[] = [];
+
+    const addImage = (path: string, dataUrl: string, file: Omit<ManifestFile, 'path'>) => {
+        entries.push({ path, data: dataUrlToBytes(dataUrl) });
+        files.push({ path, ...file });
+    };
+
+    addImage(`original.${getExtension(input.sourceImage)}`, input.sourceImage, { kind: 'original' });
+    if (steps.clone.status === Status.SUCCESS) {
+        addImage('design/cloned.png', steps.clone.output!, { kind: 'cloned' });
+    }
+    if (steps.removeBackground.status === Status.SUCCESS) {
+        addImage('design/transparent.png', steps.removeBackground.output!, { kind: 'transparent' });
+    }
+    for (const printFile of printFiles) {
+        if (printFile.status !== Status.SUCCESS) continue;
+        const { id, name, width, height, dpi } = printFile;
+        addImage(`print-files/${toFileSlug(id)}-${width}x${height}.png`, printFile.imageUrl!, { kind: 'printFile', id, name, width, height, dpi });
+    }
+    for (const mockup of mockups) {
+        if (mockup.status !== Status.SUCCESS) continue;
+        addImage(`mockups/${getMockupFileName(input.name, mockup.id)}`, mockup.imageUrl!, {
+            kind: 'mockup',
+            id: mockup.id,
+            name: mockup.name,
+            colorName: mockup.color.name,
+            colorHex: mockup.color.hex ?? steps.analyzeColor.output ?? undefined,
+        });
+    }
+    if (input.productDetails) {
+        entries.push({ path: 'details.json', data: JSON.stringify(input.productDetails, null, 2) });
+        entries.push({ path: 'details.txt', data: formatDetailsText(input.productDetails) });
+        files.push({ path: 'details.json', kind: 'details' }, { path: 'details.txt', kind: 'details' });
+    }
+
+    const manifest = {
+        name: input.name,
+        exportedAt: exportedAt.toISOString(),
+        mode: input.mode,
+        additionalInstructions: input.additionalInstructions || null,
+        prompt: steps.extractPrompt.output,
+        productDetails: input.productDetails,
+        files,
+    };
+    entries.push({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+    return createZip(entries, exportedAt);
+};
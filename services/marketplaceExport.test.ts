@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { MarketplaceExportOptions, Project } from '../types';
+import { toCsv } from '../utils/csv';
+import { DEFAULT_MARKETPLACE_EXPORT, buildMarketplaceRows } from './marketplaceExport';
+import { createPipelineState } from './pipeline';
+
+const createProject = (title: string, tags: string): Project => ({
+    id: 'project-1',
+    name: 'Mountain',
+    createdAt: 0,
+    updatedAt: 0,
+    sourceImage: '',
+    mode: 'cloner',
+    additionalInstructions: '',
+    pipeline: createPipelineState([], {}),
+    productDetails: { title, description: 'A mountain.', tags },
+});
+
+const ETSY: MarketplaceExportOptions = { ...DEFAULT_MARKETPLACE_EXPORT, format: 'etsy' };
+
+const etsyCell = (project: Project, header: string) => {
+    const [headers, row] = buildMarketplaceRows([project], ETSY);
+    return row[headers.indexOf(header)];
+};
+
+describe('Etsy export', () => {
+    it('shortens tags over 20 characters at a word boundary', () => {
+        expect(etsyCell(createProject('Title', 'retro mountain sunset shirt, hiking'), 'TAGS')).toBe('retro mountain,hiking');
+    });
+
+    it('cuts a long tag without spaces at the limit', () => {
+        expect(etsyCell(createProject('Title', 'supercalifragilisticexpialidocious'), 'TAGS')).toBe('supercalifragilistic');
+    });
+
+    it('drops the duplicates shortening creates and keeps at most 13 tags', () => {
+        const tags = ['mountain sunset shirt', 'mountain sunset coffee mug', ...Array.from({ length: 15 }, (_, i) => `tag${i}`)];
+        const exported = String(etsyCell(createProject('Title', tags.join(', ')), 'TAGS')).split(',');
+        expect(exported).toHaveLength(13);
+        expect(exported[0]).toBe('mountain sunset');
+        expect(exported[1]).toBe('tag0');
+        expect(exported.every(tag => tag.length <= 20)).toBe(true);
+    });
+
+    it('keeps titles within 140 characters', () => {
+        expect(String(etsyCell(createProject('x'.repeat(200), ''), 'TITLE'))).toHaveLength(140);
+    });
+});
+
+describe('marketplace CSV', () => {
+    it('does not let a listing title run as a spreadsheet formula', () => {
+        const csv = toCsv(buildMarketplaceRows([createProject('=HYPERLINK("http://x")', 'a')], ETSY));
+        expect(csv.split('\r\n')[1].startsWith(`"'=HYPERLINK(""http://x"")"`)).toBe(true);
+    });
+});
@@ -0,0 +1,214 @@
+import { Status, type GenericColumn, type ListingField, type ListingVariant, type MarketplaceExportOptions, type MarketplaceFormat, type Project } from '../types';
+import { getMockupFileName, toFileSlug } from './listingPackage';
+
+const STORAGE_KEY = 'marketplaceExport';
+
+export const MARKETPLACE_FORMATS: { id: MarketplaceFormat, name: string }[] = [
+    { id: 'shopify', name: 'Shopify' },
+    { id: 'etsy', name: 'Etsy' },
+    { id: 'generic', name: 'Generic' },
+];
+
+export const LISTING_FIELDS: { id: ListingField, label: string }[] = [
+    { id: 'projectName', label: 'Project name' },
+    { id: 'handle', label: 'Handle' },
+    { id: 'title', label: 'Title' },
+    { id: 'description', label: 'Description' },
+    { id: 'tags', label: 'Tags' },
+    { id: 'productId', label: 'Product id' },
+    { id: 'productName', label: 'Product name' },
+    { id: 'colorName', label: 'Color' },
+    { id: 'colorHex', label: 'Color hex' },
+    { id: 'sku', label: 'SKU' },
+    { id: 'mockupFile', label: 'Mockup image' },
+    { id: 'price', label: 'Price' },
+    { id: 'currency', label: 'Currency' },
+    { id: 'vendor', label: 'Vendor' },
+    { id: 'quantity', label: 'Quantity' },
+];
+
+export const DEFAULT_MARKETPLACE_EXPORT: MarketplaceExportOptions = {
+    format: 'shopify',
+    price: '24.99',
+    currency: 'USD',
+    vendor: '',
+    quantity: 999,
+    imageBaseUrl: '',
+    genericColumns: [
+        { header: 'title', field: 'title' },
+        { header: 'description', field: 'description' },
+        { header: 'tags', field: 'tags' },
+        { header: 'product', field: 'productName' },
+        { header: 'color', field: 'colorName' },
+        { header: 'sku', field: 'sku' },
+        { header: 'price', field: 'price' },
+        { header: 'image', field: 'mockupFile' },
+    ],
+};
+
+const ETSY_MAX_TITLE_LENGTH = 140;
+const ETSY_MAX_TAGS = 13;
+const ETSY_MAX_TAG_LENGTH = 20;
+
+const splitTags = (tags: string): string[] =>
+    tags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+/** Shortens a tag to Etsy's limit at a word boundary, so long tags are kept in part rather than dropped. */
+const fitEtsyTag = (tag: string): string => {
+    if (tag.length <= ETSY_MAX_TAG_LENGTH) return tag;
+    const lastSpace = tag.slice(0, ETSY_MAX_TAG_LENGTH + 1).lastIndexOf(' ');
+    return (lastSpace > 0 ? tag.slice(0, lastSpace) : tag.slice(0, ETSY_MAX_TAG_LENGTH)).trim();
+};
+
+/** Etsy's tags: each within the length limit, without the duplicates shortening can create. */
+const toEtsyTags = (tags: string): string[] =>
+    [...new Set(splitTags(tags).map(fitEtsyTag))].slice(0, ETSY_MAX_TAGS);
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Flattens projects into one variant per product and color. Projects without
+ * products still produce a single row so their copy is not lost. Each project
+ * gets its own handle, even when two share a title.
+ */
+export const collectListingVariants = (projects: Project[], options: MarketplaceExportOptions): ListingVariant[] => {
+    const usedHandles = new Set<string>();
+    return projects.flatMap(project => {
+        const baseHandle = toFileSlug(project.productDetails?.title || project.name);
+        let handle = baseHandle;
+        for (let suffix = 2; usedHandles.has(handle); suffix++) {
+            handle = `${baseHandle}-${suffix}`;
+        }
+        usedHandles.add(handle);
+        const base = {
+            projectName: project.name,
+            handle,
+            title: project.productDetails?.title ?? project.name,
+            description: project.productDetails?.description ?? '',
+            tags: splitTags(project.productDetails?.tags ?? '').join(', '),
+            price: options.price,
+            currency: options.currency,
+            vendor: options.vendor,
+            quantity: options.quantity,
+        };
+        if (project.pipeline.mockups.length === 0) {
+            return [{ ...base, productId: '', productName: '', colorName: '', colorHex: '', sku: handle, mockupFile: '' }];
+        }
+        return project.pipeline.mockups.map(mockup => ({
+            ...base,
+            productId: mockup.productId,
+            productName: mockup.name,
+            colorName: mockup.color.name,
+            colorHex: mockup.color.hex ?? project.pipeline.steps.analyzeColor.output ?? '',
+            sku: `${handle}-${toFileSlug(mockup.id)}`,
+            mockupFile: mockup.status === Status.SUCCESS ? `${options.imageBaseUrl}${getMockupFileName(project.name, mockup.id)}` : '',
+        }));
+    });
+};
+
+type CsvRows = (string | number)[][];
+
+/** Shopify product import: variants of one listing share a handle and only the first row carries the product fields. */
+const buildShopifyRows = (variants: ListingVariant[]): CsvRows => {
+    const seenHandles = new Map<string, number>();
+    return [
+        ['Handle', 'Title', 'Body (HTML)', 'Vendor', 'Tags', 'Published', 'Option1 Name', 'Option1 Value', 'Option2 Name', 'Option2 Value', 'Variant SKU', 'Variant Price', 'Variant Inventory Qty', 'Image Src', 'Image Position', 'Variant Image', 'Status'],
+        ...variants.map(variant => {
+            const position = (seenHandles.get(variant.handle) ?? 0) + 1;
+            seenHandles.set(variant.handle, position);
+            const isFirst = position === 1;
+            return [
+                variant.handle,
+                isFirst ? variant.title : '',
+                isFirst && variant.description ? `<p>${escapeHtml(variant.description)}</p>` : '',
+                isFirst ? variant.vendor : '',
+                isFirst ? variant.tags : '',
+                isFirst ? 'TRUE' : '',
+                'Product',
+                variant.productName || 'Default',
+                variant.colorName ? 'Color' : '',
+                variant.colorName,
+                variant.sku,
+                variant.price,
+                variant.quantity,
+                variant.mockupFile,
+                variant.mockupFile ? position : '',
+                variant.mockupFile,
+                isFirst ? 'draft' : '',
+            ];
+        }),
+    ];
+};
+
+/** Etsy-style listing sheet, trimmed to Etsy's title and tag limits. */
+const buildEtsyRows = (variants: ListingVariant[]): CsvRows => [
+    ['TITLE', 'DESCRIPTION', 'PRICE', 'CURRENCY_CODE', 'QUANTITY', 'TAGS', 'IMAGE1', 'VARIATION 1 TYPE', 'VARIATION 1 VALUE', 'VARIATION 2 TYPE', 'VARIATION 2 VALUE', 'SKU'],
+    ...variants.map(variant => [
+        variant.title.slice(0, ETSY_MAX_TITLE_LENGTH),
+        variant.description,
+        variant.price,
+        variant.currency,
+        variant.quantity,
+        toEtsyTags(variant.tags).join(','),
+        variant.mockupFile,
+        variant.productName ? 'Product' : '',
+        variant.productName,
+        variant.colorName ? 'Primary color' : '',
+        variant.colorName,
+        variant.sku,
+    ]),
+];
+
+const buildGenericRows = (variants: ListingVariant[], columns: GenericColumn[]): CsvRows => [
+    columns.map(column => column.header),
+    ...variants.map(variant => columns.map(column => variant[column.field])),
+];
+
+export const buildMarketplaceRows = (projects: Project[], options: MarketplaceExportOptions): CsvRows => {
+    const variants = collectListingVariants(projects, options);
+    switch (options.format) {
+        case 'etsy':
+            return buildEtsyRows(variants);
+        case 'generic':
+            if (options.genericColumns.length === 0) {
+                throw new Error('Add at least one column to the generic mapping.');
+            }
+            return buildGenericRows(variants, options.genericColumns);
+        case 'shopify':
+        default:
+            return buildShopifyRows(variants);
+    }
+};
+
+const isListingField = (value: unknown): value is ListingField =>
+    LISTING_FIELDS.some(field => field.id === value);
+
+/** Reads saved options from an untrusted value, filling gaps with defaults. */
+export const parseMarketplaceExportOptions = (value: unknown): MarketplaceExportOptions => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<MarketplaceExportOptions>;
+    const quantity = Number(raw.quantity);
+    return {
+        format: MARKETPLACE_FORMATS.some(format => format.id === raw.format) ? raw.format! : DEFAULT_MARKETPLACE_EXPORT.format,
+        price: typeof raw.price === 'string' ? raw.price : DEFAULT_MARKETPLACE_EXPORT.price,
+        currency: typeof raw.currency === 'string' ? raw.currency : DEFAULT_MARKETPLACE_EXPORT.currency,
+        vendor: typeof raw.vendor === 'string' ? raw.vendor : DEFAULT_MARKETPLACE_EXPORT.vendor,
+        quantity: Number.isInteger(quantity) && quantity >= 0 ? quantity : DEFAULT_MARKETPLACE_EXPORT.quantity,
+        imageBaseUrl: typeof raw.imageBaseUrl === 'string' ? raw.imageBaseUrl : DEFAULT_MARKETPLACE_EXPORT.imageBaseUrl,
+        genericColumns: Array.isArray(raw.genericColumns)
+            ? raw.genericColumns.filter(column => column && typeof column.header === 'string' && isListingField(column.field))
+            : DEFAULT_MARKETPLACE_EXPORT.genericColumns.map(column => ({ ...column })),
+    };
+};
+
+export const loadMarketplaceExportOptions = (): MarketplaceExportOptions => {
+    try {
+        return parseMarketplaceExportOptions(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseMarketplaceExportOptions(null);
+    }
+};
+
+export const saveMarketplaceExportOptions = (options: MarketplaceExportOptions) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
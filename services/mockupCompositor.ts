@@ -0,0 +1,197 @@
+import type { MockupTemplate, Point, RasterImage } from '../types';
+import { loadImage } from '../utils/fileUtils';
+import { createAbortError } from './errors';
+import { runInSlices, runToEnd, type PixelPass } from './pixelPass';
+
+export interface CompositeOptions {
+    displacement?: RasterImage | null;
+    displacementStrength?: number;
+    shading?: RasterImage | null;
+    shadingStrength?: number;
+}
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+/**
+ * Projective transform taking the unit square onto the quad
+ * (0,0) -> quad[0], (1,0) -> quad[1], (1,1) -> quad[2], (0,1) -> quad[3].
+ */
+const squareToQuad = ([p0, p1, p2, p3]: Point[]): Matrix3 => {
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+    let g = 0;
+    let h = 0;
+    if (dx3 !== 0 || dy3 !== 0) {
+        const denominator = dx1 * dy2 - dx2 * dy1;
+        if (denominator === 0) {
+            throw new Error('The print area corners are collinear.');
+        }
+        g = (dx3 * dy2 - dx2 * dy3) / denominator;
+        h = (dx1 * dy3 - dx3 * dy1) / denominator;
+    }
+    return [
+        p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+        p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+        g, h, 1,
+    ];
+};
+
+const invert = ([a, b, c, d, e, f, g, h, i]: Matrix3): Matrix3 => {
+    const determinant = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+    if (determinant === 0) {
+        throw new Error('The print area cannot be inverted.');
+    }
+    return [
+        (e * i - f * h) / determinant, (c * h - b * i) / determinant, (b * f - c * e) / determinant,
+        (f * g - d * i) / determinant, (a * i - c * g) / determinant, (c * d - a * f) / determinant,
+        (d * h - e * g) / determinant, (b * g - a * h) / determinant, (a * e - b * d) / determinant,
+    ];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Bilinear sample with premultiplied alpha, so transparent pixels do not bleed their color into edges. */
+const sampleBilinear = (image: RasterImage, x: number, y: number, out: number[]) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    out[0] = out[1] = out[2] = out[3] = 0;
+    for (let j = 0; j < 2; j++) {
+        const sy = y0 + j;
+        if (sy < 0 || sy >= image.height) continue;
+        for (let i = 0; i < 2; i++) {
+            const sx = x0 + i;
+            if (sx < 0 || sx >= image.width) continue;
+            const weight = (i ? fx : 1 - fx) * (j ? fy : 1 - fy);
+            const offset = (sy * image.width + sx) * 4;
+            const alpha = (image.data[offset + 3] / 255) * weight;
+            out[0] += image.data[offset] * alpha;
+            out[1] += image.data[offset + 1] * alpha;
+            out[2] += image.data[offset + 2] * alpha;
+            out[3] += alpha;
+        }
+    }
+};
+
+/**
+ * Warps the design into the quad on the base photo and blends it in place.
+ * The design keeps its aspect ratio and is centered in the print area.
+ * Everything is plain arithmetic on pixel buffers, so the same inputs always
+ * produce the same bytes.
+ */
+function* compositeDesignPass(
+    base: RasterImage,
+    design: RasterImage,
+    quad: Point[],
+    { displacement, displacementStrength = 0, shading, shadingStrength = 0 }: CompositeOptions = {},
+): PixelPass<Uint8ClampedArray> {
+    const output = new Uint8ClampedArray(base.data);
+    const inverse = invert(squareToQuad(quad));
+
+    // Fit the design inside the print area using the quad's average edge lengths.
+    const quadWidth = (distance(quad[0], quad[1]) + distance(quad[3], quad[2])) / 2;
+    const quadHeight = (distance(quad[0], quad[3]) + distance(quad[1], quad[2])) / 2;
+    const designAspect = design.width / design.height;
+    const quadAspect = quadWidth / quadHeight;
+    const spanU = designAspect < quadAspect ? designAspect / quadAspect : 1;
+    const spanV = designAspect < quadAspect ? 1 : quadAspect / designAspect;
+    const startU = (1 - spanU) / 2;
+    const startV = (1 - spanV) / 2;
+
+    const margin = Math.ceil(Math.abs(displacementStrength));
+    const minX = Math.max(0, Math.floor(Math.min(...quad.map(p => p.x))) - margin);
+    const maxX = Math.min(base.width - 1, Math.ceil(Math.max(...quad.map(p => p.x))) + margin);
+    const minY = Math.max(0, Math.floor(Math.min(...quad.map(p => p.y))) - margin);
+    const maxY = Math.min(base.height - 1, Math.ceil(Math.max(...quad.map(p => p.y))) + margin);
+
+    const [a, b, c, d, e, f, g, h, i] = inverse;
+    const sample = [0, 0, 0, 0];
+
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            const pixel = y * base.width + x;
+            let px = x + 0.5;
+            let py = y + 0.5;
+            if (displacement && displacementStrength) {
+                const shift = ((displacement.data[pixel * 4] - 128) / 128) * displacementStrength;
+                px += shift;
+                py += shift;
+            }
+
+            const w = g * px + h * py + i;
+            const u = (a * px + b * py + c) / w;
+            const v = (d * px + e * py + f) / w;
+            const du = (u - startU) / spanU;
+            const dv = (v - startV) / spanV;
+            if (du < 0 || du > 1 || dv < 0 || dv > 1) continue;
+
+            sampleBilinear(design, du * design.width - 0.5, dv * design.height - 0.5, sample);
+            const alpha = sample[3];
+            if (alpha <= 0) continue;
+
+            const shade = shading && shadingStrength ? 1 - shadingStrength * (1 - shading.data[pixel * 4] / 255) : 1;
+            const offset = pixel * 4;
+            for (let channel = 0; channel < 3; channel++) {
+                // sample holds premultiplied color, so it is blended without multiplying by alpha again.
+                output[offset + channel] = Math.round(sample[channel] * shade + output[offset + channel] * (1 - alpha));
+            }
+        }
+        yield;
+    }
+    return output;
+}
+
+export const compositeDesign = (base: RasterImage, design: RasterImage, quad: Point[], options?: CompositeOptions): Uint8ClampedArray =>
+    runToEnd(compositeDesignPass(base, design, quad, options));
+
+const readRaster = async (src: string, width?: number, height?: number): Promise<RasterImage> => {
+    const image = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = width ?? image.width;
+    canvas.height = height ?? image.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for compositing.');
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { data: ctx.getImageData(0, 0, canvas.width, canvas.height).data, width: canvas.width, height: canvas.height };
+};
+
+/**
+ * Composites a transparent design onto a template photo, entirely in the
+ * browser. The warp runs in slices, and aborting `signal` stops it.
+ */
+export const renderTemplateMockup = async (base64Design: string, template: MockupTemplate, signal?: AbortSignal): Promise<string> => {
+    if (signal?.aborted) throw createAbortError();
+    const base = await readRaster(template.baseImage);
+    const [design, displacement, shading] = await Promise.all([
+        readRaster(base64Design),
+        // Maps are stretched to the photo so they line up pixel for pixel.
+        template.displacementMap ? readRaster(template.displacementMap, base.width, base.height) : null,
+        template.shadingMap ? readRaster(template.shadingMap, base.width, base.height) : null,
+    ]);
+    if (signal?.aborted) throw createAbortError();
+
+    const data = await runInSlices(compositeDesignPass(base, design, template.quad, {
+        displacement,
+        displacementStrength: template.displacementStrength,
+        shading,
+        shadingStrength: template.shadingStrength,
+    }), signal);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = base.width;
+    canvas.height = base.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for compositing.');
+    }
+    ctx.putImageData(new ImageData(data, base.width, base.height), 0, 0);
+    return canvas.toDataURL('image/png');
+};
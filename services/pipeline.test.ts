@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Status, type ImageProvider, type PipelineState, type Products } from '../types';
+import { approveReview, createPipelineState, getPipelineError, resetStep, runPipeline, updateStep, type PipelineContext } from './pipeline';
+
+const PRODUCTS: Products = {
+    shirt: { name: 'T-Shirt', prompt: 'A t-shirt' },
+    mug: { name: 'Mug', prompt: 'A mug' },
+};
+
+const createProvider = (overrides: Partial<ImageProvider> = {}): ImageProvider => ({
+    id: 'mock',
+    extractDesignPrompt: async () => ({ analysis: 'analysis', prompt: 'A mountain on a solid black background' }),
+    analyzeImageColor: async () => '#112233',
+    generateImage: async (prompt) => `image:${prompt.slice(0, 12)}`,
+    removeBackground: async (image) => `transparent:${image}`,
+    generateProductDetails: async () => ({ title: 'title', description: 'description', tags: '' }),
+    ...overrides,
+});
+
+const createContext = (overrides: Partial<PipelineContext> = {}): PipelineContext => ({
+    provider: createProvider(),
+    products: PRODUCTS,
+    printProfiles: {},
+    sourceImage: 'source',
+    ...overrides,
+});
+
+const run = (state: PipelineState, context: PipelineContext) => runPipeline(state, context, { onUpdate: () => {} });
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('updateStep', () => {
+    it('allows the transitions a run makes', () => {
+        const pending = updateStep(createPipelineState([], PRODUCTS), 'clone', { status: Status.PENDING, output: null, error: null });
+        const done = updateStep(pending, 'clone', { status: Status.SUCCESS, output: 'image', error: null });
+        expect(done.steps.clone).toEqual({ status: Status.SUCCESS, output: 'image', error: null });
+    });
+
+    it('rejects skipping straight from idle to a result', () => {
+        expect(() => updateStep(createPipelineState([], PRODUCTS), 'clone', { status: Status.SUCCESS, output: 'image', error: null }))
+            .toThrow('Illegal pipeline transition for clone: idle -> success');
+    });
+});
+
+describe('resetStep', () => {
+    it('clears the step and everything downstream, keeping upstream results', async () => {
+        const finished = await run(createPipelineState(['shirt'], PRODUCTS), createContext());
+        const reset = resetStep(finished, 'clone');
+
+        expect(reset.steps.extractPrompt.status).toBe(Status.SUCCESS);
+        expect(reset.steps.analyzeColor.status).toBe(Status.SUCCESS);
+        expect(reset.steps.clone.status).toBe(Status.IDLE);
+        expect(reset.steps.removeBackground.status).toBe(Status.IDLE);
+        expect(reset.mockups).toEqual([expect.objectContaining({ status: Status.IDLE, imageUrl: null, error: null })]);
+    });
+
+    it('refuses to reset a mockup that is still running', () => {
+        const state = createPipelineState(['shirt'], PRODUCTS);
+        const running = { ...state, mockups: state.mockups.map(mockup => ({ ...mockup, status: Status.PENDING })) };
+        expect(() => resetStep(running, 'removeBackground')).toThrow('Illegal pipeline transition for mockups shirt: pending -> idle');
+    });
+});
+
+describe('approveReview', () => {
+    it('pauses after extraction for review and continues with the edited prompt', async () => {
+        const prompts: string[] = [];
+        const context = createContext({
+            reviewPrompt: true,
+            provider: createProvider({ generateImage: async (prompt) => (prompts.push(prompt), 'image') }),
+        });
+        const paused = await run(createPipelineState([], PRODUCTS), context);
+        expect(paused.awaitingReview).toBe('extractPrompt');
+        expect(paused.steps.clone.status).toBe(Status.IDLE);
+
+        const approved = approveReview(paused, '  An edited prompt  ');
+        expect(approved.awaitingReview).toBeNull();
+        expect(approved.steps.extractPrompt.output).toBe('An edited prompt');
+
+        const finished = await run(approved, context);
+        expect(prompts).toEqual(['An edited prompt']);
+        expect(finished.steps.removeBackground.status).toBe(Status.SUCCESS);
+    });
+
+    it('keeps the output when the edit is blank', async () => {
+        const paused = await run(createPipelineState([], PRODUCTS), createContext({ reviewPrompt: true }));
+        expect(approveReview(paused, '   ').steps.extractPrompt.output).toBe('A mountain on a solid black background');
+    });
+
+    it('only accepts one of the generated candidates for the clone', async () => {
+        const paused = await run(createPipelineState([], PRODUCTS), createContext({ cloneCandidates: 2 }));
+        expect(paused.awaitingReview).toBe('clone');
+        expect(() => approveReview(paused, 'someone-elses-image')).toThrow('not one of the generated candidates');
+    });
+
+    it('fails when nothing is waiting', () => {
+        expect(() => approveReview(createPipelineState([], PRODUCTS))).toThrow('nothing waiting for review');
+    });
+});
+
+describe('runPipeline', () => {
+    it('records failed mockups without failing the steps', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const context = createContext({
+            provider: createProvider({
+                generateImage: async (prompt) => {
+                    if (prompt.includes('A mug')) throw new Error('No mug today.');
+                    return 'image';
+                },
+            }),
+        });
+        const finished = await run(createPipelineState(['shirt', 'mug'], PRODUCTS), context);
+
+        expect(finished.mockups.map(mockup => mockup.status)).toEqual([Status.SUCCESS, Status.FAILED]);
+        expect(getPipelineError(finished)).toBe('1 mockup failed.');
+    });
+
+    it('marks the running step cancelled when aborted and resumes from it', async () => {
+        const controller = new AbortController();
+        const context = createContext({
+            signal: controller.signal,
+            provider: createProvider({
+                removeBackground: (_image, options) => new Promise((_resolve, reject) => {
+                    options?.signal?.addEventListener('abort', () => reject(new DOMException('Cancelled', 'AbortError')));
+                    controller.abort();
+                }),
+            }),
+        });
+        const cancelled = await run(createPipelineState(['shirt'], PRODUCTS), context);
+
+        expect(cancelled.steps.clone.status).toBe(Status.SUCCESS);
+        expect(cancelled.steps.removeBackground.status).toBe(Status.CANCELLED);
+        expect(cancelled.mockups[0].status).toBe(Status.IDLE);
+        expect(getPipelineError(cancelled)).toBeNull();
+
+        const resumed = await run(cancelled, createContext());
+        expect(resumed.steps.removeBackground.status).toBe(Status.SUCCESS);
+        expect(resumed.mockups[0].status).toBe(Status.SUCCESS);
+    });
+});
@@ -0,0 +1,461 @@
+import { Status, type ErrorSource, type ImageProvider, type ProviderCallOptions, type RetryStatus, type UsageStep, type Mockup, type MockupTemplate, type PipelineState, type PipelineStep, type PipelineStepId, type PrintFile, type PrintProfile, type ProductColor, type PrintPlacement, type Products, type UpscaleSettings } from '../types';
+import { DETECTED_COLOR, TEMPLATE_PHOTO_COLOR } from '../constants';
+import { buildClonePrompt, createMockup, resizeDesign } from './designService';
+import { toStudioError, type StudioError } from './errors';
+import { renderTemplateMockup } from './mockupCompositor';
+
+export interface PipelineContext {
+    provider: ImageProvider;
+    products: Products;
+    printProfiles: Record<string, PrintProfile>;
+    /** Photo templates for products that composite their mockups locally instead of asking the provider. */
+    templates?: Record<string, MockupTemplate>;
+    sourceImage: string;
+    /** The project (or batch item) that provider calls are attributed to in the usage ledger. */
+    project?: { id: string, name: string };
+    /** How print files are enlarged; defaults to DEFAULT_UPSCALE. */
+    upscale?: UpscaleSettings;
+    /** Trimming and position of the design on print files; defaults to DEFAULT_PLACEMENT. */
+    placement?: PrintPlacement;
+    additionalInstructions?: string;
+    /** Pause after extracting the prompt so the user can check and edit it. */
+    reviewPrompt?: boolean;
+    /** How many clone images to generate in parallel. More than one pauses the run for a pick. */
+    cloneCandidates?: number;
+    /** Cancels the run: calls in flight are aborted and anything not yet started is skipped. */
+    signal?: AbortSignal;
+}
+
+/** Attributes a provider call for the usage ledger and reports its retries. */
+const callOptions = (context: PipelineContext, step: UsageStep, onRetry: (retry: RetryStatus) => void): ProviderCallOptions => ({
+    usage: { step, projectId: context.project?.id ?? null, projectName: context.project?.name ?? null },
+    onRetry,
+    signal: context.signal,
+});
+
+type StepOutputs = Partial<Record<PipelineStepId, string>>;
+
+interface StepResult {
+    output: string;
+    detail?: string;
+    candidates?: string[];
+}
+
+interface StepDefinition {
+    id: PipelineStepId;
+    label: string;
+    dependsOn: PipelineStepId[];
+    /** When this returns true for a finished step, the run stops until the step is approved. */
+    needsReview?: (context: PipelineContext, step: PipelineStep) => boolean;
+    run: (context: PipelineContext, outputs: StepOutputs, options: ProviderCallOptions) => Promise<string | StepResult>;
+}
+
+/**
+ * The step graph, in execution order. Print files and mockups are fan-out
+ * stages that run once the steps they depend on have succeeded.
+ */
+export const PIPELINE_STEPS: StepDefinition[] = [
+    {
+        id: 'analyzeColor',
+        label: 'Analyzing color...',
+        dependsOn: [],
+        run: (context, _outputs, options) => context.provider.analyzeImageColor(context.sourceImage, options),
+    },
+    {
+        id: 'extractPrompt',
+        label: 'Reading design...',
+        dependsOn: [],
+        needsReview: (context) => !!context.reviewPrompt,
+        run: async (context, _outputs, options) => {
+            const { analysis, prompt } = await context.provider.extractDesignPrompt(context.sourceImage, options);
+            return { output: prompt, detail: analysis };
+        },
+    },
+    {
+        id: 'clone',
+        label: 'Cloning design...',
+        dependsOn: ['extractPrompt'],
+        needsReview: (_context, step) => (step.candidates?.length ?? 0) > 1,
+        run: async (context, outputs, options) => {
+            // Redesign instructions are merged here rather than at extraction, so an edited prompt still gets them.
+            const prompt = buildClonePrompt(outputs.extractPrompt!, context.additionalInstructions);
+            const count = Math.max(1, Math.floor(context.cloneCandidates ?? 1));
+            const results = await Promise.allSettled(
+                Array.from({ length: count }, () => context.provider.generateImage(prompt, context.sourceImage, options)),
+            );
+            const candidates = results
+                .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+                .map(result => result.value);
+            if (candidates.length === 0) {
+                throw (results[0] as PromiseRejectedResult).reason;
+            }
+            return { output: candidates[0], candidates };
+        },
+    },
+    {
+        id: 'removeBackground',
+        label: 'Removing background...',
+        dependsOn: ['clone'],
+        run: (context, outputs, options) => context.provider.removeBackground(outputs.clone!, options),
+    },
+];
+
+type FanOutKey = 'printFiles' | 'mockups';
+type FanOutItem = PrintFile | Mockup;
+
+const FAN_OUT_DEPENDENCIES: Record<FanOutKey, PipelineStepId[]> = {
+    printFiles: ['removeBackground'],
+    mockups: ['analyzeColor', 'removeBackground'],
+};
+
+/** Legal status changes for a step, print file or mockup. */
+const TRANSITIONS: Record<Status, Status[]> = {
+    [Status.IDLE]: [Status.PENDING],
+    [Status.PENDING]: [Status.SUCCESS, Status.FAILED, Status.CANCELLED],
+    [Status.SUCCESS]: [Status.IDLE, Status.PENDING],
+    [Status.FAILED]: [Status.PENDING, Status.IDLE],
+    [Status.CANCELLED]: [Status.PENDING, Status.IDLE],
+};
+
+const assertTransition = (from: Status, to: Status, subject: string) => {
+    if (from !== to && !TRANSITIONS[from].includes(to)) {
+        throw new Error(`Illegal pipeline transition for ${subject}: ${from} -> ${to}`);
+    }
+};
+
+const IDLE_STEP: PipelineStep = { status: Status.IDLE, output: null, error: null };
+
+/** The detected color keeps the bare product id, so single-color runs name files as before. */
+export const getMockupId = (productId: string, color: ProductColor): string =>
+    color.hex === null ? productId : `${productId}-${color.hex.replace('#', '').toLowerCase()}`;
+
+/**
+ * One mockup per product × color combination, grouped by product. Products
+ * with a photo template get a single mockup, since the photo fixes the color.
+ */
+export const createPipelineState = (
+    productIds: string[],
+    products: Products,
+    printProfileIds: string[] = [],
+    printProfiles: Record<string, PrintProfile> = {},
+    colors: ProductColor[] = [DETECTED_COLOR],
+): PipelineState => ({
+    steps: {
+        analyzeColor: IDLE_STEP,
+        extractPrompt: IDLE_STEP,
+        clone: IDLE_STEP,
+        removeBackground: IDLE_STEP,
+    },
+    printFiles: printProfileIds.map(id => {
+        const { name, width, height, dpi } = printProfiles[id];
+        return { id, name, width, height, dpi, status: Status.IDLE, imageUrl: null, error: null };
+    }),
+    mockups: productIds.flatMap(productId => (products[productId].templateId ? [TEMPLATE_PHOTO_COLOR] : colors).map(color => ({
+        id: getMockupId(productId, color),
+        productId,
+        color,
+        name: products[productId].name,
+        status: Status.IDLE,
+        imageUrl: null,
+        error: null,
+    }))),
+    awaitingReview: null,
+});
+
+export const updateStep = (state: PipelineState, id: PipelineStepId, next: PipelineStep): PipelineState => {
+    assertTransition(state.steps[id].status, next.status, id);
+    return { ...state, steps: { ...state.steps, [id]: next } };
+};
+
+const updateFanOutItem = (state: PipelineState, key: FanOutKey, id: string, patch: Partial<FanOutItem>): PipelineState => ({
+    ...state,
+    [key]: (state[key] as FanOutItem[]).map(item => {
+        if (item.id !== id) return item;
+        if (patch.status) assertTransition(item.status, patch.status, `${key} ${id}`);
+        return { ...item, ...patch };
+    }),
+});
+
+const getDependents = (id: PipelineStepId): PipelineStepId[] => {
+    const direct = PIPELINE_STEPS.filter(step => step.dependsOn.includes(id)).map(step => step.id);
+    return direct.flatMap(dependent => [dependent, ...getDependents(dependent)]);
+};
+
+/**
+ * Clears a step and everything downstream of it, so the next run recomputes them.
+ * Upstream outputs are kept.
+ */
+export const resetStep = (state: PipelineState, id: PipelineStepId): PipelineState => {
+    const stale = [id, ...getDependents(id)];
+    let next = state.awaitingReview && stale.includes(state.awaitingReview) ? { ...state, awaitingReview: null } : state;
+    for (const staleId of stale) {
+        if (next.steps[staleId].status !== Status.IDLE) {
+            next = updateStep(next, staleId, IDLE_STEP);
+        }
+    }
+    for (const key of Object.keys(FAN_OUT_DEPENDENCIES) as FanOutKey[]) {
+        if (!stale.some(staleId => FAN_OUT_DEPENDENCIES[key].includes(staleId))) continue;
+        for (const item of next[key] as FanOutItem[]) {
+            next = updateFanOutItem(next, key, item.id, { status: Status.IDLE, imageUrl: null, error: null });
+        }
+    }
+    return next;
+};
+
+const assertCandidate = (step: PipelineStep, output: string) => {
+    if (step.candidates && step.candidates.length > 0 && !step.candidates.includes(output)) {
+        throw new Error('That image is not one of the generated candidates.');
+    }
+};
+
+/**
+ * Accepts the step the run is paused on, optionally replacing its output with
+ * the user's edit or chosen candidate. Call runPipeline afterwards to continue.
+ */
+export const approveReview = (state: PipelineState, editedOutput?: string): PipelineState => {
+    const id = state.awaitingReview;
+    if (!id) {
+        throw new Error('There is nothing waiting for review.');
+    }
+    const output = editedOutput?.trim() || state.steps[id].output!;
+    assertCandidate(state.steps[id], output);
+    const approved = updateStep(state, id, { ...state.steps[id], output });
+    return { ...approved, awaitingReview: null };
+};
+
+/**
+ * Switches the clone step to another of its candidates after the run has
+ * moved on. Everything downstream is reset, so run the pipeline again.
+ */
+export const selectCloneCandidate = (state: PipelineState, imageUrl: string): PipelineState => {
+    const clone = state.steps.clone;
+    assertCandidate(clone, imageUrl);
+    const reset = resetStep(state, 'removeBackground');
+    return updateStep(reset, 'clone', { ...clone, output: imageUrl });
+};
+
+/** Swaps in an edited copy of a finished print file, e.g. after a preflight fix. */
+export const replacePrintFileImage = (state: PipelineState, id: string, imageUrl: string): PipelineState => {
+    const printFile = state.printFiles.find(item => item.id === id);
+    if (printFile?.status !== Status.SUCCESS) {
+        throw new Error('Only finished print files can be replaced.');
+    }
+    return updateFanOutItem(state, 'printFiles', id, { imageUrl });
+};
+
+export const getFailedStep = (state: PipelineState): PipelineStepId | null =>
+    PIPELINE_STEPS.find(step => state.steps[step.id].status === Status.FAILED)?.id ?? null;
+
+const countLabel = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Why a run did not fully succeed: the failed step's error, or how many print
+ * files and mockups failed. Null when nothing failed.
+ */
+export const getPipelineError = (state: PipelineState): string | null => {
+    const failedStep = getFailedStep(state);
+    if (failedStep) {
+        return state.steps[failedStep].error ?? 'Processing failed.';
+    }
+    const failedPrintFiles = state.printFiles.filter(printFile => printFile.status === Status.FAILED).length;
+    const failedMockups = state.mockups.filter(mockup => mockup.status === Status.FAILED).length;
+    const failures = [
+        ...(failedPrintFiles > 0 ? [countLabel(failedPrintFiles, 'print file')] : []),
+        ...(failedMockups > 0 ? [countLabel(failedMockups, 'mockup')] : []),
+    ];
+    return failures.length > 0 ? `${failures.join(' and ')} failed.` : null;
+};
+
+const getErrorMessage = (err: unknown, fallback: string): string =>
+    err instanceof Error && err.message ? err.message : fallback;
+
+export interface PipelineCallbacks {
+    /**
+     * Receives each change as an updater rather than a snapshot, so a mockup
+     * retry and a running pipeline can both write into the same state.
+     */
+    onUpdate: (update: (state: PipelineState) => PipelineState) => void;
+    onStepStart?: (label: string) => void;
+    /** Hears about every step or item that failed, classified, with where it happened. Cancellations are not reported. */
+    onError?: (error: StudioError, source: ErrorSource) => void;
+}
+
+/** Tracks a run's own view of the state while forwarding every change. */
+const createRun = (initial: PipelineState, callbacks: PipelineCallbacks) => {
+    let current = initial;
+    const apply = (update: (state: PipelineState) => PipelineState) => {
+        current = update(current);
+        callbacks.onUpdate(update);
+    };
+    const fail = (err: unknown, source: ErrorSource) => callbacks.onError?.(toStudioError(err), source);
+    return { apply, fail, get: () => current };
+};
+
+let printFileQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Print files are rendered one after another across all runs. Each holds
+ * hundreds of megabytes while it resamples, and rendering them in turn lets
+ * the page paint between them instead of grinding through all at once.
+ */
+const renderOneAtATime = <T>(render: () => Promise<T>): Promise<T> => {
+    const result = printFileQueue.then(render);
+    printFileQueue = result.catch(() => undefined);
+    return result;
+};
+
+const produceFanOutItem = async (
+    key: FanOutKey,
+    item: FanOutItem,
+    context: PipelineContext,
+    steps: PipelineState['steps'],
+    onRetry: (retry: RetryStatus) => void,
+): Promise<string> => {
+    if (key === 'printFiles') {
+        const profile = context.printProfiles[item.id];
+        if (!profile) {
+            throw new Error('This print profile is no longer in the catalog.');
+        }
+        return renderOneAtATime(() => resizeDesign(steps.removeBackground.output!, profile, context.upscale, context.placement, context.signal));
+    }
+
+    const { productId, color } = item as Mockup;
+    const product = context.products[productId];
+    if (!product) {
+        throw new Error('This product is no longer in the catalog.');
+    }
+    if (product.templateId) {
+        const template = context.templates?.[product.templateId];
+        if (!template) {
+            throw new Error('This mockup template no longer exists.');
+        }
+        return renderTemplateMockup(steps.removeBackground.output!, template, context.signal);
+    }
+    return createMockup(
+        context.provider,
+        steps.removeBackground.output!,
+        product.prompt,
+        color.hex ?? steps.analyzeColor.output!,
+        context.additionalInstructions,
+        callOptions(context, 'mockup', onRetry),
+    );
+};
+
+const runFanOutJob = async (
+    run: ReturnType<typeof createRun>,
+    context: PipelineContext,
+    key: FanOutKey,
+    id: string,
+) => {
+    const { steps } = run.get();
+    const item = (run.get()[key] as FanOutItem[]).find(candidate => candidate.id === id);
+    if (!item) {
+        throw new Error(`Unknown ${key === 'printFiles' ? 'print file' : 'mockup'}: ${id}`);
+    }
+    if (context.signal?.aborted) return;
+    run.apply(state => updateFanOutItem(state, key, id, { status: Status.PENDING, imageUrl: null, error: null, retry: null }));
+    try {
+        const imageUrl = await produceFanOutItem(key, item, context, steps, retry => run.apply(state => updateFanOutItem(state, key, id, { retry })));
+        run.apply(state => updateFanOutItem(state, key, id, { status: Status.SUCCESS, imageUrl, retry: null }));
+    } catch (err) {
+        if (context.signal?.aborted) {
+            run.apply(state => updateFanOutItem(state, key, id, { status: Status.CANCELLED, error: null, retry: null }));
+            return;
+        }
+        console.error(`Failed ${key} item ${id}:`, err);
+        const fallback = key === 'printFiles' ? 'Resizing failed.' : 'Mockup creation failed.';
+        run.apply(state => updateFanOutItem(state, key, id, { status: Status.FAILED, error: getErrorMessage(err, fallback), retry: null }));
+        run.fail(err, { type: key === 'printFiles' ? 'printFile' : 'mockup', id });
+    }
+};
+
+const runOutstanding = (run: ReturnType<typeof createRun>, context: PipelineContext, key: FanOutKey) =>
+    Promise.all((run.get()[key] as FanOutItem[])
+        .filter(item => item.status !== Status.SUCCESS)
+        .map(item => runFanOutJob(run, context, key, item.id)));
+
+/**
+ * Runs every step that has not succeeded yet, in graph order, then all
+ * outstanding print files and mockups in parallel. Calling it again on a
+ * failed or cancelled state resumes from where it stopped. When a step needs review the
+ * run stops after it and does nothing until approveReview is called. Resolves with the final state;
+ * it never rejects for a step failure, which is recorded on the step instead.
+ * Aborting `context.signal` marks whatever was running as cancelled and leaves
+ * the rest untouched, so finished results are kept.
+ */
+export const runPipeline = async (
+    initial: PipelineState,
+    context: PipelineContext,
+    callbacks: PipelineCallbacks,
+): Promise<PipelineState> => {
+    const run = createRun(initial, callbacks);
+    if (initial.awaitingReview) {
+        return initial;
+    }
+
+    for (const step of PIPELINE_STEPS) {
+        if (run.get().steps[step.id].status === Status.SUCCESS) continue;
+        if (context.signal?.aborted) return run.get();
+
+        const outputs: StepOutputs = {};
+        for (const dependency of step.dependsOn) {
+            outputs[dependency] = run.get().steps[dependency].output!;
+        }
+
+        callbacks.onStepStart?.(step.label);
+        run.apply(state => updateStep(state, step.id, { status: Status.PENDING, output: null, error: null }));
+        try {
+            const onRetry = (retry: RetryStatus) => run.apply(state => updateStep(state, step.id, { ...state.steps[step.id], retry }));
+            const result = await step.run(context, outputs, callOptions(context, step.id, onRetry));
+            const { output, detail = null, candidates } = typeof result === 'string' ? { output: result } : result;
+            run.apply(state => updateStep(state, step.id, { status: Status.SUCCESS, output, error: null, detail, candidates }));
+        } catch (err) {
+            if (context.signal?.aborted) {
+                run.apply(state => updateStep(state, step.id, { status: Status.CANCELLED, output: null, error: null }));
+                return run.get();
+            }
+            console.error(`Pipeline step "${step.id}" failed:`, err);
+            const error = getErrorMessage(err, 'Could not process the design. Please try another image.');
+            run.apply(state => updateStep(state, step.id, { status: Status.FAILED, output: null, error }));
+            run.fail(err, { type: 'step', id: step.id });
+            return run.get();
+        }
+
+        if (step.needsReview?.(context, run.get().steps[step.id])) {
+            run.apply(state => ({ ...state, awaitingReview: step.id }));
+            return run.get();
+        }
+    }
+
+    if (context.signal?.aborted) return run.get();
+    callbacks.onStepStart?.(run.get().mockups.length > 0 ? 'Creating mockups...' : 'Resizing for print...');
+    await Promise.all([
+        runOutstanding(run, context, 'printFiles'),
+        runOutstanding(run, context, 'mockups'),
+    ]);
+
+    return run.get();
+};
+
+const retryFanOutItem = async (
+    key: FanOutKey,
+    initial: PipelineState,
+    context: PipelineContext,
+    id: string,
+    callbacks: PipelineCallbacks,
+): Promise<PipelineState> => {
+    if (FAN_OUT_DEPENDENCIES[key].some(stepId => initial.steps[stepId].status !== Status.SUCCESS)) {
+        throw new Error('The design must finish processing before this can be regenerated.');
+    }
+    const run = createRun(initial, callbacks);
+    await runFanOutJob(run, context, key, id);
+    return run.get();
+};
+
+/** Regenerates one mockup from the already finished design steps. */
+export const retryMockup = (initial: PipelineState, context: PipelineContext, mockupId: string, callbacks: PipelineCallbacks) =>
+    retryFanOutItem('mockups', initial, context, mockupId, callbacks);
+
+/** Re-renders one print file from the already finished design steps. */
+export const retryPrintFile = (initial: PipelineState, context: PipelineContext, profileId: string, callbacks: PipelineCallbacks) =>
+    retryFanOutItem('printFiles', initial, context, profileId, callbacks);
@@ -0,0 +1,30 @@
+import { abortableDelay } from './requestScheduler';
+
+/**
+ * A long pixel pass that yields after every row, so it can run either to the
+ * end at once or a slice at a time between frames.
+ */
+export type PixelPass<T> = Generator<void, T, void>;
+
+export const runToEnd = <T>(pass: PixelPass<T>): T => {
+    for (;;) {
+        const step = pass.next();
+        if (step.done) return step.value;
+    }
+};
+
+/** How long a pass may hold the main thread before letting the page paint and handle input. */
+const SLICE_MS = 30;
+
+/** Runs a pass in slices, checking `signal` between them so a cancelled run stops mid-pass. */
+export const runInSlices = async <T>(pass: PixelPass<T>, signal?: AbortSignal): Promise<T> => {
+    let sliceStart = performance.now();
+    for (;;) {
+        const step = pass.next();
+        if (step.done) return step.value;
+        if (performance.now() - sliceStart > SLICE_MS) {
+            await abortableDelay(0, signal);
+            sliceStart = performance.now();
+        }
+    }
+};
@@ -0,0 +1,119 @@
+import type { PlacementAlign, PrintPlacement, PrintProfile, RasterImage } from '../types';
+import { loadImage } from '../utils/fileUtils';
+import { runToEnd, type PixelPass } from './pixelPass';
+
+const STORAGE_KEY = 'printPlacement';
+
+export const PLACEMENT_ALIGNS: { id: PlacementAlign, name: string }[] = [
+    { id: 'top', name: 'Top' },
+    { id: 'center', name: 'Center' },
+];
+
+export const DEFAULT_PLACEMENT: PrintPlacement = {
+    trim: true,
+    align: 'top',
+    maxWidthPercent: 100,
+    offsetTopInches: 0,
+};
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parsePrintPlacement = (value: unknown): PrintPlacement => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<PrintPlacement>;
+    const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+    return {
+        trim: typeof raw.trim === 'boolean' ? raw.trim : DEFAULT_PLACEMENT.trim,
+        align: PLACEMENT_ALIGNS.some(option => option.id === raw.align) ? raw.align! : DEFAULT_PLACEMENT.align,
+        maxWidthPercent: isNumber(raw.maxWidthPercent) ? Math.min(100, Math.max(10, raw.maxWidthPercent)) : DEFAULT_PLACEMENT.maxWidthPercent,
+        offsetTopInches: isNumber(raw.offsetTopInches) ? Math.max(0, raw.offsetTopInches) : DEFAULT_PLACEMENT.offsetTopInches,
+    };
+};
+
+export const loadPrintPlacement = (): PrintPlacement => {
+    try {
+        return parsePrintPlacement(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parsePrintPlacement(null);
+    }
+};
+
+export const savePrintPlacement = (placement: PrintPlacement) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(placement));
+};
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Smallest rectangle holding every pixel with at least minAlpha, or null for a blank image. */
+export function* visibleBoundsPass(image: RasterImage, minAlpha = 1): PixelPass<Rect | null> {
+    const { data, width, height } = image;
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] < minAlpha) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+        yield;
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+export const getVisibleBounds = (image: RasterImage, minAlpha = 1): Rect | null => runToEnd(visibleBoundsPass(image, minAlpha));
+
+/**
+ * The rectangle, in print canvas pixels (trim size plus bleed), that a design
+ * of the given size is drawn into. It never leaves the safe area.
+ */
+export const computePlacement = (sourceWidth: number, sourceHeight: number, profile: PrintProfile, placement: PrintPlacement): Rect & { ratio: number } => {
+    const bleed = Math.round(profile.bleedInches * profile.dpi);
+    const safeMargin = Math.round(profile.safeMarginInches * profile.dpi);
+    const canvasWidth = profile.width + bleed * 2;
+    const canvasHeight = profile.height + bleed * 2;
+    const safeTop = bleed + safeMargin;
+    const safeWidth = profile.width - safeMargin * 2;
+    const safeHeight = profile.height - safeMargin * 2;
+
+    const offsetTop = placement.align === 'top' ? Math.min(Math.round(placement.offsetTopInches * profile.dpi), safeHeight - 1) : 0;
+    const maxWidth = safeWidth * (placement.maxWidthPercent / 100);
+    const ratio = Math.min(maxWidth / sourceWidth, (safeHeight - offsetTop) / sourceHeight);
+    const width = Math.max(1, Math.round(sourceWidth * ratio));
+    const height = Math.max(1, Math.round(sourceHeight * ratio));
+
+    return {
+        x: Math.round((canvasWidth - width) / 2),
+        y: placement.align === 'top' ? safeTop + offsetTop : Math.round((canvasHeight - height) / 2),
+        width,
+        height,
+        ratio,
+    };
+};
+
+/** Reads a design's pixels and, when trimming, the part of it that is actually visible. */
+export const measureDesign = async (base64Image: string, trim: boolean) => {
+    const image = await loadImage(base64Image).catch(() => {
+        throw new Error('Failed to load image for placement.');
+    });
+    const full: Rect = { x: 0, y: 0, width: image.width, height: image.height };
+    if (!trim) {
+        return { image, bounds: full };
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for placement.');
+    }
+    ctx.drawImage(image, 0, 0);
+    const data = ctx.getImageData(0, 0, image.width, image.height).data;
+    return { image, bounds: getVisibleBounds({ data, width: image.width, height: image.height }) ?? full };
+};
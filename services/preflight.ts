@@ -0,0 +1,379 @@
+import type { PreflightIssue, PreflightIssueId, PreflightReport, PrintFileSource, PrintPlacement, PrintProfile, RasterImage } from '../types';
+import { loadImage } from '../utils/fileUtils';
+import { setPngDpi } from '../utils/png';
+import { runInSlices, type PixelPass } from './pixelPass';
+import { resizeDesign } from './designService';
+import { visibleBoundsPass } from './placement';
+
+/** Alpha at or above this counts as part of the design. */
+const VISIBLE_ALPHA = 16;
+/** More than this share of partially transparent pixels away from the outline is worth flagging. */
+const MAX_SEMI_TRANSPARENT_SHARE = 0.01;
+/** Outline pixels much lighter or darker than the design next to them are likely background residue. */
+const HALO_CONTRAST = 96;
+const MAX_HALO_SHARE = 0.15;
+/** Specks smaller than this square (in inches) are too small to print and are usually leftovers. */
+const STRAY_SIZE_INCHES = 0.02;
+/** A design covering less than this share of the safe area in both directions looks lost on the product. */
+const MIN_FILL = 0.5;
+/** Off-center by more than this share of the canvas. */
+const MAX_CENTER_OFFSET = 0.03;
+/** Most DTG and screen printers cannot hold strokes thinner than this. */
+export const MIN_STROKE_INCHES = 0.01;
+const MAX_THIN_SHARE = 0.002;
+/** Saturation (max minus min channel) above which vivid greens, blues and violets fall outside CMYK. */
+const MAX_PRINTABLE_CHROMA = 200;
+const MAX_OUT_OF_GAMUT_SHARE = 0.001;
+
+const percent = (share: number) => `${(share * 100).toFixed(share < 0.01 ? 2 : 1)}%`;
+
+const getSafeArea = (image: RasterImage, profile: PrintProfile) => {
+    const inset = Math.round((profile.bleedInches + profile.safeMarginInches) * profile.dpi);
+    return { x: inset, y: inset, width: image.width - inset * 2, height: image.height - inset * 2 };
+};
+
+const isOutline = (image: RasterImage, x: number, y: number) => {
+    const { data, width, height } = image;
+    return (x > 0 && data[(y * width + x - 1) * 4 + 3] === 0)
+        || (x < width - 1 && data[(y * width + x + 1) * 4 + 3] === 0)
+        || (y > 0 && data[((y - 1) * width + x) * 4 + 3] === 0)
+        || (y < height - 1 && data[((y + 1) * width + x) * 4 + 3] === 0);
+};
+
+const boundsPass = (image: RasterImage) => visibleBoundsPass(image, VISIBLE_ALPHA);
+
+/** Average color of the fully opaque pixels around (x, y), or null if there are none. */
+const getOpaqueNeighborColor = (image: RasterImage, x: number, y: number, radius = 2): [number, number, number] | null => {
+    const { data, width, height } = image;
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+            const offset = (ny * width + nx) * 4;
+            if (data[offset + 3] !== 255) continue;
+            sum[0] += data[offset];
+            sum[1] += data[offset + 1];
+            sum[2] += data[offset + 2];
+            count++;
+        }
+    }
+    return count ? [sum[0] / count, sum[1] / count, sum[2] / count] : null;
+};
+
+const isHaloPixel = (image: RasterImage, x: number, y: number) => {
+    const offset = (y * image.width + x) * 4;
+    if (image.data[offset + 3] === 0 || !isOutline(image, x, y)) return false;
+    const inner = getOpaqueNeighborColor(image, x, y);
+    if (!inner) return false;
+    const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+    return Math.abs(luma(image.data[offset], image.data[offset + 1], image.data[offset + 2]) - luma(...inner)) > HALO_CONTRAST;
+};
+
+/** Labels 4-connected visible regions and returns the pixel indices of those under minArea. */
+function* findStrayPixelsPass(image: RasterImage, minArea: number): PixelPass<number[]> {
+    const { data, width, height } = image;
+    const visited = new Uint8Array(width * height);
+    const stack = new Int32Array(width * height);
+    const strays: number[] = [];
+    const region: number[] = [];
+    for (let start = 0; start < width * height; start++) {
+        if (start % width === 0) yield;
+        if (visited[start] || data[start * 4 + 3] < VISIBLE_ALPHA) continue;
+        let top = 0;
+        stack[top++] = start;
+        visited[start] = 1;
+        region.length = 0;
+        while (top > 0) {
+            const index = stack[--top];
+            // Regions past the limit are kept, so there is no need to remember their pixels.
+            if (region.length < minArea) region.push(index);
+            const x = index % width;
+            const neighbors = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+            for (const neighbor of neighbors) {
+                if (neighbor < 0 || neighbor >= width * height || visited[neighbor] || data[neighbor * 4 + 3] < VISIBLE_ALPHA) continue;
+                visited[neighbor] = 1;
+                stack[top++] = neighbor;
+            }
+        }
+        if (region.length < minArea) strays.push(...region);
+    }
+    return strays;
+}
+
+/** Square min (erode) or max (dilate) filter over a binary mask, done separably. */
+function* morphPass(mask: Uint8Array, width: number, height: number, radius: number, erode: boolean): PixelPass<Uint8Array> {
+    function* pass(source: Uint8Array, horizontal: boolean): PixelPass<Uint8Array> {
+        const out = new Uint8Array(source.length);
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                let value = erode ? 1 : 0;
+                for (let k = -radius; k <= radius && value === (erode ? 1 : 0); k++) {
+                    const nx = horizontal ? x + k : x;
+                    const ny = horizontal ? y : y + k;
+                    const inside = nx >= 0 && ny >= 0 && nx < width && ny < height;
+                    const sample = inside ? source[ny * width + nx] : 0;
+                    value = erode ? value & sample : value | sample;
+                }
+                out[y * width + x] = value;
+            }
+            yield;
+        }
+        return out;
+    }
+    return yield* pass(yield* pass(mask, true), false);
+}
+
+/** Visible pixels that disappear under a morphological opening sized to the minimum stroke. */
+function* countThinPixelsPass(image: RasterImage, minStrokePx: number): PixelPass<number> {
+    const radius = Math.floor(minStrokePx / 2);
+    if (radius < 1) return 0;
+    const { data, width, height } = image;
+    const mask = new Uint8Array(width * height);
+    for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] >= 128 ? 1 : 0;
+    const opened = yield* morphPass(yield* morphPass(mask, width, height, radius, true), width, height, radius, false);
+    let thin = 0;
+    for (let i = 0; i < mask.length; i++) {
+        if (mask[i] && !opened[i]) thin++;
+    }
+    return thin;
+}
+
+const getChroma = (data: Uint8ClampedArray, offset: number) =>
+    Math.max(data[offset], data[offset + 1], data[offset + 2]) - Math.min(data[offset], data[offset + 1], data[offset + 2]);
+
+/** Hue in degrees; vivid greens through violets are the RGB colors CMYK inks reproduce worst. */
+const isOutOfGamut = (data: Uint8ClampedArray, offset: number) => {
+    if (data[offset + 3] < VISIBLE_ALPHA || getChroma(data, offset) <= MAX_PRINTABLE_CHROMA) return false;
+    const [r, g, b] = [data[offset], data[offset + 1], data[offset + 2]];
+    const max = Math.max(r, g, b);
+    const chroma = getChroma(data, offset);
+    const hue = max === r ? (((g - b) / chroma) % 6) * 60 : max === g ? ((b - r) / chroma + 2) * 60 : ((r - g) / chroma + 4) * 60;
+    const degrees = (hue + 360) % 360;
+    return degrees >= 75 && degrees <= 285;
+};
+
+/** Checks a rendered print file against the profile it was made for. */
+function* analyzePrintFilePass(image: RasterImage, profile: PrintProfile): PixelPass<PreflightReport> {
+    const { data, width, height } = image;
+    const issues: PreflightIssue[] = [];
+    const bounds = yield* boundsPass(image);
+    if (!bounds) {
+        return { issues: [{ id: 'empty', severity: 'error', title: 'Nothing to print', detail: 'The print file is fully transparent.', fixable: false }], bounds };
+    }
+
+    let visible = 0;
+    let semiTransparent = 0;
+    let outline = 0;
+    let halo = 0;
+    let outOfGamut = 0;
+    for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+        for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+            const offset = (y * width + x) * 4;
+            const alpha = data[offset + 3];
+            if (alpha === 0) continue;
+            visible++;
+            const onOutline = isOutline(image, x, y);
+            if (onOutline) {
+                outline++;
+                if (isHaloPixel(image, x, y)) halo++;
+            } else if (alpha < 255) {
+                semiTransparent++;
+            }
+            if (isOutOfGamut(data, offset)) outOfGamut++;
+        }
+        yield;
+    }
+
+    if (semiTransparent / visible > MAX_SEMI_TRANSPARENT_SHARE) {
+        issues.push({
+            id: 'semiTransparent',
+            severity: 'warning',
+            title: 'Semi-transparent areas',
+            detail: `${percent(semiTransparent / visible)} of the design is partly see-through. Most printers lay down white underbase there, so it prints washed out or blotchy.`,
+            fixable: true,
+        });
+    }
+    if (outline > 0 && halo / outline > MAX_HALO_SHARE) {
+        issues.push({
+            id: 'halo',
+            severity: 'warning',
+            title: 'Halo around the design',
+            detail: `${percent(halo / outline)} of the outline is much lighter or darker than the design, usually background left behind by background removal.`,
+            fixable: true,
+        });
+    }
+
+    const strayArea = Math.max(4, Math.round((STRAY_SIZE_INCHES * profile.dpi) ** 2));
+    const strays = yield* findStrayPixelsPass(image, strayArea);
+    if (strays.length > 0) {
+        issues.push({
+            id: 'strayPixels',
+            severity: 'warning',
+            title: 'Stray pixels',
+            detail: `${strays.length} pixels sit in specks smaller than ${STRAY_SIZE_INCHES} in. They will print as dots or not at all.`,
+            fixable: true,
+        });
+    }
+
+    const safe = getSafeArea(image, profile);
+    if (bounds.x < safe.x || bounds.y < safe.y || bounds.x + bounds.width > safe.x + safe.width || bounds.y + bounds.height > safe.y + safe.height) {
+        issues.push({
+            id: 'outsideSafeArea',
+            severity: 'error',
+            title: 'Design crosses the safe area',
+            detail: 'Parts of the design may be trimmed or land on a seam.',
+            fixable: true,
+        });
+    } else if (bounds.width < safe.width * MIN_FILL && bounds.height < safe.height * MIN_FILL) {
+        issues.push({
+            id: 'tooSmall',
+            severity: 'warning',
+            title: 'Design is small for the print area',
+            detail: `It covers ${percent(bounds.width / safe.width)} of the width and ${percent(bounds.height / safe.height)} of the height of the safe area.`,
+            fixable: true,
+        });
+    }
+
+    // Only horizontal balance is checked; top-aligned placement is normal for apparel.
+    const offsetX = (bounds.x + bounds.width / 2 - width / 2) / width;
+    if (Math.abs(offsetX) > MAX_CENTER_OFFSET) {
+        issues.push({
+            id: 'offCenter',
+            severity: 'info',
+            title: 'Design is off-center',
+            detail: `Shifted ${percent(Math.abs(offsetX))} to the ${offsetX < 0 ? 'left' : 'right'}. Ignore this if the placement is intentional.`,
+            fixable: true,
+        });
+    }
+
+    const thin = yield* countThinPixelsPass(image, MIN_STROKE_INCHES * profile.dpi);
+    if (thin / visible > MAX_THIN_SHARE) {
+        issues.push({
+            id: 'thinLines',
+            severity: 'warning',
+            title: 'Thin lines',
+            detail: `${percent(thin / visible)} of the design is thinner than ${MIN_STROKE_INCHES} in (${Math.round(MIN_STROKE_INCHES * profile.dpi)} px) and may break up or vanish in print. Thicken these lines in the design.`,
+            fixable: false,
+        });
+    }
+
+    if (outOfGamut / visible > MAX_OUT_OF_GAMUT_SHARE) {
+        issues.push({
+            id: 'outOfGamut',
+            severity: 'info',
+            title: 'Colors outside the print gamut',
+            detail: `${percent(outOfGamut / visible)} of the design uses vivid greens, blues or violets that print duller than on screen.`,
+            fixable: true,
+        });
+    }
+
+    return { issues, bounds };
+}
+
+/**
+ * Fixes that move or resize the design render the print file again from the
+ * transparent design, keeping the rest of the user's placement, instead of
+ * resampling the already enlarged file a second time.
+ */
+const PLACEMENT_FIXES: Partial<Record<PreflightIssueId, (placement: PrintPlacement) => PrintPlacement>> = {
+    // As wide as the safe area, or as tall as it allows below the top offset.
+    tooSmall: (placement) => ({ ...placement, trim: true, maxWidthPercent: 100 }),
+    // Transparent margins are what push a design off-center or past the safe area.
+    outsideSafeArea: (placement) => ({ ...placement, trim: true }),
+    offCenter: (placement) => ({ ...placement, trim: true }),
+};
+
+/** Returns a repaired copy of the print file. Throws for issues that need a designer. */
+function* fixPreflightIssuePass(image: RasterImage, id: PreflightIssueId, profile: PrintProfile): PixelPass<RasterImage> {
+    const { width, height } = image;
+    const data = new Uint8ClampedArray(image.data);
+    const fixed = { data, width, height };
+    switch (id) {
+        case 'semiTransparent':
+            for (let i = 3; i < data.length; i += 4) {
+                data[i] = data[i] >= 128 ? 255 : 0;
+                if ((i + 1) % (width * 4) === 0) yield;
+            }
+            return fixed;
+        case 'halo':
+            // Recolor from the original so each pixel is judged against untouched neighbors.
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    if (!isHaloPixel(image, x, y)) continue;
+                    const offset = (y * width + x) * 4;
+                    const inner = getOpaqueNeighborColor(image, x, y)!;
+                    data[offset] = inner[0];
+                    data[offset + 1] = inner[1];
+                    data[offset + 2] = inner[2];
+                }
+                yield;
+            }
+            return fixed;
+        case 'strayPixels':
+            for (const index of yield* findStrayPixelsPass(image, Math.max(4, Math.round((STRAY_SIZE_INCHES * profile.dpi) ** 2)))) {
+                data[index * 4 + 3] = 0;
+            }
+            return fixed;
+        case 'outOfGamut':
+            // Pull the chroma back to the printable limit around the pixel's own mid-tone, keeping its hue.
+            for (let offset = 0; offset < data.length; offset += 4) {
+                if (offset % (width * 4) === 0) yield;
+                if (!isOutOfGamut(data, offset)) continue;
+                const chroma = getChroma(data, offset);
+                const mid = (Math.max(data[offset], data[offset + 1], data[offset + 2]) + Math.min(data[offset], data[offset + 1], data[offset + 2])) / 2;
+                const factor = MAX_PRINTABLE_CHROMA / chroma;
+                for (let channel = 0; channel < 3; channel++) {
+                    data[offset + channel] = mid + (data[offset + channel] - mid) * factor;
+                }
+            }
+            return fixed;
+        default:
+            throw new Error('This issue cannot be fixed automatically.');
+    }
+}
+
+const readPrintFile = async (imageUrl: string): Promise<RasterImage> => {
+    const img = await loadImage(imageUrl).catch(() => {
+        throw new Error('Failed to load the print file.');
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for preflight.');
+    }
+    ctx.drawImage(img, 0, 0);
+    return { data: ctx.getImageData(0, 0, img.width, img.height).data, width: img.width, height: img.height };
+};
+
+/** Checks a print file in slices, so the page stays responsive; aborting `signal` stops the check. */
+export const preflightPrintFile = async (imageUrl: string, profile: PrintProfile, signal?: AbortSignal): Promise<PreflightReport> =>
+    runInSlices(analyzePrintFilePass(await readPrintFile(imageUrl), profile), signal);
+
+/** Applies one fix and re-encodes the print file, keeping its DPI. Aborting `signal` stops the fix. */
+export const applyPreflightFix = async (
+    imageUrl: string,
+    id: PreflightIssueId,
+    profile: PrintProfile,
+    source: PrintFileSource,
+    signal?: AbortSignal,
+): Promise<string> => {
+    const adjustPlacement = PLACEMENT_FIXES[id];
+    if (adjustPlacement) {
+        return resizeDesign(source.design, profile, source.upscale, adjustPlacement(source.placement), signal);
+    }
+    const fixed = await runInSlices(fixPreflightIssuePass(await readPrintFile(imageUrl), id, profile), signal);
+    const canvas = document.createElement('canvas');
+    canvas.width = fixed.width;
+    canvas.height = fixed.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for preflight.');
+    }
+    ctx.putImageData(new ImageData(fixed.data, fixed.width, fixed.height), 0, 0);
+    return setPngDpi(canvas.toDataURL('image/png'), profile.dpi);
+};
@@ -0,0 +1,43 @@
+import type { Project } from '../types';
+import { PROJECTS_STORE, runRequest } from './database';
+
+/** Most recently updated first. */
+export const listProjects = async (): Promise<Project[]> => {
+    const projects = await runRequest(PROJECTS_STORE, 'readonly', store => store.getAll() as IDBRequest<Project[]>);
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+    const project = await runRequest(PROJECTS_STORE, 'readonly', store => store.get(id) as IDBRequest<Project | undefined>);
+    return project ?? null;
+};
+
+export const saveProject = async (project: Project): Promise<Project> => {
+    const saved = { ...project, updatedAt: Date.now() };
+    await runRequest(PROJECTS_STORE, 'readwrite', store => store.put(saved));
+    return saved;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const renameProject = async (id: string, name: string): Promise<Project> => {
+    const project = await getProject(id);
+    if (!project) {
+        throw new Error('This project no longer exists.');
+    }
+    return saveProject({ ...project, name });
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+    const project = await getProject(id);
+    if (!project) {
+        throw new Error('This project no longer exists.');
+    }
+    const now = Date.now();
+    return saveProject({ ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now });
+};
+
+export const createProjectName = (date: Date = new Date()): string =>
+    `Design ${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
@@ -0,0 +1,193 @@
+import type { BackgroundRemovalMode, BackgroundRemovalSettings, ProviderCallOptions } from '../../types';
+import { loadImage } from '../../utils/fileUtils';
+import { AuthError, isAbortError } from '../errors';
+import { requestScheduler } from '../requestScheduler';
+import { meterCall, resolveUsageScope, type UsageReporter } from '../usageLedger';
+import { PHOTOROOM_MODEL, removeBackground as removeBackgroundWithPhotoroom } from './photoroom';
+
+export const BACKGROUND_REMOVAL_MODES: { id: BackgroundRemovalMode, name: string, description: string }[] = [
+    { id: 'auto', name: 'Automatic', description: 'Uses Photoroom and falls back to local removal when it fails or no key is set.' },
+    { id: 'photoroom', name: 'Photoroom', description: 'Always uses the Photoroom API.' },
+    { id: 'local', name: 'Local', description: 'Keys out the solid background color in the browser. No API key needed.' },
+];
+
+export const DEFAULT_BACKGROUND_REMOVAL: BackgroundRemovalSettings = {
+    mode: 'auto',
+    tolerance: 12,
+    edgeSoftness: 10,
+    defringe: true,
+};
+
+const clampPercent = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(100, Math.max(0, value)) : fallback;
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parseBackgroundRemovalSettings = (value: unknown): BackgroundRemovalSettings => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<BackgroundRemovalSettings>;
+    return {
+        mode: BACKGROUND_REMOVAL_MODES.some(option => option.id === raw.mode) ? raw.mode! : DEFAULT_BACKGROUND_REMOVAL.mode,
+        tolerance: clampPercent(raw.tolerance, DEFAULT_BACKGROUND_REMOVAL.tolerance),
+        edgeSoftness: clampPercent(raw.edgeSoftness, DEFAULT_BACKGROUND_REMOVAL.edgeSoftness),
+        defringe: typeof raw.defringe === 'boolean' ? raw.defringe : DEFAULT_BACKGROUND_REMOVAL.defringe,
+    };
+};
+
+const MAX_COLOR_DISTANCE = Math.sqrt(3 * 255 * 255);
+
+/** Median of each channel along the image border, which is robust to a design touching an edge. */
+const sampleBorderColor = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+    const channels: [number[], number[], number[]] = [[], [], []];
+    const sample = (x: number, y: number) => {
+        const offset = (y * width + x) * 4;
+        channels[0].push(data[offset]);
+        channels[1].push(data[offset + 1]);
+        channels[2].push(data[offset + 2]);
+    };
+    for (let x = 0; x < width; x++) {
+        sample(x, 0);
+        sample(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        sample(0, y);
+        sample(width - 1, y);
+    }
+    const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+    return [median(channels[0]), median(channels[1]), median(channels[2])];
+};
+
+/**
+ * Makes the solid background around a design transparent, in place.
+ * Only pixels connected to the image border are removed, so background-colored
+ * details inside the design (eyes, letter counters) survive. Pixels in the
+ * soft band just above the tolerance get partial alpha, and with defringe on
+ * the background color is subtracted from them so no dark or light halo is left.
+ */
+export const keyOutSolidBackground = (
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    { tolerance, edgeSoftness, defringe }: Omit<BackgroundRemovalSettings, 'mode'>,
+) => {
+    if (width === 0 || height === 0) return;
+
+    const background = sampleBorderColor(data, width, height);
+    const hardLimit = (tolerance / 100) * MAX_COLOR_DISTANCE;
+    const softRange = (edgeSoftness / 100) * MAX_COLOR_DISTANCE;
+
+    const distanceAt = (pixel: number) => {
+        const offset = pixel * 4;
+        const dr = data[offset] - background[0];
+        const dg = data[offset + 1] - background[1];
+        const db = data[offset + 2] - background[2];
+        return Math.sqrt(dr * dr + dg * dg + db * db);
+    };
+
+    const visited = new Uint8Array(width * height);
+    const stack: number[] = [];
+    const push = (pixel: number) => {
+        if (!visited[pixel] && distanceAt(pixel) <= hardLimit + softRange) {
+            visited[pixel] = 1;
+            stack.push(pixel);
+        }
+    };
+    for (let x = 0; x < width; x++) {
+        push(x);
+        push((height - 1) * width + x);
+    }
+    for (let y = 0; y < height; y++) {
+        push(y * width);
+        push(y * width + width - 1);
+    }
+
+    while (stack.length > 0) {
+        const pixel = stack.pop()!;
+        const x = pixel % width;
+        const distance = distanceAt(pixel);
+        const offset = pixel * 4;
+        const alpha = distance <= hardLimit || softRange === 0 ? 0 : Math.min(1, (distance - hardLimit) / softRange);
+
+        if (alpha > 0 && alpha < 1 && defringe) {
+            // The observed color is a blend of the design and the background; solve for the design color.
+            for (let channel = 0; channel < 3; channel++) {
+                const unblended = (data[offset + channel] - background[channel] * (1 - alpha)) / alpha;
+                data[offset + channel] = Math.min(255, Math.max(0, Math.round(unblended)));
+            }
+        }
+        data[offset + 3] = Math.round(data[offset + 3] * alpha);
+
+        // Only spread through fully removed pixels so the fade stays a thin edge band.
+        if (alpha === 0) {
+            if (x > 0) push(pixel - 1);
+            if (x < width - 1) push(pixel + 1);
+            if (pixel >= width) push(pixel - width);
+            if (pixel < width * (height - 1)) push(pixel + width);
+        }
+    }
+};
+
+/** Client-side background removal for designs rendered on a solid black or white background. */
+export const removeSolidBackground = async (base64Image: string, settings: Omit<BackgroundRemovalSettings, 'mode'>): Promise<string> => {
+    const source = await loadImage(base64Image);
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for background removal.');
+    }
+    ctx.drawImage(source, 0, 0);
+
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    keyOutSolidBackground(imageData.data, canvas.width, canvas.height, settings);
+    ctx.putImageData(imageData, 0, 0);
+
+    return canvas.toDataURL('image/png');
+};
+
+/** A service that removes backgrounds remotely, already scheduled and metered. */
+export type RemoteBackgroundRemover = (base64Image: string, options?: ProviderCallOptions) => Promise<string>;
+
+/** Photoroom called straight from the browser with the user's key, or null when there is no key. */
+export const createPhotoroomRemover = (photoroomApiKey: string, onUsage?: UsageReporter): RemoteBackgroundRemover | null => {
+    if (!photoroomApiKey) return null;
+    return (base64Image, options) => requestScheduler.schedule(
+        'photoroom',
+        () => meterCall(
+            onUsage,
+            { service: 'photoroom', model: PHOTOROOM_MODEL, scope: resolveUsageScope(options, 'removeBackground') },
+            async (measure) => {
+                const result = await removeBackgroundWithPhotoroom(photoroomApiKey, base64Image, options?.signal);
+                measure({ images: 1 });
+                return result;
+            },
+        ),
+        options,
+    );
+};
+
+/** Picks the remote service, local keying, or the remote service with a local fallback based on the settings. */
+export const createBackgroundRemover = (removeRemotely: RemoteBackgroundRemover | null, settings: BackgroundRemovalSettings) =>
+    async (base64Image: string, options?: ProviderCallOptions): Promise<string> => {
+        switch (settings.mode) {
+            case 'local':
+                return removeSolidBackground(base64Image, settings);
+            case 'photoroom':
+                if (!removeRemotely) {
+                    throw new AuthError("Photoroom API key is missing.", { title: 'Photoroom key missing' });
+                }
+                return removeRemotely(base64Image, options);
+            case 'auto':
+            default:
+                if (!removeRemotely) {
+                    return removeSolidBackground(base64Image, settings);
+                }
+                try {
+                    return await removeRemotely(base64Image, options);
+                } catch (err) {
+                    // A cancelled run should stop here, not carry on locally.
+                    if (isAbortError(err)) throw err;
+                    console.warn('Remote background removal failed. Falling back to local removal.', err);
+                    return removeSolidBackground(base64Image, settings);
+                }
+        }
+    };
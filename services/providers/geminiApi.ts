@@ -0,0 +1,189 @@
+// @google/genai Coding Guidelines:
+// User-provided API keys are handled in this file.
+// A new client is instantiated for each request with the user's key.
+import { GoogleGenAI, Type, Modality, type GenerateContentParameters, type GenerateContentResponse } from "@google/genai";
+import type { ExtractedDesign, ProductDetails, UsageMetrics } from '../../types';
+import { getImagePart } from '../../utils/fileUtils';
+import { DESIGN_EXTRACTOR_INSTRUCTION, parseExtractedPrompt } from '../designExtractor';
+import { AuthError, BadOutputError, SafetyBlockedError, isAbortError, toStudioError } from '../errors';
+import { getRetryAfterMs } from '../requestScheduler';
+import type { UsageMeasure } from '../usageLedger';
+
+/*
+ * The Gemini calls themselves, with no scheduling or metering. They use no
+ * browser APIs, so the local proxy server runs the same code.
+ */
+
+export const TEXT_MODEL = 'gemini-2.5-flash';
+export const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+
+const getAiClient = (apiKey: string) => {
+    if (!apiKey) {
+        throw new AuthError("Gemini API key is missing.");
+    }
+    return new GoogleGenAI({ apiKey });
+};
+
+/** Thinking tokens are billed as output, so they are counted with it. */
+const readUsage = (response: GenerateContentResponse): UsageMetrics => {
+    const usage = response.usageMetadata;
+    return {
+        promptTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        totalTokens: usage?.totalTokenCount ?? 0,
+        images: response.candidates?.[0]?.content?.parts?.filter(part => part.inlineData).length ?? 0,
+    };
+};
+
+/** SDK failures come back classified; aborts pass through untouched so cancelling is not reported as an error. */
+const generateContent = async (apiKey: string, params: GenerateContentParameters, measure: UsageMeasure, signal?: AbortSignal): Promise<GenerateContentResponse> => {
+    let response: GenerateContentResponse;
+    try {
+        response = await getAiClient(apiKey).models.generateContent({ ...params, config: { ...params.config, abortSignal: signal } });
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        throw toStudioError(err, 'Gemini', { retryAfterMs: getRetryAfterMs(err) });
+    }
+    measure(readUsage(response));
+    return response;
+};
+
+export const extractDesignPrompt = async (apiKey: string, base64Image: string, measure: UsageMeasure, signal?: AbortSignal): Promise<ExtractedDesign> => {
+    const response = await generateContent(apiKey, {
+        model: TEXT_MODEL,
+        contents: {
+            parts: [
+                { text: DESIGN_EXTRACTOR_INSTRUCTION },
+                getImagePart(base64Image)
+            ]
+        },
+    }, measure, signal);
+
+    return parseExtractedPrompt(response.text);
+};
+
+export const analyzeImageColor = async (apiKey: string, base64Image: string, measure: UsageMeasure, signal?: AbortSignal): Promise<string> => {
+    const prompt = "Analyze the image of a product with a graphic on it. Determine the dominant color of the product's material itself, ignoring the colors within the graphic design. Provide only the hex color code for this dominant background color. For example, if it's a black t-shirt with a white logo, you should return #000000. Your response must be only the hex code.";
+    
+    const response = await generateContent(apiKey, {
+        model: TEXT_MODEL,
+        contents: { parts: [ { text: prompt }, getImagePart(base64Image) ] },
+    }, measure, signal);
+    
+    const color = response.text.trim();
+    return /^#[0-9A-F]{6}$/i.test(color) ? color : '#F3F4F6'; // Default to light gray if invalid
+};
+
+export const generateImage = async (apiKey: string, prompt: string, base64InputImage: string, measure: UsageMeasure, signal?: AbortSignal): Promise<string> => {
+    const response = await generateContent(apiKey, {
+        model: IMAGE_MODEL,
+        contents: {
+            parts: [
+                getImagePart(base64InputImage),
+                { text: prompt },
+            ],
+        },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+        },
+    }, measure, signal);
+
+    // Check for explicit content blocks from the API
+    if (response.promptFeedback?.blockReason) {
+        let errorMessage = `Image generation failed due to: ${response.promptFeedback.blockReason}.`;
+        if (response.promptFeedback.blockReasonMessage) {
+            errorMessage += ` Message: ${response.promptFeedback.blockReasonMessage}`;
+        }
+        throw new SafetyBlockedError(errorMessage, { raw: JSON.stringify(response.promptFeedback, null, 2) });
+    }
+    
+    // Check safety ratings for more detailed feedback, even if not explicitly blocked
+    if (response.promptFeedback?.safetyRatings) {
+        const harmfulRating = response.promptFeedback.safetyRatings.find(
+            (rating) => ['HIGH', 'MEDIUM'].includes(rating.probability)
+        );
+        if (harmfulRating) {
+            const category = harmfulRating.category.replace('HARM_CATEGORY_', '').replace(/_/g, ' ').toLowerCase();
+            throw new SafetyBlockedError(`Image generation failed. The request was filtered due to potential ${category} content.`, {
+                raw: JSON.stringify(response.promptFeedback, null, 2),
+            });
+        }
+    }
+
+    const parts = response.candidates?.[0]?.content?.parts;
+
+    // Check if the API returned any content parts
+    if (!parts || parts.length === 0) {
+        const responseText = response.text?.trim();
+        if (responseText) {
+            throw new BadOutputError(`API call failed: ${responseText}`, { raw: responseText });
+        }
+        throw new BadOutputError("API returned an empty response. This could be due to safety filters or an unclear prompt. Please try modifying your instructions or using a different image.", {
+            raw: JSON.stringify(response.candidates?.[0] ?? null, null, 2),
+        });
+    }
+    
+    const imagePart = parts.find(part => part.inlineData);
+    
+    if (imagePart?.inlineData) {
+        return `data:image/png;base64,${imagePart.inlineData.data}`;
+    }
+
+    // If no image is found, provide a more detailed error using the text part
+    const textPart = parts.find(part => part.text);
+    const textResponse = textPart?.text || response.text;
+
+    if (textResponse && textResponse.trim()) {
+      throw new BadOutputError(`API returned text instead of an image: "${textResponse.trim()}"`, { raw: textResponse });
+    }
+
+    throw new BadOutputError("API did not return an image. Please try a different design or prompt.", {
+        raw: JSON.stringify(parts, null, 2),
+    });
+};
+
+export const generateProductDetails = async (apiKey: string, base64ClonedDesign: string, measure: UsageMeasure, signal?: AbortSignal): Promise<ProductDetails> => {
+    const prompt = "Analyze the provided design. Your task is to generate marketing copy for a print-on-demand product featuring this design.";
+    
+    const response = await generateContent(apiKey, {
+        model: TEXT_MODEL,
+        contents: { parts: [{ text: prompt }, getImagePart(base64ClonedDesign)] },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    title: {
+                        type: Type.STRING,
+                        description: "A short, catchy, and descriptive title (max 10 words)."
+                    },
+                    description: {
+                        type: Type.STRING,
+                        description: "A compelling 2-3 sentence product description that highlights the style, mood, and potential appeal of the design."
+                    },
+                    tags: {
+                        type: Type.STRING,
+                        description: "A single comma-separated string of 10-15 relevant SEO keywords or tags."
+                    }
+                },
+                required: ["title", "description", "tags"]
+            }
+        }
+    }, measure, signal);
+
+    const jsonString = response.text.trim();
+    try {
+        return JSON.parse(jsonString) as ProductDetails;
+    } catch (err) {
+        throw new BadOutputError('The product details were not valid JSON.', { raw: jsonString, cause: err });
+    }
+};
+
+/** Checks a key by looking up the text model, which costs no tokens. */
+export const testGeminiKey = async (apiKey: string): Promise<void> => {
+    try {
+        await getAiClient(apiKey).models.get({ model: TEXT_MODEL });
+    } catch (err) {
+        throw toStudioError(err, 'Gemini');
+    }
+};
@@ -0,0 +1,35 @@
+import type { BackgroundRemovalSettings, ImageProvider, ProviderCallOptions, ProviderCredentials, UsageStep } from '../../types';
+import { requestScheduler } from '../requestScheduler';
+import { meterCall, resolveUsageScope, type UsageMeasure, type UsageReporter } from '../usageLedger';
+import { createBackgroundRemover, createPhotoroomRemover } from './backgroundRemoval';
+import { IMAGE_MODEL, TEXT_MODEL, analyzeImageColor, extractDesignPrompt, generateImage, generateProductDetails } from './geminiApi';
+
+/**
+ * Gemini for every AI step. Background removal goes through Photoroom,
+ * local keying, or both, depending on the settings.
+ */
+export const createGeminiProvider = (
+    { geminiApiKey, photoroomApiKey }: ProviderCredentials,
+    backgroundRemoval: BackgroundRemovalSettings,
+    onUsage?: UsageReporter,
+): ImageProvider => {
+    const metered = <T>(model: string, options: ProviderCallOptions | undefined, step: UsageStep, run: (measure: UsageMeasure) => Promise<T>) =>
+        requestScheduler.schedule(
+            'gemini',
+            () => meterCall(onUsage, { service: 'gemini', model, scope: resolveUsageScope(options, step) }, run),
+            options,
+        );
+
+    return {
+        id: 'gemini',
+        extractDesignPrompt: (base64Image, options) =>
+            metered(TEXT_MODEL, options, 'extractPrompt', measure => extractDesignPrompt(geminiApiKey, base64Image, measure, options?.signal)),
+        analyzeImageColor: (base64Image, options) =>
+            metered(TEXT_MODEL, options, 'analyzeColor', measure => analyzeImageColor(geminiApiKey, base64Image, measure, options?.signal)),
+        generateImage: (prompt, base64InputImage, options) =>
+            metered(IMAGE_MODEL, options, 'clone', measure => generateImage(geminiApiKey, prompt, base64InputImage, measure, options?.signal)),
+        removeBackground: createBackgroundRemover(createPhotoroomRemover(photoroomApiKey, onUsage), backgroundRemoval),
+        generateProductDetails: (base64Image, options) =>
+            metered(TEXT_MODEL, options, 'productDetails', measure => generateProductDetails(geminiApiKey, base64Image, measure, options?.signal)),
+    };
+};
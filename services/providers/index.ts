@@ -0,0 +1,45 @@
+import type { BackgroundRemovalSettings, ImageProvider, KeyedService, ProviderCredentials, ProviderId } from '../../types';
+import type { UsageReporter } from '../usageLedger';
+import { testGeminiKey } from './geminiApi';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { testPhotoroomKey } from './photoroom';
+import { createProxyProvider } from './proxyProvider';
+
+export interface ProviderOption {
+    id: ProviderId;
+    name: string;
+    description: string;
+    requiresGeminiKey: boolean;
+}
+
+export const PROVIDER_OPTIONS: ProviderOption[] = [
+    { id: 'gemini', name: 'Gemini', description: 'Live AI generation. Requires a Gemini API key.', requiresGeminiKey: true },
+    { id: 'proxy', name: 'Local Proxy', description: 'Live AI generation through the local proxy server, which holds the API keys. No keys are used in the browser.', requiresGeminiKey: false },
+    { id: 'mock', name: 'Offline Mock', description: 'Fixture images and text. No network or API keys needed.', requiresGeminiKey: false },
+];
+
+export const isProviderId = (value: string | null): value is ProviderId =>
+    PROVIDER_OPTIONS.some(option => option.id === value);
+
+/** `onUsage` receives a record of every service call the provider makes. */
+export const createProvider = (
+    id: ProviderId,
+    credentials: ProviderCredentials,
+    backgroundRemoval: BackgroundRemovalSettings,
+    onUsage?: UsageReporter,
+): ImageProvider => {
+    switch (id) {
+        case 'proxy':
+            return createProxyProvider(backgroundRemoval, onUsage);
+        case 'mock':
+            return createMockProvider(backgroundRemoval, undefined, onUsage);
+        case 'gemini':
+        default:
+            return createGeminiProvider(credentials, backgroundRemoval, onUsage);
+    }
+};
+
+/** Resolves when the service accepts `key`; rejects with a StudioError explaining why not. */
+export const testApiKey = (service: KeyedService, key: string): Promise<void> =>
+    service === 'gemini' ? testGeminiKey(key) : testPhotoroomKey(key);
@@ -0,0 +1,70 @@
+import type { ProductDetails } from '../../types';
+import { loadImage } from '../../utils/fileUtils';
+
+export const FIXTURE_EXTRACTOR_RESPONSE = `<analysis>
+Mock analysis: a single line of bold retro sans-serif lettering reading "STAY WILD" above a simple mountain outline. The original shirt is dark, so a black background gives the best contrast.
+</analysis>
+
+<final_prompt>
+Bold retro sans-serif text "STAY WILD" in warm yellow above a minimal white mountain outline, flat vector style, centered composition on a solid black background
+</final_prompt>`;
+
+export const FIXTURE_PRODUCT_COLOR = '#1F2937';
+
+export const FIXTURE_PRODUCT_DETAILS: ProductDetails = {
+    title: 'Stay Wild Retro Mountain Graphic',
+    description: 'A bold retro slogan paired with a minimal mountain outline. Made for weekend hikers and anyone who would rather be outdoors.',
+    tags: 'stay wild, retro, mountains, hiking, outdoors, adventure, camping, nature lover, vintage, minimalist',
+};
+
+const FIXTURE_SIZE = 1024;
+
+/** Small stable string hash so the same prompt always renders the same fixture. */
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for mock rendering.');
+    }
+    return { canvas, ctx };
+};
+
+/**
+ * Renders a deterministic PNG standing in for an image model result.
+ * Prompts asking for a solid black/white background get exactly that so the
+ * rest of the pipeline sees the same shape of output as the real extractor produces.
+ * The variant shifts the colors so repeated calls for one prompt can be told apart.
+ */
+export const renderFixtureImage = async (prompt: string, base64InputImage: string, variant: number = 0): Promise<string> => {
+    const { canvas, ctx } = createCanvas(FIXTURE_SIZE, FIXTURE_SIZE);
+    const backgroundMatch = prompt.match(/on a solid (black|white) background/i);
+    const hue = (hashString(prompt) + variant * 67) % 360;
+
+    ctx.fillStyle = backgroundMatch
+        ? (backgroundMatch[1].toLowerCase() === 'black' ? '#000000' : '#FFFFFF')
+        : `hsl(${hue}, 35%, 55%)`;
+    ctx.fillRect(0, 0, FIXTURE_SIZE, FIXTURE_SIZE);
+
+    const source = await loadImage(base64InputImage);
+    const ratio = Math.min((FIXTURE_SIZE * 0.6) / source.width, (FIXTURE_SIZE * 0.6) / source.height);
+    const width = source.width * ratio;
+    const height = source.height * ratio;
+    ctx.drawImage(source, (FIXTURE_SIZE - width) / 2, (FIXTURE_SIZE - height) / 2, width, height);
+
+    ctx.fillStyle = `hsl(${hue}, 90%, 60%)`;
+    ctx.font = 'bold 40px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(variant > 0 ? `MOCK ${variant + 1}` : 'MOCK', FIXTURE_SIZE / 2, 80);
+
+    return canvas.toDataURL('image/png');
+};
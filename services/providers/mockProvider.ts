@@ -0,0 +1,62 @@
+import type { BackgroundRemovalSettings, ImageProvider, ProviderCallOptions, UsageStep } from '../../types';
+import { parseExtractedPrompt } from '../designExtractor';
+import { abortableDelay, requestScheduler } from '../requestScheduler';
+import { meterCall, resolveUsageScope, type UsageReporter } from '../usageLedger';
+import {
+    FIXTURE_EXTRACTOR_RESPONSE,
+    FIXTURE_PRODUCT_COLOR,
+    FIXTURE_PRODUCT_DETAILS,
+    renderFixtureImage,
+} from './mockFixtures';
+import { DEFAULT_BACKGROUND_REMOVAL, removeSolidBackground } from './backgroundRemoval';
+
+const DEFAULT_LATENCY_MS = 400;
+const MOCK_MODEL = 'mock-fixture';
+
+const withLatency = async <T>(latencyMs: number, produce: () => T | Promise<T>, signal?: AbortSignal): Promise<T> => {
+    await abortableDelay(latencyMs, signal);
+    return produce();
+};
+
+/**
+ * Offline provider returning fixture text and locally rendered images.
+ * It needs no API keys and makes no network requests, so the whole pipeline can run anywhere.
+ * Background removal is always local; the mode setting is ignored.
+ * Calls are still reported to the usage ledger, without tokens, so the dashboard can be tried offline.
+ */
+export const createMockProvider = (
+    backgroundRemoval: BackgroundRemovalSettings = DEFAULT_BACKGROUND_REMOVAL,
+    latencyMs: number = DEFAULT_LATENCY_MS,
+    onUsage?: UsageReporter,
+): ImageProvider => {
+    const renderCounts = new Map<string, number>();
+    const nextVariant = (prompt: string) => {
+        const variant = renderCounts.get(prompt) ?? 0;
+        renderCounts.set(prompt, variant + 1);
+        return variant;
+    };
+    const metered = <T>(options: ProviderCallOptions | undefined, step: UsageStep, images: number, produce: () => T | Promise<T>) =>
+        requestScheduler.schedule(
+            'mock',
+            () => meterCall(onUsage, { service: 'mock', model: MOCK_MODEL, scope: resolveUsageScope(options, step) }, async (measure) => {
+                const result = await withLatency(latencyMs, produce, options?.signal);
+                measure({ images });
+                return result;
+            }),
+            options,
+        );
+
+    return {
+        id: 'mock',
+        extractDesignPrompt: (_base64Image, options) =>
+            metered(options, 'extractPrompt', 0, () => parseExtractedPrompt(FIXTURE_EXTRACTOR_RESPONSE)),
+        analyzeImageColor: (_base64Image, options) =>
+            metered(options, 'analyzeColor', 0, () => FIXTURE_PRODUCT_COLOR),
+        generateImage: (prompt, base64InputImage, options) =>
+            metered(options, 'clone', 1, () => renderFixtureImage(prompt, base64InputImage, nextVariant(prompt))),
+        removeBackground: (base64Image, options) =>
+            metered(options, 'removeBackground', 1, () => removeSolidBackground(base64Image, backgroundRemoval)),
+        generateProductDetails: (_base64Image, options) =>
+            metered(options, 'productDetails', 0, () => ({ ...FIXTURE_PRODUCT_DETAILS })),
+    };
+};
@@ -0,0 +1,60 @@
+import { base64ToBlob, bytesToDataUrl, getDataUrlMimeType } from '../../utils/fileUtils';
+import { AuthError, errorFromHttpStatus, isAbortError, toStudioError } from '../errors';
+import { parseRetryAfterHeader } from '../requestScheduler';
+
+const PHOTOROOM_SEGMENT_URL = 'https://sdk.photoroom.com/v1/segment';
+const PHOTOROOM_ACCOUNT_URL = 'https://image-api.photoroom.com/v1/account';
+/** How Photoroom calls are named in the usage ledger. */
+export const PHOTOROOM_MODEL = 'photoroom-segment';
+
+export const removeBackground = async (apiKey: string, base64Image: string, signal?: AbortSignal): Promise<string> => {
+    if (!apiKey) {
+        throw new AuthError("Photoroom API key is missing.", { title: 'Photoroom key missing' });
+    }
+    const imageBlob = base64ToBlob(base64Image, getDataUrlMimeType(base64Image));
+    const formData = new FormData();
+    formData.append('image_file', imageBlob, 'design.png');
+    formData.append('format', 'png'); // Request PNG for transparency
+    
+    let response: Response;
+    try {
+        response = await fetch(PHOTOROOM_SEGMENT_URL, {
+            method: 'POST',
+            headers: { 'x-api-key': apiKey },
+            body: formData,
+            signal,
+        });
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        throw toStudioError(err, 'Photoroom');
+    }
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        console.error("Photoroom API Error:", errorText);
+        // The status and any Retry-After hint let the request scheduler decide whether to try again.
+        throw errorFromHttpStatus('Photoroom', response.status, errorText, {
+            retryAfterMs: parseRetryAfterHeader(response.headers.get('Retry-After')),
+        });
+    }
+
+    // Read as bytes rather than through FileReader so this also runs on the proxy server.
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytesToDataUrl(bytes, response.headers.get('Content-Type')?.split(';')[0] || 'image/png');
+};
+
+/** Checks a key against the account endpoint, which uses no credits. */
+export const testPhotoroomKey = async (apiKey: string): Promise<void> => {
+    if (!apiKey) {
+        throw new AuthError("Photoroom API key is missing.", { title: 'Photoroom key missing' });
+    }
+    let response: Response;
+    try {
+        response = await fetch(PHOTOROOM_ACCOUNT_URL, { headers: { 'x-api-key': apiKey } });
+    } catch (err) {
+        throw toStudioError(err, 'Photoroom');
+    }
+    if (!response.ok) {
+        throw errorFromHttpStatus('Photoroom', response.status, await response.text());
+    }
+};
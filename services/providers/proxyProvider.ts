@@ -0,0 +1,96 @@
+import {
+    PROXY_BASE_PATH,
+    type ApiService,
+    type BackgroundRemovalSettings,
+    type ImageProvider,
+    type ProviderCallOptions,
+    type ProxyEndpoint,
+    type ProxyHealth,
+    type ProxyRequest,
+    type ProxyResponse,
+    type UsageStep,
+} from '../../types';
+import { NetworkError, deserializeStudioError, errorFromHttpStatus, isAbortError } from '../errors';
+import { requestScheduler } from '../requestScheduler';
+import { meterCall, resolveUsageScope, type UsageReporter } from '../usageLedger';
+import { createBackgroundRemover } from './backgroundRemoval';
+import { IMAGE_MODEL, TEXT_MODEL } from './geminiApi';
+import { PHOTOROOM_MODEL } from './photoroom';
+
+const UNREACHABLE_MESSAGE = 'The local proxy server could not be reached. It runs with `npm run dev` or `npm run preview`.';
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_BASE_PATH}/${path}`, init);
+    } catch (err) {
+        if (isAbortError(err)) throw err;
+        throw new NetworkError(UNREACHABLE_MESSAGE, { raw: err instanceof Error ? err.message : String(err), cause: err });
+    }
+    const text = await response.text();
+    if (!response.ok) {
+        // The proxy sends its errors serialized; anything else came from whatever answered instead of it.
+        let body: unknown = null;
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Not from the proxy.
+        }
+        throw deserializeStudioError(body) ?? errorFromHttpStatus('The local proxy', response.status, text);
+    }
+    try {
+        return JSON.parse(text) as T;
+    } catch {
+        throw new NetworkError(UNREACHABLE_MESSAGE, { raw: text.slice(0, 500) });
+    }
+};
+
+/** What the proxy server is running with, for the settings panel. */
+export const fetchProxyHealth = (signal?: AbortSignal) => request<ProxyHealth>('health', { signal });
+
+/**
+ * Runs every call through the local proxy server, which holds the API keys,
+ * so none are needed or sent from the browser. Calls are scheduled and
+ * metered as in direct mode, with the usage the server reports.
+ */
+export const createProxyProvider = (backgroundRemoval: BackgroundRemovalSettings, onUsage?: UsageReporter): ImageProvider => {
+    const call = <T>(
+        endpoint: ProxyEndpoint,
+        body: ProxyRequest,
+        { service, model, step }: { service: ApiService, model: string, step: UsageStep },
+        options?: ProviderCallOptions,
+    ) => requestScheduler.schedule(
+        service,
+        () => meterCall(onUsage, { service, model, scope: resolveUsageScope(options, step) }, async (measure) => {
+            const response = await request<ProxyResponse<T>>(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+                signal: options?.signal,
+            });
+            measure(response.usage);
+            return response.result;
+        }),
+        options,
+    );
+
+    return {
+        id: 'proxy',
+        extractDesignPrompt: (base64Image, options) =>
+            call('extract', { image: base64Image }, { service: 'gemini', model: TEXT_MODEL, step: 'extractPrompt' }, options),
+        analyzeImageColor: (base64Image, options) =>
+            call('color', { image: base64Image }, { service: 'gemini', model: TEXT_MODEL, step: 'analyzeColor' }, options),
+        generateImage: (prompt, base64InputImage, options) => {
+            const step = options?.usage?.step === 'mockup' ? 'mockup' : 'clone';
+            return call(step, { image: base64InputImage, prompt }, { service: 'gemini', model: IMAGE_MODEL, step }, options);
+        },
+        // The server answers with an auth error when it has no Photoroom key, which the automatic mode falls back from.
+        removeBackground: createBackgroundRemover(
+            (base64Image, options) =>
+                call('remove-background', { image: base64Image }, { service: 'photoroom', model: PHOTOROOM_MODEL, step: 'removeBackground' }, options),
+            backgroundRemoval,
+        ),
+        generateProductDetails: (base64Image, options) =>
+            call('details', { image: base64Image }, { service: 'gemini', model: TEXT_MODEL, step: 'productDetails' }, options),
+    };
+};
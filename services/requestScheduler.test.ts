@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AuthError, NetworkError, RateLimitError } from './errors';
+import { computeBackoffMs, createRequestScheduler, getRetryAfterMs, parseRetryAfterHeader } from './requestScheduler';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('computeBackoffMs', () => {
+    it('doubles with each attempt, half fixed and half jitter', () => {
+        expect(computeBackoffMs(1, () => 0)).toBe(500);
+        expect(computeBackoffMs(1, () => 1)).toBe(1000);
+        expect(computeBackoffMs(3, () => 0)).toBe(2000);
+        expect(computeBackoffMs(3, () => 0.5)).toBe(3000);
+    });
+
+    it('caps the delay at 30 seconds', () => {
+        expect(computeBackoffMs(20, () => 0)).toBe(15_000);
+        expect(computeBackoffMs(20, () => 1)).toBe(30_000);
+    });
+});
+
+describe('parseRetryAfterHeader', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    it('reads seconds', () => {
+        expect(parseRetryAfterHeader('5', now)).toBe(5000);
+        expect(parseRetryAfterHeader('0', now)).toBe(0);
+    });
+
+    it('reads an HTTP date relative to now, never below zero', () => {
+        expect(parseRetryAfterHeader('Thu, 01 Jan 2026 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfterHeader('Wed, 31 Dec 2025 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('ignores missing or unreadable values', () => {
+        expect(parseRetryAfterHeader(null, now)).toBeNull();
+        expect(parseRetryAfterHeader('soon', now)).toBeNull();
+    });
+});
+
+describe('getRetryAfterMs', () => {
+    it('prefers the hint set from the Retry-After header', () => {
+        expect(getRetryAfterMs(new RateLimitError('Slow down', { retryAfterMs: 1200 }))).toBe(1200);
+    });
+
+    it("reads Gemini's retryDelay and retry-in messages", () => {
+        expect(getRetryAfterMs(new Error('{"retryDelay": "38s"}'))).toBe(38_000);
+        expect(getRetryAfterMs(new Error('Please retry in 2.5s.'))).toBe(2500);
+    });
+
+    it('returns null without a hint', () => {
+        expect(getRetryAfterMs(new Error('Quota exceeded'))).toBeNull();
+        expect(getRetryAfterMs(null)).toBeNull();
+    });
+});
+
+describe('createRequestScheduler', () => {
+    const settings = { concurrency: { gemini: 1, photoroom: 1, mock: 1 }, maxRetries: 2 };
+
+    it('retries transient failures after the hinted delay and reports each retry', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createRequestScheduler(settings);
+        const onRetry = vi.fn();
+        const task = vi.fn()
+            .mockRejectedValueOnce(new RateLimitError('Slow down', { status: 429, retryAfterMs: 0 }))
+            .mockRejectedValueOnce(new NetworkError('Dropped', { retryAfterMs: 0 }))
+            .mockResolvedValue('done');
+
+        await expect(scheduler.schedule('gemini', task, { onRetry })).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(3);
+        expect(onRetry.mock.calls).toEqual([[{ attempt: 1, maxRetries: 2 }], [{ attempt: 2, maxRetries: 2 }]]);
+    });
+
+    it('gives up after the configured retries', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const scheduler = createRequestScheduler(settings);
+        const error = new RateLimitError('Slow down', { status: 429, retryAfterMs: 0 });
+        const task = vi.fn().mockRejectedValue(error);
+
+        await expect(scheduler.schedule('gemini', task)).rejects.toBe(error);
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry errors that will not go away', async () => {
+        const scheduler = createRequestScheduler(settings);
+        const task = vi.fn().mockRejectedValue(new AuthError('Bad key', { status: 401 }));
+
+        await expect(scheduler.schedule('gemini', task)).rejects.toThrow('Bad key');
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs no more calls at once than the service allows', async () => {
+        const scheduler = createRequestScheduler(settings);
+        let running = 0;
+        let peak = 0;
+        const task = async () => {
+            peak = Math.max(peak, ++running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        };
+
+        await Promise.all([scheduler.schedule('gemini', task), scheduler.schedule('gemini', task), scheduler.schedule('gemini', task)]);
+        expect(peak).toBe(1);
+    });
+
+    it('drops a queued call when it is aborted', async () => {
+        const scheduler = createRequestScheduler(settings);
+        let finishFirst!: () => void;
+        const first = scheduler.schedule('gemini', () => new Promise<void>(resolve => (finishFirst = resolve)));
+        const controller = new AbortController();
+        const queued = vi.fn(async () => {});
+        const second = scheduler.schedule('gemini', queued, { signal: controller.signal });
+
+        controller.abort();
+        await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+        finishFirst();
+        await first;
+        expect(queued).not.toHaveBeenCalled();
+    });
+});
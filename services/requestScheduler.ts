@@ -0,0 +1,176 @@
+import type { ApiService, ProviderCallOptions, RequestSchedulerSettings, RetryStatus } from '../types';
+import { StudioError, createAbortError, getErrorStatus } from './errors';
+
+const STORAGE_KEY = 'requestScheduler';
+const MAX_CONCURRENCY = 8;
+const MAX_RETRIES = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+/** A retry-after hint longer than this is capped, so a run never sits silent for minutes. */
+const MAX_RETRY_AFTER_MS = 60_000;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export const DEFAULT_SCHEDULER: RequestSchedulerSettings = {
+    concurrency: { gemini: 4, photoroom: 2, mock: 4 },
+    maxRetries: 3,
+};
+
+const clampInteger = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parseSchedulerSettings = (value: unknown): RequestSchedulerSettings => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<RequestSchedulerSettings>;
+    const concurrency = (raw.concurrency && typeof raw.concurrency === 'object' ? raw.concurrency : {}) as Partial<Record<ApiService, number>>;
+    return {
+        concurrency: {
+            gemini: clampInteger(concurrency.gemini, 1, MAX_CONCURRENCY, DEFAULT_SCHEDULER.concurrency.gemini),
+            photoroom: clampInteger(concurrency.photoroom, 1, MAX_CONCURRENCY, DEFAULT_SCHEDULER.concurrency.photoroom),
+            mock: clampInteger(concurrency.mock, 1, MAX_CONCURRENCY, DEFAULT_SCHEDULER.concurrency.mock),
+        },
+        maxRetries: clampInteger(raw.maxRetries, 0, MAX_RETRIES, DEFAULT_SCHEDULER.maxRetries),
+    };
+};
+
+export const loadSchedulerSettings = (): RequestSchedulerSettings => {
+    try {
+        return parseSchedulerSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseSchedulerSettings(null);
+    }
+};
+
+export const saveSchedulerSettings = (settings: RequestSchedulerSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Rate limits, timeouts, server errors and dropped connections are worth another try; anything else is not. */
+export const isRetryableError = (err: unknown): boolean => {
+    const status = getErrorStatus(err);
+    if (status !== null) return RETRYABLE_STATUSES.includes(status);
+    if (err instanceof StudioError) return err.kind === 'network';
+    // fetch rejects with a TypeError when the connection itself fails.
+    return err instanceof TypeError && /fetch|network/i.test(err.message);
+};
+
+/**
+ * How long the service asked us to wait, if it said. Our fetch wrappers set
+ * `retryAfterMs` from the Retry-After header; Gemini puts a RetryInfo
+ * `retryDelay` (e.g. "38s") in the error body, which ends up in the message.
+ */
+export const getRetryAfterMs = (err: unknown): number | null => {
+    const retryAfterMs = (err as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+    if (typeof retryAfterMs === 'number' && Number.isFinite(retryAfterMs) && retryAfterMs >= 0) return retryAfterMs;
+    const message = err instanceof Error ? err.message : '';
+    const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+    return match ? Math.round(Number(match[1]) * 1000) : null;
+};
+
+/** Parses a Retry-After header, which is either seconds or an HTTP date. */
+export const parseRetryAfterHeader = (value: string | null, now: number = Date.now()): number | null => {
+    if (!value) return null;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed and half
+ * random, so calls that failed together do not all retry at the same moment.
+ */
+export const computeBackoffMs = (attempt: number, random: () => number = Math.random): number => {
+    const delay = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return delay / 2 + random() * (delay / 2);
+};
+
+export const describeRetry = (retry: RetryStatus) => `Retrying (${retry.attempt}/${retry.maxRetries})…`;
+
+/** Waits `ms`, rejecting early with an AbortError if the signal fires. */
+export const abortableDelay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Limits how many calls run at once per service and retries the ones that
+ * fail for transient reasons. A call waiting out its backoff gives up its
+ * slot, so other queued calls keep going in the meantime. An aborted call
+ * leaves the queue at once and is never retried.
+ */
+export const createRequestScheduler = (initial: RequestSchedulerSettings = DEFAULT_SCHEDULER) => {
+    let settings = initial;
+    const active: Record<ApiService, number> = { gemini: 0, photoroom: 0, mock: 0 };
+    const waiting: Record<ApiService, (() => void)[]> = { gemini: [], photoroom: [], mock: [] };
+
+    const pump = (service: ApiService) => {
+        while (active[service] < settings.concurrency[service] && waiting[service].length > 0) {
+            active[service]++;
+            waiting[service].shift()!();
+        }
+    };
+
+    const acquire = (service: ApiService, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        // A call cancelled while queued leaves the queue without ever taking a slot.
+        const onAbort = () => {
+            waiting[service] = waiting[service].filter(entry => entry !== start);
+            reject(createAbortError());
+        };
+        const start = () => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        waiting[service].push(start);
+        pump(service);
+    });
+
+    const release = (service: ApiService) => {
+        active[service]--;
+        pump(service);
+    };
+
+    return {
+        schedule: async <T>(service: ApiService, task: () => Promise<T>, { signal, onRetry }: ProviderCallOptions = {}): Promise<T> => {
+            for (let attempt = 1; ; attempt++) {
+                await acquire(service, signal);
+                let delayMs: number;
+                try {
+                    return await task();
+                } catch (err) {
+                    const { maxRetries } = settings;
+                    if (attempt > maxRetries || signal?.aborted || !isRetryableError(err)) throw err;
+                    const hint = getRetryAfterMs(err);
+                    delayMs = hint !== null ? Math.min(MAX_RETRY_AFTER_MS, hint) : computeBackoffMs(attempt);
+                    console.warn(`${service} call failed; retrying (${attempt}/${maxRetries}) in ${Math.round(delayMs)} ms.`, err);
+                    onRetry?.({ attempt, maxRetries });
+                } finally {
+                    release(service);
+                }
+                await abortableDelay(delayMs, signal);
+            }
+        },
+        configure: (next: RequestSchedulerSettings) => {
+            settings = next;
+            (Object.keys(waiting) as ApiService[]).forEach(pump);
+        },
+    };
+};
+
+/** The one scheduler every provider goes through, so limits hold across runs, retries and batch items. */
+export const requestScheduler = createRequestScheduler(loadSchedulerSettings());
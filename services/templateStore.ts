@@ -0,0 +1,20 @@
+import type { MockupTemplate } from '../types';
+import { TEMPLATES_STORE, runRequest } from './database';
+
+/** Oldest first, so templates keep a stable order in pickers. */
+export const listTemplates = async (): Promise<MockupTemplate[]> => {
+    const templates = await runRequest(TEMPLATES_STORE, 'readonly', store => store.getAll() as IDBRequest<MockupTemplate[]>);
+    return templates.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveTemplate = async (template: MockupTemplate): Promise<MockupTemplate> => {
+    await runRequest(TEMPLATES_STORE, 'readwrite', store => store.put(template));
+    return template;
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+    await runRequest(TEMPLATES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const toTemplateMap = (templates: MockupTemplate[]): Record<string, MockupTemplate> =>
+    Object.fromEntries(templates.map(template => [template.id, template]));
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { sharpenEdges } from './upscaler';
+
+/** A flat gray square in the middle of a transparent image. */
+const graySquareOnTransparent = (size: number, inset: number) => {
+    const data = new Uint8ClampedArray(size * size * 4);
+    for (let y = inset; y < size - inset; y++) {
+        for (let x = inset; x < size - inset; x++) {
+            data.set([128, 128, 128, 255], (y * size + x) * 4);
+        }
+    }
+    return { data, width: size, height: size };
+};
+
+describe('sharpenEdges', () => {
+    it('leaves a flat design unchanged at its transparent outline', () => {
+        const image = graySquareOnTransparent(16, 4);
+        sharpenEdges(image, 1, 2);
+        for (let i = 0; i < image.data.length; i += 4) {
+            if (image.data[i + 3] === 0) continue;
+            expect([...image.data.subarray(i, i + 3)]).toEqual([128, 128, 128]);
+        }
+    });
+
+    it('still boosts real detail', () => {
+        const image = graySquareOnTransparent(16, 4);
+        image.data.set([240, 240, 240, 255], (8 * 16 + 8) * 4);
+        sharpenEdges(image, 1, 2);
+        expect(image.data[(8 * 16 + 7) * 4]).toBeLessThan(128);
+    });
+});
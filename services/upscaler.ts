@@ -0,0 +1,265 @@
+import type { RasterImage, UpscaleAlgorithm, UpscaleSettings } from '../types';
+import { runInSlices, runToEnd, type PixelPass } from './pixelPass';
+
+const STORAGE_KEY = 'upscale';
+const LANCZOS_LOBES = 3;
+/** Detail below this many levels is treated as noise and left unsharpened. */
+const SHARPEN_THRESHOLD = 3;
+
+export const UPSCALE_ALGORITHMS: { id: UpscaleAlgorithm, name: string, description: string }[] = [
+    { id: 'lanczos', name: 'Lanczos', description: 'Sharpest enlargement, computed in the browser. Slowest.' },
+    { id: 'stepped', name: 'Stepped', description: 'Doubles the size in several smoothed passes. Softer, but fast.' },
+    { id: 'browser', name: 'Single pass', description: "One scale with the browser's own smoothing, as before." },
+];
+
+export const DEFAULT_UPSCALE: UpscaleSettings = {
+    algorithm: 'lanczos',
+    sharpen: 35,
+};
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parseUpscaleSettings = (value: unknown): UpscaleSettings => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<UpscaleSettings>;
+    return {
+        algorithm: UPSCALE_ALGORITHMS.some(option => option.id === raw.algorithm) ? raw.algorithm! : DEFAULT_UPSCALE.algorithm,
+        sharpen: typeof raw.sharpen === 'number' && Number.isFinite(raw.sharpen) ? Math.min(100, Math.max(0, raw.sharpen)) : DEFAULT_UPSCALE.sharpen,
+    };
+};
+
+export const loadUpscaleSettings = (): UpscaleSettings => {
+    try {
+        return parseUpscaleSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseUpscaleSettings(null);
+    }
+};
+
+export const saveUpscaleSettings = (settings: UpscaleSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const lanczos = (x: number) => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+};
+
+/** Source indices and normalized weights for every destination column or row. */
+const computeWeights = (sourceSize: number, targetSize: number) => {
+    const ratio = sourceSize / targetSize;
+    // When shrinking, the kernel widens so every source pixel still contributes.
+    const filterScale = Math.max(1, ratio);
+    const radius = LANCZOS_LOBES * filterScale;
+    return Array.from({ length: targetSize }, (_, target) => {
+        const center = (target + 0.5) * ratio - 0.5;
+        const indices: number[] = [];
+        const weights: number[] = [];
+        for (let i = Math.ceil(center - radius); i <= Math.floor(center + radius); i++) {
+            const weight = lanczos((i - center) / filterScale);
+            if (weight === 0) continue;
+            indices.push(Math.min(sourceSize - 1, Math.max(0, i)));
+            weights.push(weight);
+        }
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        return { indices, weights: weights.map(weight => weight / total) };
+    });
+};
+
+/**
+ * Separable Lanczos-3 resampling. Color is premultiplied by alpha while
+ * filtering, so transparent pixels do not darken the design's edges. Source
+ * rows are resampled horizontally as the output reaches them and dropped once
+ * it has passed them, so only a band of rows is held in floating point.
+ */
+function* resampleLanczosPass(source: RasterImage, width: number, height: number): PixelPass<RasterImage> {
+    const { data, width: sourceWidth, height: sourceHeight } = source;
+    const columns = computeWeights(sourceWidth, width);
+    const rows = computeWeights(sourceHeight, height);
+
+    const band = new Map<number, Float32Array>();
+    const spare: Float32Array[] = [];
+    const resampleRow = (y: number) => {
+        const out = spare.pop()?.fill(0) ?? new Float32Array(width * 4);
+        const row = y * sourceWidth;
+        for (let x = 0; x < width; x++) {
+            const { indices, weights } = columns[x];
+            for (let k = 0; k < indices.length; k++) {
+                const offset = (row + indices[k]) * 4;
+                const alpha = data[offset + 3];
+                const weight = weights[k];
+                const colorWeight = weight * alpha / 255;
+                out[x * 4] += data[offset] * colorWeight;
+                out[x * 4 + 1] += data[offset + 1] * colorWeight;
+                out[x * 4 + 2] += data[offset + 2] * colorWeight;
+                out[x * 4 + 3] += alpha * weight;
+            }
+        }
+        return out;
+    };
+
+    const output = new Uint8ClampedArray(width * height * 4);
+    const pixel = [0, 0, 0, 0];
+    for (let y = 0; y < height; y++) {
+        const { indices, weights } = rows[y];
+        // Indices only grow from one output row to the next, so rows before the first are done with.
+        for (const [row, values] of band) {
+            if (row >= indices[0]) continue;
+            band.delete(row);
+            spare.push(values);
+        }
+        const taps = indices.map(row => {
+            let values = band.get(row);
+            if (!values) {
+                values = resampleRow(row);
+                band.set(row, values);
+            }
+            return values;
+        });
+        for (let x = 0; x < width; x++) {
+            pixel[0] = pixel[1] = pixel[2] = pixel[3] = 0;
+            const offset = x * 4;
+            for (let k = 0; k < taps.length; k++) {
+                const weight = weights[k];
+                pixel[0] += taps[k][offset] * weight;
+                pixel[1] += taps[k][offset + 1] * weight;
+                pixel[2] += taps[k][offset + 2] * weight;
+                pixel[3] += taps[k][offset + 3] * weight;
+            }
+            const out = (y * width + x) * 4;
+            const alpha = Math.min(255, Math.max(0, pixel[3]));
+            // Lanczos overshoots slightly; clamping color to alpha keeps the premultiplied values valid.
+            const scale = alpha > 0 ? 255 / alpha : 0;
+            output[out] = Math.min(alpha, pixel[0]) * scale;
+            output[out + 1] = Math.min(alpha, pixel[1]) * scale;
+            output[out + 2] = Math.min(alpha, pixel[2]) * scale;
+            output[out + 3] = alpha;
+        }
+        yield;
+    }
+    return { data: output, width, height };
+}
+
+/**
+ * Unsharp mask with a box blur, in place. Only differences above a small
+ * threshold are boosted, so edges and lettering crisp up while flat areas and
+ * gradients are left alone instead of turning grainy. The blur runs on
+ * premultiplied color, as resampling does, so transparent neighbors do not
+ * pull the design's outline toward black and leave a light halo.
+ */
+function* sharpenEdgesPass(image: RasterImage, amount: number, radius: number): PixelPass<void> {
+    if (amount <= 0 || radius < 1) return;
+    const { data, width, height } = image;
+    const rowLength = width * 4;
+    const premultipliedAt = (offset: number, channel: number) =>
+        channel === 3 ? data[offset + 3] : data[offset + channel] * data[offset + 3] / 255;
+
+    // Horizontal sums for the rows inside the vertical window, in a ring. Each
+    // row is summed before the pass reaches it, so it still holds unsharpened pixels.
+    const bandSize = radius * 2 + 2;
+    const band = Array.from({ length: bandSize }, () => new Float32Array(rowLength));
+    let summedRows = 0;
+    const bandRow = (y: number) => {
+        for (; summedRows <= y; summedRows++) {
+            const row = summedRows * rowLength;
+            const out = band[summedRows % bandSize];
+            // Sums rather than averages: the window size cancels out when un-premultiplying.
+            for (let channel = 0; channel < 4; channel++) {
+                let sum = 0;
+                for (let x = -radius; x <= radius; x++) {
+                    sum += premultipliedAt(row + Math.min(width - 1, Math.max(0, x)) * 4, channel);
+                }
+                for (let x = 0; x < width; x++) {
+                    out[x * 4 + channel] = sum;
+                    sum += premultipliedAt(row + Math.min(width - 1, x + radius + 1) * 4, channel) - premultipliedAt(row + Math.max(0, x - radius) * 4, channel);
+                }
+            }
+        }
+        return band[y % bandSize];
+    };
+
+    // Vertical sums are kept per column and slid one row at a time, which keeps memory access row-ordered.
+    const sums = new Float64Array(rowLength);
+    for (let y = -radius; y <= radius; y++) {
+        const horizontal = bandRow(Math.min(height - 1, Math.max(0, y)));
+        for (let i = 0; i < rowLength; i++) sums[i] += horizontal[i];
+    }
+    for (let y = 0; y < height; y++) {
+        const row = y * rowLength;
+        for (let x = 0; x < width; x++) {
+            const offset = row + x * 4;
+            const blurredAlpha = sums[x * 4 + 3];
+            if (data[offset + 3] === 0 || blurredAlpha <= 0) continue;
+            for (let channel = 0; channel < 3; channel++) {
+                const blurred = (sums[x * 4 + channel] / blurredAlpha) * 255;
+                const detail = data[offset + channel] - blurred;
+                if (Math.abs(detail) > SHARPEN_THRESHOLD) {
+                    data[offset + channel] = data[offset + channel] + detail * amount;
+                }
+            }
+        }
+        const added = bandRow(Math.min(height - 1, y + radius + 1));
+        const removed = bandRow(Math.max(0, y - radius));
+        for (let i = 0; i < rowLength; i++) sums[i] += added[i] - removed[i];
+        yield;
+    }
+}
+
+export const sharpenEdges = (image: RasterImage, amount: number, radius: number) => runToEnd(sharpenEdgesPass(image, amount, radius));
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for upscaling.');
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    return { canvas, ctx };
+};
+
+/**
+ * Resizes an image with the chosen algorithm, then sharpens it in proportion
+ * to how far it was enlarged. The pixel passes run in slices so the page
+ * stays responsive, and aborting `signal` stops them between slices.
+ */
+export const upscaleImage = async (
+    image: CanvasImageSource & { width: number, height: number },
+    width: number,
+    height: number,
+    settings: UpscaleSettings,
+    signal?: AbortSignal,
+): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createCanvas(width, height);
+
+    if (settings.algorithm === 'lanczos') {
+        const source = createCanvas(image.width, image.height);
+        source.ctx.drawImage(image, 0, 0);
+        const resampled = await runInSlices(resampleLanczosPass(
+            { data: source.ctx.getImageData(0, 0, image.width, image.height).data, width: image.width, height: image.height },
+            width,
+            height,
+        ), signal);
+        ctx.putImageData(new ImageData(resampled.data, width, height), 0, 0);
+    } else if (settings.algorithm === 'stepped') {
+        let current: CanvasImageSource & { width: number, height: number } = image;
+        while (current.width * 2 < width && current.height * 2 < height) {
+            const step = createCanvas(current.width * 2, current.height * 2);
+            step.ctx.drawImage(current, 0, 0, step.canvas.width, step.canvas.height);
+            current = step.canvas;
+        }
+        ctx.drawImage(current, 0, 0, width, height);
+    } else {
+        ctx.drawImage(image, 0, 0, width, height);
+    }
+
+    const scale = Math.max(width / image.width, height / image.height);
+    if (settings.sharpen > 0 && scale > 1) {
+        const pixels = ctx.getImageData(0, 0, width, height);
+        await runInSlices(sharpenEdgesPass(pixels, settings.sharpen / 100, Math.min(4, Math.max(1, Math.round(scale / 2)))), signal);
+        ctx.putImageData(pixels, 0, 0);
+    }
+    return canvas;
+};
@@ -0,0 +1,164 @@
+import type { ApiService, ProviderCallOptions, UsageMetrics, UsagePrice, UsagePrices, UsageRecord, UsageScope, UsageStep } from '../types';
+import { USAGE_STORE, runRequest } from './database';
+import { isAbortError } from './errors';
+
+const STORAGE_KEY = 'usagePrices';
+
+export type UsageReporter = (record: UsageRecord) => void;
+/** Lets a metered call report what the service says it consumed. */
+export type UsageMeasure = (metrics: Partial<UsageMetrics>) => void;
+
+export const USAGE_STEP_LABELS: Record<UsageStep, string> = {
+    analyzeColor: 'Color analysis',
+    extractPrompt: 'Prompt extraction',
+    clone: 'Clone',
+    removeBackground: 'Background removal',
+    mockup: 'Mockups',
+    productDetails: 'Product details',
+};
+
+/**
+ * Published list prices at the time of writing. Gemini bills generated images
+ * as output tokens, so its image model has no separate per-image price.
+ */
+export const DEFAULT_USAGE_PRICES: UsagePrices = {
+    'gemini-2.5-flash': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5, perImage: 0 },
+    'gemini-2.5-flash-image-preview': { inputPerMillionTokens: 0.3, outputPerMillionTokens: 30, perImage: 0 },
+    'photoroom-segment': { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0.02 },
+};
+
+const FREE: UsagePrice = { inputPerMillionTokens: 0, outputPerMillionTokens: 0, perImage: 0 };
+const EMPTY_METRICS: UsageMetrics = { promptTokens: 0, outputTokens: 0, totalTokens: 0, images: 0 };
+
+const parsePrice = (value: unknown): UsagePrice | null => {
+    if (!value || typeof value !== 'object') return null;
+    const raw = value as Partial<UsagePrice>;
+    const read = (amount: unknown) => (typeof amount === 'number' && Number.isFinite(amount) && amount >= 0 ? amount : null);
+    const input = read(raw.inputPerMillionTokens);
+    const output = read(raw.outputPerMillionTokens);
+    const perImage = read(raw.perImage);
+    return input === null || output === null || perImage === null ? null : { inputPerMillionTokens: input, outputPerMillionTokens: output, perImage };
+};
+
+/** Reads prices from an untrusted value (localStorage). Models without a valid stored price keep the default. */
+export const parseUsagePrices = (value: unknown): UsagePrices => {
+    const prices = { ...DEFAULT_USAGE_PRICES };
+    if (value && typeof value === 'object') {
+        for (const [model, price] of Object.entries(value)) {
+            const parsed = parsePrice(price);
+            if (parsed) prices[model] = parsed;
+        }
+    }
+    return prices;
+};
+
+export const loadUsagePrices = (): UsagePrices => {
+    try {
+        return parseUsagePrices(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseUsagePrices(null);
+    }
+};
+
+export const saveUsagePrices = (prices: UsagePrices) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+};
+
+/** Oldest first. */
+export const listUsage = async (): Promise<UsageRecord[]> => {
+    const records = await runRequest(USAGE_STORE, 'readonly', store => store.getAll() as IDBRequest<UsageRecord[]>);
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const recordUsage = async (record: UsageRecord): Promise<void> => {
+    await runRequest(USAGE_STORE, 'readwrite', store => store.put(record));
+};
+
+export const clearUsage = async (): Promise<void> => {
+    await runRequest(USAGE_STORE, 'readwrite', store => store.clear());
+};
+
+/** Ledger writes are fire-and-forget; a failed write must never fail the call it describes. */
+export const reportUsage: UsageReporter = (record) => {
+    recordUsage(record).catch(err => console.error('Failed to record API usage:', err));
+};
+
+/** The caller's scope, or an unattributed one for the given step. */
+export const resolveUsageScope = (options: ProviderCallOptions | undefined, step: UsageStep): UsageScope =>
+    options?.usage ?? { step, projectId: null, projectName: null };
+
+/** Runs one service call and reports it, whether it succeeds or throws. */
+export const meterCall = async <T>(
+    report: UsageReporter | undefined,
+    call: { service: ApiService, model: string, scope: UsageScope },
+    run: (measure: UsageMeasure) => Promise<T>,
+): Promise<T> => {
+    const metrics: UsageMetrics = { ...EMPTY_METRICS };
+    const measure: UsageMeasure = (update) => Object.assign(metrics, update);
+    const startedAt = performance.now();
+    const finish = (outcome: UsageRecord['outcome'], error?: string) => report?.({
+        id: crypto.randomUUID(),
+        timestamp: Date.now(),
+        ...call.scope,
+        ...metrics,
+        service: call.service,
+        model: call.model,
+        latencyMs: Math.round(performance.now() - startedAt),
+        outcome,
+        ...(error ? { error } : {}),
+    });
+
+    try {
+        const result = await run(measure);
+        finish('success');
+        return result;
+    } catch (err: any) {
+        finish(isAbortError(err) ? 'cancelled' : 'error', err?.message || String(err));
+        throw err;
+    }
+};
+
+export const estimateCost = (record: UsageMetrics & { model: string }, prices: UsagePrices): number => {
+    const price = prices[record.model] ?? FREE;
+    return (record.promptTokens * price.inputPerMillionTokens + record.outputTokens * price.outputPerMillionTokens) / 1_000_000
+        + record.images * price.perImage;
+};
+
+export interface UsageTotals extends UsageMetrics {
+    key: string;
+    label: string;
+    calls: number;
+    failures: number;
+    latencyMs: number;
+    cost: number;
+}
+
+/** Local calendar day, e.g. 2024-05-31. */
+export const toUsageDay = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** Totals per group, in the order each group first appears in `records`. */
+export const summarizeUsage = (
+    records: UsageRecord[],
+    prices: UsagePrices,
+    groupOf: (record: UsageRecord) => { key: string, label: string },
+): UsageTotals[] => {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of records) {
+        const { key, label } = groupOf(record);
+        const totals = groups.get(key) ?? { key, label, calls: 0, failures: 0, latencyMs: 0, cost: 0, ...EMPTY_METRICS };
+        totals.calls++;
+        totals.failures += record.outcome === 'error' ? 1 : 0;
+        totals.latencyMs += record.latencyMs;
+        totals.promptTokens += record.promptTokens;
+        totals.outputTokens += record.outputTokens;
+        totals.totalTokens += record.totalTokens;
+        totals.images += record.images;
+        totals.cost += estimateCost(record, prices);
+        groups.set(key, totals);
+    }
+    return [...groups.values()];
+};
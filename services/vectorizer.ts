@@ -0,0 +1,319 @@
+import type { Point, VectorizeSettings } from '../types';
+import { loadImage } from '../utils/fileUtils';
+
+const STORAGE_KEY = 'vectorize';
+
+/** Larger designs are traced at this size; the SVG still reports the original dimensions. */
+const MAX_TRACE_SIDE = 1200;
+const MAX_QUANTIZE_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 8;
+const TRANSPARENT = -1;
+
+export const DEFAULT_VECTORIZE: VectorizeSettings = {
+    colors: 6,
+    smoothing: 40,
+    speckleSize: 16,
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+/** Reads settings from an untrusted value (localStorage), filling gaps with defaults. */
+export const parseVectorizeSettings = (value: unknown): VectorizeSettings => {
+    const raw = (value && typeof value === 'object' ? value : {}) as Partial<VectorizeSettings>;
+    return {
+        colors: clamp(raw.colors, 2, 16, DEFAULT_VECTORIZE.colors),
+        smoothing: clamp(raw.smoothing, 0, 100, DEFAULT_VECTORIZE.smoothing),
+        speckleSize: clamp(raw.speckleSize, 0, 10000, DEFAULT_VECTORIZE.speckleSize),
+    };
+};
+
+export const loadVectorizeSettings = (): VectorizeSettings => {
+    try {
+        return parseVectorizeSettings(JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null'));
+    } catch {
+        return parseVectorizeSettings(null);
+    }
+};
+
+export const saveVectorizeSettings = (settings: VectorizeSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+type Rgb = [number, number, number];
+
+const colorDistance = (a: Rgb, b: Rgb) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+const nearest = (color: Rgb, palette: Rgb[]) => {
+    let best = 0;
+    for (let i = 1; i < palette.length; i++) {
+        if (colorDistance(color, palette[i]) < colorDistance(color, palette[best])) best = i;
+    }
+    return best;
+};
+
+/**
+ * K-means over a sample of the opaque pixels. Seeding is farthest-point from
+ * the mean color rather than random, so the same design always gets the same palette.
+ */
+const buildPalette = (data: Uint8ClampedArray, pixelCount: number, colors: number): Rgb[] => {
+    const opaque: number[] = [];
+    for (let i = 0; i < pixelCount; i++) {
+        if (data[i * 4 + 3] >= 128) opaque.push(i);
+    }
+    if (opaque.length === 0) return [];
+    const stride = Math.max(1, Math.floor(opaque.length / MAX_QUANTIZE_SAMPLES));
+    const samples: Rgb[] = [];
+    for (let i = 0; i < opaque.length; i += stride) {
+        const offset = opaque[i] * 4;
+        samples.push([data[offset], data[offset + 1], data[offset + 2]]);
+    }
+
+    const mean = samples.reduce<Rgb>((sum, s) => [sum[0] + s[0], sum[1] + s[1], sum[2] + s[2]], [0, 0, 0])
+        .map(channel => channel / samples.length) as Rgb;
+    const palette: Rgb[] = [samples[nearest(mean, samples)]];
+    const distances = samples.map(sample => colorDistance(sample, palette[0]));
+    while (palette.length < colors) {
+        let farthest = 0;
+        for (let i = 1; i < samples.length; i++) {
+            if (distances[i] > distances[farthest]) farthest = i;
+        }
+        if (distances[farthest] === 0) break;
+        palette.push(samples[farthest]);
+        samples.forEach((sample, i) => { distances[i] = Math.min(distances[i], colorDistance(sample, samples[farthest])); });
+    }
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = palette.map(() => [0, 0, 0, 0]);
+        for (const sample of samples) {
+            const sum = sums[nearest(sample, palette)];
+            sum[0] += sample[0];
+            sum[1] += sample[1];
+            sum[2] += sample[2];
+            sum[3]++;
+        }
+        sums.forEach((sum, i) => {
+            if (sum[3] > 0) palette[i] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+        });
+    }
+    return palette.map(color => color.map(Math.round) as Rgb);
+};
+
+/** Merges every 4-connected patch smaller than minSize into the label that surrounds most of it. */
+const removeSpeckles = (labels: Int16Array, width: number, height: number, minSize: number) => {
+    if (minSize <= 1) return;
+    const visited = new Uint8Array(labels.length);
+    const stack: number[] = [];
+    const patch: number[] = [];
+    for (let start = 0; start < labels.length; start++) {
+        if (visited[start]) continue;
+        const label = labels[start];
+        const neighbors = new Map<number, number>();
+        patch.length = 0;
+        stack.push(start);
+        visited[start] = 1;
+        while (stack.length > 0) {
+            const index = stack.pop()!;
+            patch.push(index);
+            const x = index % width;
+            const candidates = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                index >= width ? index - width : -1,
+                index < labels.length - width ? index + width : -1,
+            ];
+            for (const neighbor of candidates) {
+                if (neighbor < 0) continue;
+                if (labels[neighbor] === label) {
+                    if (!visited[neighbor]) {
+                        visited[neighbor] = 1;
+                        stack.push(neighbor);
+                    }
+                } else {
+                    neighbors.set(labels[neighbor], (neighbors.get(labels[neighbor]) ?? 0) + 1);
+                }
+            }
+        }
+        if (patch.length >= minSize || neighbors.size === 0) continue;
+        const [replacement] = [...neighbors].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+        for (const index of patch) labels[index] = replacement;
+    }
+};
+
+/**
+ * Follows the pixel edges between one label and everything else into closed
+ * loops. Edges run clockwise around the label's pixels, so outlines wind one
+ * way and holes the other, and the default nonzero fill rule draws holes.
+ */
+const traceLabel = (labels: Int16Array, width: number, height: number, label: number): Point[][] => {
+    const stride = width + 1;
+    const outgoing = new Map<number, number[]>();
+    const addEdge = (from: number, to: number) => {
+        const list = outgoing.get(from);
+        if (list) list.push(to);
+        else outgoing.set(from, [to]);
+    };
+    const labelAt = (x: number, y: number) =>
+        x < 0 || y < 0 || x >= width || y >= height ? TRANSPARENT : labels[y * width + x];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (labels[y * width + x] !== label) continue;
+            const topLeft = y * stride + x;
+            if (labelAt(x, y - 1) !== label) addEdge(topLeft, topLeft + 1);
+            if (labelAt(x + 1, y) !== label) addEdge(topLeft + 1, topLeft + 1 + stride);
+            if (labelAt(x, y + 1) !== label) addEdge(topLeft + 1 + stride, topLeft + stride);
+            if (labelAt(x - 1, y) !== label) addEdge(topLeft + stride, topLeft);
+        }
+    }
+
+    const loops: Point[][] = [];
+    for (const start of outgoing.keys()) {
+        while (outgoing.get(start)?.length) {
+            const loop: Point[] = [];
+            let vertex = start;
+            do {
+                loop.push({ x: vertex % stride, y: Math.floor(vertex / stride) });
+                vertex = outgoing.get(vertex)!.pop()!;
+            } while (vertex !== start);
+            loops.push(loop);
+        }
+    }
+    return loops;
+};
+
+const removeCollinear = (points: Point[]): Point[] =>
+    points.filter((point, i) => {
+        const prev = points[(i + points.length - 1) % points.length];
+        const next = points[(i + 1) % points.length];
+        return (point.x - prev.x) * (next.y - point.y) !== (point.y - prev.y) * (next.x - point.x);
+    });
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+    return Math.hypot(p.x - a.x - t * dx, p.y - a.y - t * dy);
+};
+
+/** Ramer-Douglas-Peucker on an open run of points; keeps both ends. */
+const simplifyRun = (points: Point[], tolerance: number): Point[] => {
+    let farthest = 0;
+    let maxDistance = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+        if (d > maxDistance) {
+            maxDistance = d;
+            farthest = i;
+        }
+    }
+    if (maxDistance <= tolerance) return [points[0], points[points.length - 1]];
+    return [...simplifyRun(points.slice(0, farthest + 1), tolerance).slice(0, -1), ...simplifyRun(points.slice(farthest), tolerance)];
+};
+
+const simplifyLoop = (points: Point[], tolerance: number): Point[] => {
+    if (tolerance <= 0 || points.length < 4) return points;
+    // Split the loop at the point farthest from the first so both halves are open runs.
+    let split = 1;
+    for (let i = 2; i < points.length; i++) {
+        if (Math.hypot(points[i].x - points[0].x, points[i].y - points[0].y) > Math.hypot(points[split].x - points[0].x, points[split].y - points[0].y)) split = i;
+    }
+    const first = simplifyRun(points.slice(0, split + 1), tolerance);
+    const second = simplifyRun([...points.slice(split), points[0]], tolerance);
+    return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+const formatPoint = (p: Point) => `${formatNumber(p.x)} ${formatNumber(p.y)}`;
+
+/**
+ * Straight segments, or corners rounded into quadratic curves. Each corner is
+ * cut back by a fraction of its edges, capped at maxRadius so long straight
+ * edges keep crisp corners while short staircase steps become curves.
+ */
+const toPathData = (points: Point[], rounding: number, maxRadius: number): string => {
+    if (rounding <= 0) {
+        return `M${points.map(formatPoint).join('L')}Z`;
+    }
+    const towards = (from: Point, to: Point): Point => {
+        const length = Math.hypot(to.x - from.x, to.y - from.y);
+        const t = Math.min(rounding, maxRadius / length);
+        return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    };
+    const parts = points.map((point, i) => {
+        const prev = points[(i + points.length - 1) % points.length];
+        const next = points[(i + 1) % points.length];
+        return `${i === 0 ? 'M' : 'L'}${formatPoint(towards(point, prev))}Q${formatPoint(point)} ${formatPoint(towards(point, next))}`;
+    });
+    return `${parts.join('')}Z`;
+};
+
+const toHex = ([r, g, b]: Rgb) => `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+
+/**
+ * Traces RGBA pixels into an SVG with one layer per quantized color, largest
+ * layer first. Pixels under half opacity are treated as background.
+ */
+export const traceToSvg = (
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    settings: VectorizeSettings,
+    outputSize: { width: number, height: number } = { width, height },
+): string => {
+    const pixelCount = width * height;
+    const palette = buildPalette(data, pixelCount, settings.colors);
+    const labels = new Int16Array(pixelCount).fill(TRANSPARENT);
+    for (let i = 0; i < pixelCount; i++) {
+        const offset = i * 4;
+        if (data[offset + 3] >= 128) labels[i] = nearest([data[offset], data[offset + 1], data[offset + 2]], palette);
+    }
+    removeSpeckles(labels, width, height, settings.speckleSize);
+
+    const areas = palette.map(() => 0);
+    for (const label of labels) {
+        if (label !== TRANSPARENT) areas[label]++;
+    }
+
+    // Any smoothing at all removes the one-pixel staircase, which needs a tolerance above 1/sqrt(2).
+    const tolerance = settings.smoothing > 0 ? 0.75 + (settings.smoothing / 100) * 1.25 : 0;
+    const rounding = (settings.smoothing / 100) * 0.5;
+    const maxRadius = (settings.smoothing / 100) * 6;
+    const layers = palette
+        .map((color, label) => ({ color, label, area: areas[label] }))
+        .filter(layer => layer.area > 0)
+        .sort((a, b) => b.area - a.area)
+        .map((layer, index) => {
+            const d = traceLabel(labels, width, height, layer.label)
+                .map(loop => simplifyLoop(removeCollinear(loop), tolerance))
+                .filter(loop => loop.length >= 3)
+                .map(loop => toPathData(loop, rounding, maxRadius))
+                .join('');
+            return `<g id="color-${index + 1}" fill="${toHex(layer.color)}"><path d="${d}"/></g>`;
+        });
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${outputSize.width}" height="${outputSize.height}" viewBox="0 0 ${width} ${height}">`,
+        ...layers,
+        '</svg>',
+    ].join('\n');
+};
+
+/** Vectorizes a transparent design image into SVG markup. */
+export const vectorizeDesign = async (base64Image: string, settings: VectorizeSettings): Promise<string> => {
+    const img = await loadImage(base64Image).catch(() => {
+        throw new Error('Failed to load image for vectorizing.');
+    });
+    const scale = Math.min(1, MAX_TRACE_SIDE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.width * scale));
+    canvas.height = Math.max(1, Math.round(img.height * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context for vectorizing.');
+    }
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    return traceToSvg(data, canvas.width, canvas.height, settings, { width: img.width, height: img.height });
+};
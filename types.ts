@@ -2,24 +2,79 @@
 export interface Product {
   name: string;
   prompt: string;
+  /** Print profile used for this product's print file. */
+  printProfileId?: string;
+  /** Composite onto this mockup template instead of generating an AI scene. */
+  templateId?: string;
 }
 
 export interface Products {
   [key: string]: Product;
 }
 
+export interface CatalogProduct extends Product {
+  id: string;
+}
+
+/**
+ * Output size for one print file. `width`/`height` are the trim size in pixels;
+ * bleed is added around it and the design is kept inside the safe margin.
+ */
+export interface PrintProfile {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  dpi: number;
+  bleedInches: number;
+  safeMarginInches: number;
+}
+
+/** The user's product list, in display order. Shared between team members as JSON. */
+export interface ProductCatalog {
+  version: 1;
+  maxSelectedProducts: number;
+  products: CatalogProduct[];
+  printProfiles: PrintProfile[];
+}
+
 export enum Status {
   IDLE = 'idle',
   PENDING = 'pending',
   SUCCESS = 'success',
-  FAILED = 'failed'
+  FAILED = 'failed',
+  /** Stopped by the user while running. Kept apart from FAILED so a cancel is not reported as an error. */
+  CANCELLED = 'cancelled'
+}
+
+/** A garment/material color for mockups. A null hex means the color detected from the source image. */
+export interface ProductColor {
+  name: string;
+  hex: string | null;
 }
 
 export interface Mockup {
   id: string;
+  productId: string;
+  color: ProductColor;
   name: string;
   status: Status;
   imageUrl: string | null;
+  error?: string | null;
+  /** Set while the mockup's generation waits to be retried. */
+  retry?: RetryStatus | null;
+}
+
+/** A rendered print file. Size and DPI are copied from the profile at the time of the run. */
+export interface PrintFile {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  dpi: number;
+  status: Status;
+  imageUrl: string | null;
+  error?: string | null;
 }
 
 export interface ClonedDesign {
@@ -32,3 +87,406 @@ export interface ProductDetails {
   description: string;
   tags: string;
 }
+
+export type StudioMode = 'cloner' | 'redesign';
+
+export type ProviderId = 'gemini' | 'proxy' | 'mock';
+
+/** The remote services calls are made to. The mock provider counts as one so it behaves the same way offline. */
+export type ApiService = 'gemini' | 'photoroom' | 'mock';
+
+/** Shared limits for outgoing API calls. */
+export interface RequestSchedulerSettings {
+  /** 1-8: calls allowed in flight at once, per service. */
+  concurrency: Record<ApiService, number>;
+  /** 0-5: how often a rate-limited or transiently failed call is tried again. */
+  maxRetries: number;
+}
+
+/** Shown while a call waits to be tried again. `attempt` counts retries, starting at 1. */
+export interface RetryStatus {
+  attempt: number;
+  maxRetries: number;
+}
+
+/** Services that need an API key. */
+export type KeyedService = Exclude<ApiService, 'mock'>;
+
+/** One named key for a service, such as a personal and a team Gemini key. */
+export interface ApiKeyProfile {
+  id: string;
+  service: KeyedService;
+  name: string;
+  key: string;
+}
+
+export interface KeyStore {
+  profiles: ApiKeyProfile[];
+  /** The profile each service uses, by id. */
+  active: Record<KeyedService, string | null>;
+}
+
+/** `plain` keeps keys unencrypted in this browser; `locked` and `unlocked` mean they are in the encrypted vault. */
+export type KeyVaultStatus = 'plain' | 'locked' | 'unlocked';
+
+export interface KeyVaultSnapshot {
+  status: KeyVaultStatus;
+  /** Null while the vault is locked. */
+  store: KeyStore | null;
+  /** Minutes without any input before an unlocked vault locks itself; 0 never locks. */
+  autoLockMinutes: number;
+}
+
+export interface ProviderCredentials {
+  geminiApiKey: string;
+  photoroomApiKey: string;
+}
+
+export type BackgroundRemovalMode = 'photoroom' | 'local' | 'auto';
+
+export interface BackgroundRemovalSettings {
+  mode: BackgroundRemovalMode;
+  /** 0-100: how far (as a percentage of the largest color distance) a pixel may be from the background color and still be removed. */
+  tolerance: number;
+  /** 0-100: extra distance over which edge pixels fade from transparent to opaque. */
+  edgeSoftness: number;
+  /** Removes the background color bleeding into semi-transparent edge pixels. */
+  defringe: boolean;
+}
+
+/**
+ * A backend able to run every AI step of the studio pipeline.
+ * All images are passed around as base64 data URLs.
+ */
+export interface ImageProvider {
+  id: ProviderId;
+  extractDesignPrompt: (base64Image: string, options?: ProviderCallOptions) => Promise<ExtractedDesign>;
+  analyzeImageColor: (base64Image: string, options?: ProviderCallOptions) => Promise<string>;
+  generateImage: (prompt: string, base64InputImage: string, options?: ProviderCallOptions) => Promise<string>;
+  removeBackground: (base64Image: string, options?: ProviderCallOptions) => Promise<string>;
+  generateProductDetails: (base64Image: string, options?: ProviderCallOptions) => Promise<ProductDetails>;
+}
+
+/** Per-call extras for provider methods. */
+export interface ProviderCallOptions {
+  /** Who the call is billed to in the usage ledger. */
+  usage?: UsageScope;
+  /** Called before each retry of a failed call. */
+  onRetry?: (retry: RetryStatus) => void;
+  /** Aborts the call, including any queued or backed-off retries. */
+  signal?: AbortSignal;
+}
+
+export type PipelineStepId = 'analyzeColor' | 'extractPrompt' | 'clone' | 'removeBackground';
+
+/** The design extractor's reasoning and the image prompt it settled on. */
+export interface ExtractedDesign {
+  analysis: string;
+  prompt: string;
+}
+
+export interface PipelineStep {
+  status: Status;
+  output: string | null;
+  error: string | null;
+  /** Supplementary text shown next to the output, such as the extractor's analysis. */
+  detail?: string | null;
+  /** Every result the step produced when it generates alternatives; output is the chosen one. */
+  candidates?: string[];
+  /** Set while a failed call of a running step waits to be retried. */
+  retry?: RetryStatus | null;
+}
+
+/**
+ * Everything a run has produced so far. Successful outputs are kept so a
+ * failed run can be resumed from the step that failed.
+ */
+export interface PipelineState {
+  steps: Record<PipelineStepId, PipelineStep>;
+  printFiles: PrintFile[];
+  mockups: Mockup[];
+  /** A finished step whose output the user must approve before the run continues. */
+  awaitingReview: PipelineStepId | null;
+}
+
+/** An imported file waiting in the source tray until it is picked as the design to work on. */
+export interface ImageSource {
+  id: string;
+  file: File;
+  /** Object URL for the thumbnail; revoked when the source leaves the tray. */
+  previewUrl: string;
+}
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  sourceImage: string;
+  status: Status;
+  /** Null until the item is first picked up, so it uses the settings current at that moment. */
+  pipeline: PipelineState | null;
+  error: string | null;
+}
+
+export interface BatchSnapshot {
+  items: BatchItem[];
+  isPaused: boolean;
+  activeCount: number;
+  concurrency: number;
+}
+
+/** A saved studio run. The extracted prompt and every intermediate image live in `pipeline`. */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sourceImage: string;
+  mode: StudioMode;
+  additionalInstructions: string;
+  pipeline: PipelineState;
+  productDetails: ProductDetails | null;
+}
+
+export type MarketplaceFormat = 'shopify' | 'etsy' | 'generic';
+
+/** One product variant of one project, flattened for marketplace sheets. */
+export interface ListingVariant {
+  projectName: string;
+  handle: string;
+  title: string;
+  description: string;
+  tags: string;
+  productId: string;
+  productName: string;
+  colorName: string;
+  colorHex: string;
+  sku: string;
+  mockupFile: string;
+  price: string;
+  currency: string;
+  vendor: string;
+  quantity: number;
+}
+
+export type ListingField = keyof ListingVariant;
+
+export interface GenericColumn {
+  header: string;
+  field: ListingField;
+}
+
+export interface MarketplaceExportOptions {
+  format: MarketplaceFormat;
+  price: string;
+  currency: string;
+  vendor: string;
+  quantity: number;
+  /** Prepended to mockup file names, e.g. the CDN folder the images are uploaded to. */
+  imageBaseUrl: string;
+  genericColumns: GenericColumn[];
+}
+
+/** Raw RGBA pixels, laid out like canvas ImageData. */
+export interface RasterImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A blank product photo the design is composited onto, with no AI involved.
+ * The quad marks the print area on the photo, clockwise from its top-left corner.
+ */
+export interface MockupTemplate {
+  id: string;
+  name: string;
+  baseImage: string;
+  quad: [Point, Point, Point, Point];
+  /** Grayscale map, same size as the photo; mid-gray is neutral and brighter/darker pixels shift the design. */
+  displacementMap: string | null;
+  /** Maximum displacement in pixels. */
+  displacementStrength: number;
+  /** Grayscale map multiplied over the design to carry folds and lighting; white leaves it untouched. */
+  shadingMap: string | null;
+  /** 0-1: how strongly the shading map darkens the design. */
+  shadingStrength: number;
+  createdAt: number;
+}
+
+export interface VectorizeSettings {
+  /** 2-16: how many flat colors the design is reduced to, one SVG layer each. */
+  colors: number;
+  /** 0-100: 0 keeps exact pixel edges, higher values simplify outlines and round their corners. */
+  smoothing: number;
+  /** Patches smaller than this many pixels are merged into their surroundings. */
+  speckleSize: number;
+}
+
+export type UpscaleAlgorithm = 'browser' | 'stepped' | 'lanczos';
+
+export interface InputSettings {
+  /** Uploads with a longer edge than this, in pixels, are scaled down before any provider sees them. */
+  maxEdge: number;
+}
+
+export interface ImageFileInfo {
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+/** An upload after the input stage, ready to be sent to a provider. */
+export interface NormalizedImage {
+  dataUrl: string;
+  source: ImageFileInfo & { fileName: string; orientation: number };
+  output: ImageFileInfo;
+  /** What the input stage did, e.g. "rotated upright". Empty when the file is sent as is. */
+  changes: string[];
+}
+
+export interface UpscaleSettings {
+  algorithm: UpscaleAlgorithm;
+  /** 0-100: strength of the edge sharpening applied after enlarging. */
+  sharpen: number;
+}
+
+export type PreflightSeverity = 'error' | 'warning' | 'info';
+
+export type PreflightIssueId =
+  | 'empty'
+  | 'semiTransparent'
+  | 'halo'
+  | 'strayPixels'
+  | 'tooSmall'
+  | 'outsideSafeArea'
+  | 'offCenter'
+  | 'thinLines'
+  | 'outOfGamut';
+
+export interface PreflightIssue {
+  id: PreflightIssueId;
+  severity: PreflightSeverity;
+  title: string;
+  detail: string;
+  /** Whether applyPreflightFix can repair it automatically. */
+  fixable: boolean;
+}
+
+export interface PreflightReport {
+  issues: PreflightIssue[];
+  /** Bounding box of the visible design on the print canvas, or null if nothing is visible. */
+  bounds: { x: number; y: number; width: number; height: number } | null;
+}
+
+export type PlacementAlign = 'top' | 'center';
+
+/** Where the design sits on a print file's canvas. */
+export interface PrintPlacement {
+  /** Crop transparent borders before fitting, so the visible design fills the space. */
+  trim: boolean;
+  align: PlacementAlign;
+  /** 10-100: the widest the design may be, as a share of the safe area's width. */
+  maxWidthPercent: number;
+  /** Gap between the top of the safe area and the design when top-aligned. */
+  offsetTopInches: number;
+}
+
+/** What a print file was rendered from, so a preflight fix can render it again. */
+export interface PrintFileSource {
+  /** The transparent design, as a data URL. */
+  design: string;
+  upscale: UpscaleSettings;
+  placement: PrintPlacement;
+}
+
+/** Pipeline steps plus the calls made outside a run. */
+export type UsageStep = PipelineStepId | 'mockup' | 'productDetails';
+
+export interface UsageScope {
+  step: UsageStep;
+  /** The project or batch item the call was made for, if any. */
+  projectId: string | null;
+  projectName: string | null;
+}
+
+/** What a call consumed, as reported by the service. */
+export interface UsageMetrics {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  images: number;
+}
+
+/** One service call in the usage ledger. */
+export interface UsageRecord extends UsageScope, UsageMetrics {
+  id: string;
+  timestamp: number;
+  service: ApiService;
+  model: string;
+  latencyMs: number;
+  outcome: 'success' | 'error' | 'cancelled';
+  error?: string;
+}
+
+/** Per-unit prices for one model, in US dollars. */
+export interface UsagePrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+  perImage: number;
+}
+
+export type UsagePrices = Record<string, UsagePrice>;
+
+export type StudioErrorKind = 'safety' | 'rateLimit' | 'auth' | 'network' | 'badOutput' | 'invalidRequest' | 'processing';
+
+/** The part of a run an error came from. */
+export type ErrorSource =
+  | { type: 'step'; id: PipelineStepId }
+  | { type: 'mockup'; id: string }
+  | { type: 'printFile'; id: string };
+
+/** One entry in the notification center. Plain notices carry only a message. */
+export interface StudioNotification {
+  id: string;
+  kind: StudioErrorKind | 'notice';
+  title?: string;
+  message: string;
+  explanation?: string;
+  action?: string;
+  /** The raw response or underlying error, shown under "Details". */
+  raw?: string | null;
+  source?: ErrorSource;
+  createdAt: number;
+}
+
+/** Where the local proxy server mounts its endpoints, on the same origin as the app. */
+export const PROXY_BASE_PATH = '/api/proxy';
+
+/** One operation the local proxy server runs with its own keys. */
+export type ProxyEndpoint = 'extract' | 'color' | 'clone' | 'mockup' | 'remove-background' | 'details';
+
+export interface ProxyRequest {
+  /** The input image as a data URL. */
+  image: string;
+  /** Only used by `clone` and `mockup`. */
+  prompt?: string;
+}
+
+export interface ProxyResponse<T = unknown> {
+  result: T;
+  /** What the upstream call consumed, for the usage ledger. */
+  usage: Partial<UsageMetrics>;
+}
+
+/** What `GET /api/proxy/health` reports. */
+export interface ProxyHealth {
+  upstream: 'live' | 'stub';
+  /** Which keys the server holds. The keys themselves are never sent. */
+  keys: Record<KeyedService, boolean>;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('quotes cells with commas, quotes and line breaks', () => {
+        expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain');
+    });
+
+    it('joins rows with CRLF and writes missing values as empty cells', () => {
+        expect(toCsv([['a', null], [undefined, 1]])).toBe('a,\r\n,1');
+    });
+
+    it.each(['=1+1', '+SUM(A1)', '-2+3', '@cmd', '\tstart'])('neutralises %j so spreadsheets do not run it', (cell) => {
+        expect(toCsv([[cell]])).toBe(`'${cell}`);
+    });
+
+    it('neutralises formulas that also need quoting', () => {
+        expect(toCsv([['=HYPERLINK("http://x","a")']])).toBe(`"'=HYPERLINK(""http://x"",""a"")"`);
+    });
+
+    it('leaves negative numbers as numbers', () => {
+        expect(toCsv([[-5, 'x-5']])).toBe('-5,x-5');
+    });
+});
@@ -0,0 +1,16 @@
+/** Spreadsheets run a cell starting with one of these as a formula, even inside quotes. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | null | undefined): string => {
+    const raw = value === null || value === undefined ? '' : String(value);
+    // A leading apostrophe makes Excel and Sheets show text like "=HYPERLINK(...)" instead of running it.
+    const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serializes rows as RFC 4180 CSV. The first row is expected to be the header.
+ * Text that would be read as a formula is prefixed with an apostrophe; numbers are left alone.
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+    rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
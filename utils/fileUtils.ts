@@ -1,7 +1,69 @@
-
-export const toBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
+export const blobToBase64 = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = error => reject(error);
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+});
+
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+    const byteCharacters = atob(base64.split(',')[1]);
+    const byteNumbers = new Array(byteCharacters.length);
+    for (let i = 0; i < byteCharacters.length; i++) {
+      byteNumbers[i] = byteCharacters.charCodeAt(i);
+    }
+    const byteArray = new Uint8Array(byteNumbers);
+    return new Blob([byteArray], { type: mimeType });
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.split(',')[1]);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/** The MIME type a data URL declares, falling back to PNG for anything unlabelled. */
+export const getDataUrlMimeType = (dataUrl: string): string =>
+    dataUrl.match(/^data:([^;,]+)[;,]/)?.[1] ?? 'image/png';
+
+export const getImagePart = (base64Image: string) => {
+    return {
+        inlineData: {
+            mimeType: getDataUrlMimeType(base64Image),
+            data: base64Image.split(',')[1],
+        },
+    };
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image.'));
+    img.src = src;
 });
+
+export const downloadUrl = (url: string, fileName: string) => {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, fileName);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
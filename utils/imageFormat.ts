@@ -0,0 +1,69 @@
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((value, i) => bytes[offset + i] === value);
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+/**
+ * Identifies an image by its leading bytes. File names and the browser's
+ * `File.type` are guesses; a ".png" saved from a phone is often a JPEG.
+ */
+export const detectImageMimeType = (bytes: Uint8Array): string | null => {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (readAscii(bytes, 0, 6) === 'GIF87a' || readAscii(bytes, 0, 6) === 'GIF89a') return 'image/gif';
+    if (readAscii(bytes, 0, 4) === 'RIFF' && readAscii(bytes, 8, 4) === 'WEBP') return 'image/webp';
+    if (readAscii(bytes, 0, 2) === 'BM' && bytes.length > 26) return 'image/bmp';
+    if (readAscii(bytes, 4, 4) === 'ftyp') {
+        const brand = readAscii(bytes, 8, 4);
+        if (brand === 'avif' || brand === 'avis') return 'image/avif';
+        if (['heic', 'heix', 'hevc', 'heim', 'heis', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+    }
+    return null;
+};
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+const ORIENTATION_TAG = 0x0112;
+
+/**
+ * Reads the EXIF orientation (1-8) of a JPEG, or 1 when there is none.
+ * Phones store photos as the sensor saw them and set this tag instead of
+ * rotating the pixels.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+    if (!startsWith(bytes, [0xff, 0xd8])) return 1;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        // Start of scan: image data follows and no more metadata segments.
+        if (marker === 0xda) break;
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xe1 && startsWith(bytes, EXIF_HEADER, offset + 4)) {
+            const tiff = offset + 10;
+            if (tiff + 8 > bytes.length) return 1;
+            const littleEndian = bytes[tiff] === 0x49; // "II" as opposed to "MM"
+            const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+            if (ifd + 2 > bytes.length) return 1;
+            const entries = view.getUint16(ifd, littleEndian);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 12 > bytes.length) return 1;
+                if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+                    const orientation = view.getUint16(entry + 8, littleEndian);
+                    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + length;
+    }
+    return 1;
+};
+
+export const formatFileSize = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
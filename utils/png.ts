@@ -0,0 +1,54 @@
+import { crc32 } from './crc32';
+import { bytesToDataUrl, dataUrlToBytes } from './fileUtils';
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const INCHES_PER_METER = 39.3701;
+
+const createPhysChunk = (dpi: number): Uint8Array => {
+    const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+    const chunk = new Uint8Array(21);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, 9);
+    chunk.set([112, 72, 89, 115], 4); // "pHYs"
+    view.setUint32(8, pixelsPerMeter);
+    view.setUint32(12, pixelsPerMeter);
+    chunk[16] = 1; // unit: meter
+    view.setUint32(17, crc32(chunk.subarray(4, 17)));
+    return chunk;
+};
+
+/**
+ * Writes the print resolution into a PNG data URL as a pHYs chunk, replacing
+ * any existing one. Canvas exports carry no DPI, so print shops would
+ * otherwise read them as 72 DPI.
+ */
+export const setPngDpi = (dataUrl: string, dpi: number): string => {
+    const bytes = dataUrlToBytes(dataUrl);
+    if (!PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+        throw new Error('Cannot set DPI: the image is not a PNG.');
+    }
+
+    const view = new DataView(bytes.buffer);
+    const chunks: Uint8Array[] = [bytes.subarray(0, 8)];
+    let offset = 8;
+    while (offset < bytes.length) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const end = offset + 12 + length;
+        if (type !== 'pHYs') {
+            chunks.push(bytes.subarray(offset, end));
+        }
+        if (type === 'IHDR') {
+            chunks.push(createPhysChunk(dpi));
+        }
+        offset = end;
+    }
+
+    const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, position);
+        position += chunk.length;
+    }
+    return bytesToDataUrl(output, 'image/png');
+};
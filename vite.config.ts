@@ -1,13 +1,12 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { proxyServerPlugin } from './server/proxyServer';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      // Keys in the environment are only read by the proxy server, never inlined into the app.
+      plugins: [proxyServerPlugin(env)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),